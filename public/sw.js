@@ -0,0 +1,196 @@
+// Service worker: makes the app installable and usable offline.
+//
+// The app shell (index.html and the built scripts, styles and fonts it pulls in)
+// is precached on install. Every route is the same single-page shell, so page
+// loads go to the network first and fall back to the cached index.html.
+//
+// Downloaded audiobook and soundtrack files live in their own cache and play
+// back from there, seeking included. Pages ask for a download with
+// { type: 'cache-audio', id, bookId, audioType, url } and hear back with
+// 'audio-progress', 'audio-cached' or 'audio-error' messages carrying the same id.
+
+// Stamped with the build's id and its files by serviceWorkerBuild in
+// vite.config.ts, so every deploy installs a new worker with its own shell cache
+// and the previous build's is deleted on activate. Left as is in development
+const BUILD_ID = 'dev';
+const BUILD_FILES = [];
+
+const SHELL_CACHE = `crater-shell-${BUILD_ID}`;
+const AUDIO_CACHE = 'crater-audio-v1';
+
+const SHELL_FILES = ['/', '/index.html', '/manifest.webmanifest', '/favicon.png'];
+
+// Stylesheets list every font in every subset and format, most of which a
+// browser never asks for. Only the latin woff2 files are precached; the rest are
+// cached by handleAsset the first time they load
+const isPrecachedFont = (path) => /-latin-\d+-[^/]*\.woff2$/.test(path);
+
+// Built files referenced from index.html, and the fonts their stylesheets load
+async function shellAssets() {
+  const html = await (await fetch('/index.html', { cache: 'no-store' })).text();
+  const assets = [...html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g)].map(m => m[1]);
+  const styles = assets.filter(a => a.endsWith('.css'));
+  for (const style of styles) {
+    const css = await (await fetch(style)).text();
+    const fonts = [...css.matchAll(/url\((\/assets\/[^)]+)\)/g)].map(m => m[1]);
+    assets.push(...fonts.filter(isPrecachedFont));
+  }
+  return assets;
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.addAll([...SHELL_FILES, ...await shellAssets()]);
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names
+      .filter(name => name.startsWith('crater-shell-') && name !== SHELL_CACHE)
+      .map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+// Page loads: the latest shell when online, the cached one when not
+async function handleNavigation(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put('/index.html', response.clone());
+    return response;
+  } catch {
+    return (await cache.match('/index.html')) ?? Response.error();
+  }
+}
+
+// Built files have hashed names, so a cached copy never goes stale. Files from
+// another build, asked for by a page loaded before the update, aren't kept
+const buildFiles = new Set([...SHELL_FILES, ...BUILD_FILES]);
+
+async function handleAsset(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  const path = new URL(request.url).pathname;
+  if (response.ok && (BUILD_FILES.length === 0 || buildFiles.has(path))) {
+    cache.put(request, response.clone());
+  }
+  return response;
+}
+
+// Signed storage URLs carry a token that changes between visits, so files are
+// cached under their bare path. Keep in step with audioCacheKey in src/lib/audioCache.ts
+function audioCacheKey(url) {
+  const parsed = new URL(url, self.location.href);
+  return parsed.origin + parsed.pathname;
+}
+
+async function broadcast(message) {
+  const clients = await self.clients.matchAll({ includeUncontrolled: true });
+  for (const client of clients) client.postMessage(message);
+}
+
+// The file streams straight into the cache; a second copy of the stream is
+// only counted, for progress
+async function downloadAudio({ id, bookId, audioType, url }) {
+  try {
+    const response = await fetch(url);
+    if (!response.ok || !response.body) throw new Error(`Download failed (${response.status})`);
+
+    const total = Number(response.headers.get('Content-Length')) || 0;
+    const headers = { 'Content-Type': response.headers.get('Content-Type') || 'audio/mpeg' };
+    const [toCache, toCount] = response.body.tee();
+
+    const countBytes = async () => {
+      const reader = toCount.getReader();
+      let loaded = 0;
+      let reportedAt = 0;
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) return loaded;
+        loaded += value.length;
+        if (Date.now() - reportedAt > 250) {
+          reportedAt = Date.now();
+          broadcast({ type: 'audio-progress', id, bookId, loaded, total });
+        }
+      }
+    };
+
+    const cache = await caches.open(AUDIO_CACHE);
+    const [, loaded] = await Promise.all([
+      cache.put(audioCacheKey(url), new Response(toCache, { headers })),
+      countBytes(),
+    ]);
+    broadcast({ type: 'audio-cached', id, bookId, audioType, url, size: loaded });
+  } catch (error) {
+    broadcast({ type: 'audio-error', id, bookId, message: error.message });
+  }
+}
+
+// Answer a media element's "Range: bytes=start-end" from the whole cached file
+async function rangeResponse(cached, range) {
+  const blob = await cached.blob();
+  const match = /^bytes=(\d*)-(\d*)$/.exec(range.trim());
+  let start = -1;
+  let end = blob.size - 1;
+  if (match && match[1] !== '') {
+    start = Number(match[1]);
+    if (match[2] !== '') end = Math.min(Number(match[2]), blob.size - 1);
+  } else if (match && match[2] !== '') {
+    // A suffix range: the last N bytes
+    start = Math.max(0, blob.size - Number(match[2]));
+  }
+
+  if (start < 0 || start >= blob.size || start > end) {
+    return new Response(null, { status: 416, headers: { 'Content-Range': `bytes */${blob.size}` } });
+  }
+
+  return new Response(blob.slice(start, end + 1), {
+    status: 206,
+    headers: {
+      'Accept-Ranges': 'bytes',
+      'Content-Type': blob.type,
+      'Content-Length': String(end - start + 1),
+      'Content-Range': `bytes ${start}-${end}/${blob.size}`,
+    },
+  });
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (request.mode === 'navigate' && url.origin === self.location.origin) {
+    event.respondWith(handleNavigation(request));
+    return;
+  }
+  if (url.origin === self.location.origin && (url.pathname.startsWith('/assets/') || SHELL_FILES.includes(url.pathname))) {
+    event.respondWith(handleAsset(request));
+    return;
+  }
+
+  // Audio elements ask with ranges; anything else goes straight to the network
+  if (request.destination !== 'audio' && !request.headers.has('range')) return;
+
+  event.respondWith((async () => {
+    const cache = await caches.open(AUDIO_CACHE);
+    const cached = await cache.match(audioCacheKey(request.url));
+    if (!cached) return fetch(request);
+    const range = request.headers.get('range');
+    return range ? rangeResponse(cached, range) : cached;
+  })());
+});
+
+self.addEventListener('message', (event) => {
+  const data = event.data ?? {};
+  if (data.type === 'cache-audio') {
+    event.waitUntil(downloadAudio(data));
+  }
+});
@@ -7,6 +7,8 @@ import Landing from "./pages/Landing";
 import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
 import Reader from "./pages/Reader";
+import Series from "./pages/Series";
+import ReadingStats from "./pages/ReadingStats";
 import Admin from "./pages/Admin";
 import PrivacyPolicy from "./pages/legal/PrivacyPolicy";
 import TermsOfService from "./pages/legal/TermsOfService";
@@ -28,6 +30,16 @@ const App = () => (
               <Dashboard />
             </ProtectedRoute>
           } />
+          <Route path="/series/:seriesId" element={
+            <ProtectedRoute>
+              <Series />
+            </ProtectedRoute>
+          } />
+          <Route path="/stats" element={
+            <ProtectedRoute>
+              <ReadingStats />
+            </ProtectedRoute>
+          } />
           <Route path="/reader/:bookId" element={
             <ProtectedRoute>
               <Reader />
@@ -15,7 +15,16 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Switch } from '@/components/ui/switch';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Loader2, Upload, Play, Pause, Star, GripVertical, Trash2, Music, FileText, Eye, EyeOff } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ManuscriptImportPreview, type ImportChapterDraft } from './ManuscriptImportPreview';
+import { ImportHistory } from './ImportHistory';
+import { ChapterEditorModal } from './ChapterEditorModal';
+import { ReleaseCalendar } from './ReleaseCalendar';
+import { blockOffsets, blockText, parseChapterMarkup, stripChapterMarkup } from '@/lib/chapterMarkup';
+import { parseSyncMap, toSyncMap } from '@/lib/audioSync';
+import type { Json } from '@/integrations/supabase/types';
+import { format } from 'date-fns';
+import { Loader2, Upload, Play, Pause, Star, GripVertical, Trash2, Music, FileText, Eye, EyeOff, Pencil, Clock, AudioLines, X } from 'lucide-react';
 
 interface Book {
   id: string;
@@ -25,6 +34,7 @@ interface Book {
   cover_url: string | null;
   price_cents: number;
   preview_chapters: number;
+  early_access_days?: number;
   is_published: boolean;
 }
 
@@ -40,6 +50,8 @@ interface AudioTrack {
   sort_order: number;
   is_enabled: boolean;
   price_cents: number;
+  chapter_id: string | null;
+  sync_map: Json | null;
 }
 
 interface Chapter {
@@ -50,6 +62,15 @@ interface Chapter {
   content: string | null;
   word_count: number | null;
   is_preview: boolean;
+  release_at: string | null;
+}
+
+interface ParseManuscriptResult {
+  error?: string;
+  chaptersCreated?: number;
+  chaptersUpdated?: number;
+  chapters?: { title: string; content: string; matchedTitle: string | null }[];
+  warnings?: string[];
 }
 
 interface BookEditModalProps {
@@ -66,12 +87,16 @@ export function BookEditModal({ open, onOpenChange, book }: BookEditModalProps)
   const [manuscriptUploading, setManuscriptUploading] = useState(false);
   const [parsingManuscript, setParsingManuscript] = useState(false);
   const [uploadedManuscriptPath, setUploadedManuscriptPath] = useState<string | null>(null);
+  const [importDrafts, setImportDrafts] = useState<ImportChapterDraft[] | null>(null);
+  const [importWarnings, setImportWarnings] = useState<string[]>([]);
+  const [editingChapter, setEditingChapter] = useState<Chapter | null>(null);
   const [title, setTitle] = useState(book?.title || '');
   const [author, setAuthor] = useState(book?.author || '');
   const [description, setDescription] = useState(book?.description || '');
   const [coverUrl, setCoverUrl] = useState(book?.cover_url || '');
   const [priceCents, setPriceCents] = useState(book?.price_cents?.toString() || '0');
   const [previewChapters, setPreviewChapters] = useState(book?.preview_chapters?.toString() || '3');
+  const [earlyAccessDays, setEarlyAccessDays] = useState(book?.early_access_days?.toString() || '0');
   const [isPublished, setIsPublished] = useState(book?.is_published || false);
   const [previewAudioUrl, setPreviewAudioUrl] = useState<string | null>(null);
   const coverInputRef = useRef<HTMLInputElement>(null);
@@ -143,6 +168,20 @@ export function BookEditModal({ open, onOpenChange, book }: BookEditModalProps)
     }
   };
 
+  // Length of an audio file from its metadata, or null if the browser can't tell
+  const readAudioDuration = (file: File) => new Promise<number | null>((resolve) => {
+    const url = URL.createObjectURL(file);
+    const probe = new Audio();
+    const finish = (duration: number | null) => {
+      URL.revokeObjectURL(url);
+      resolve(duration);
+    };
+    probe.preload = 'metadata';
+    probe.onloadedmetadata = () => finish(Number.isFinite(probe.duration) ? Math.round(probe.duration) : null);
+    probe.onerror = () => finish(null);
+    probe.src = url;
+  });
+
   const handleAudioUpload = async (e: React.ChangeEvent<HTMLInputElement>, type: 'audiobook' | 'soundtrack') => {
     const file = e.target.files?.[0];
     if (!file || !book?.id) return;
@@ -161,6 +200,7 @@ export function BookEditModal({ open, onOpenChange, book }: BookEditModalProps)
       const { data: urlData } = supabase.storage
         .from('book-audio')
         .getPublicUrl(fileName);
+      const durationSeconds = await readAudioDuration(file);
 
       // Create audio record
       const { error: insertError } = await supabase
@@ -170,6 +210,7 @@ export function BookEditModal({ open, onOpenChange, book }: BookEditModalProps)
           type,
           title: file.name.replace(/\.[^/.]+$/, ''),
           file_url: urlData.publicUrl,
+          duration_seconds: durationSeconds || null,
           sort_order: (audioTracks?.filter(t => t.type === type).length || 0),
           is_enabled: true,
         });
@@ -228,6 +269,58 @@ export function BookEditModal({ open, onOpenChange, book }: BookEditModalProps)
     }
   };
 
+  // A sync map belongs to one chapter's text, so relinking a track drops it
+  const handleLinkChapter = async (trackId: string, chapterId: string | null) => {
+    const { error } = await supabase
+      .from('book_audio')
+      .update({ chapter_id: chapterId, sync_map: null })
+      .eq('id', trackId);
+
+    if (error) {
+      toast({ title: 'Failed to link chapter', variant: 'destructive' });
+    } else {
+      refetchAudio();
+    }
+  };
+
+  const handleSyncMapUpload = async (track: AudioTrack, file: File) => {
+    const chapter = chapters?.find(c => c.id === track.chapter_id);
+    if (!chapter?.content) {
+      toast({ title: 'Link the track to a chapter with text first', variant: 'destructive' });
+      return;
+    }
+
+    try {
+      const blocks = parseChapterMarkup(chapter.content);
+      const offsets = blockOffsets(chapter.content, blocks).filter((_, i) => blockText(blocks[i]).trim());
+      const points = parseSyncMap(await file.text(), file.name, stripChapterMarkup(chapter.content), offsets);
+
+      const { error } = await supabase
+        .from('book_audio')
+        .update({ sync_map: points.map(p => ({ time: p.time, offset: p.offset })) })
+        .eq('id', track.id);
+      if (error) throw error;
+
+      toast({ title: 'Sync map uploaded', description: `${points.length} timings matched to "${chapter.title}"` });
+      refetchAudio();
+    } catch (error) {
+      toast({ title: 'Failed to read sync map', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  const handleClearSyncMap = async (trackId: string) => {
+    const { error } = await supabase
+      .from('book_audio')
+      .update({ sync_map: null })
+      .eq('id', trackId);
+
+    if (error) {
+      toast({ title: 'Failed to remove sync map', variant: 'destructive' });
+    } else {
+      refetchAudio();
+    }
+  };
+
   const handleDeleteTrack = async (trackId: string) => {
     const { error } = await supabase
       .from('book_audio')
@@ -293,7 +386,9 @@ export function BookEditModal({ open, onOpenChange, book }: BookEditModalProps)
       if (uploadError) throw uploadError;
 
       setUploadedManuscriptPath(fileName);
-      toast({ title: 'Manuscript uploaded', description: 'Ready to parse into chapters' });
+      setImportDrafts(null);
+      setImportWarnings([]);
+      toast({ title: 'Manuscript uploaded', description: 'Ready to preview chapters' });
     } catch (error: any) {
       toast({ title: 'Failed to upload manuscript', description: error.message, variant: 'destructive' });
     } finally {
@@ -302,54 +397,99 @@ export function BookEditModal({ open, onOpenChange, book }: BookEditModalProps)
     }
   };
 
-  const handleParseManuscript = async (mode: 'add' | 'replace') => {
+  // Call parse-manuscript with the current session token
+  const invokeParseManuscript = async (body: Record<string, unknown>): Promise<ParseManuscriptResult> => {
+    const { data: sessionData } = await supabase.auth.getSession();
+    const accessToken = sessionData?.session?.access_token;
+
+    if (!accessToken) {
+      throw new Error('Not authenticated. Please log out and log back in.');
+    }
+
+    const { data, error } = await supabase.functions.invoke('parse-manuscript', {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+      },
+      body,
+    });
+
+    if (error) {
+      throw new Error(error.message || 'Failed to parse manuscript');
+    }
+
+    const result = data as ParseManuscriptResult;
+
+    if (result.error) {
+      throw new Error(result.error);
+    }
+
+    return result;
+  };
+
+  // Dry run: detect chapters without writing anything
+  const handlePreviewManuscript = async () => {
     if (!uploadedManuscriptPath || !book?.id) return;
 
     setParsingManuscript(true);
     try {
-      // Get current session token explicitly
-      const { data: sessionData } = await supabase.auth.getSession();
-      const accessToken = sessionData?.session?.access_token;
-      
-      if (!accessToken) {
-        throw new Error('Not authenticated. Please log out and log back in.');
-      }
-
-      const { data, error } = await supabase.functions.invoke('parse-manuscript', {
-        headers: {
-          Authorization: `Bearer ${accessToken}`,
-        },
-        body: {
-          bookId: book.id,
-          filePath: uploadedManuscriptPath,
-          mode,
-        },
+      const result = await invokeParseManuscript({
+        bookId: book.id,
+        filePath: uploadedManuscriptPath,
+        dryRun: true,
       });
 
-      if (error) {
-        throw new Error(error.message || 'Failed to parse manuscript');
-      }
+      setImportDrafts(
+        (result.chapters || []).map((ch) => ({
+          key: crypto.randomUUID(),
+          title: ch.title,
+          content: ch.content,
+          matchedTitle: ch.matchedTitle,
+        }))
+      );
+      setImportWarnings(result.warnings || []);
+    } catch (error: any) {
+      toast({ title: 'Failed to parse manuscript', description: error.message, variant: 'destructive' });
+    } finally {
+      setParsingManuscript(false);
+    }
+  };
 
-      const result = data as any;
-      
-      if (result.error) {
-        throw new Error(result.error);
-      }
+  // Write the reviewed chapters
+  const handleCommitImport = async (mode: 'add' | 'replace') => {
+    if (!importDrafts || !book?.id) return;
+
+    setParsingManuscript(true);
+    try {
+      const result = await invokeParseManuscript({
+        bookId: book.id,
+        mode,
+        chapters: importDrafts.map(({ title, content }) => ({ title: title.trim(), content })),
+      });
 
       toast({ 
-        title: 'Manuscript parsed successfully', 
-        description: `${result.chaptersCreated} chapters created` 
+        title: 'Manuscript imported successfully', 
+        description: result.chaptersUpdated
+          ? `${result.chaptersCreated} chapters created, ${result.chaptersUpdated} updated`
+          : `${result.chaptersCreated} chapters created`
       });
       setUploadedManuscriptPath(null);
+      setImportDrafts(null);
+      setImportWarnings([]);
       refetchChapters();
       queryClient.invalidateQueries({ queryKey: ['admin-books'] });
+      queryClient.invalidateQueries({ queryKey: ['import-runs', book.id] });
     } catch (error: any) {
-      toast({ title: 'Failed to parse manuscript', description: error.message, variant: 'destructive' });
+      toast({ title: 'Failed to import manuscript', description: error.message, variant: 'destructive' });
     } finally {
       setParsingManuscript(false);
     }
   };
 
+  const handleDiscardImport = () => {
+    setImportDrafts(null);
+    setImportWarnings([]);
+  };
+
   const handleToggleChapterPreview = async (chapterId: string, isPreview: boolean) => {
     const { error } = await supabase
       .from('chapters')
@@ -393,6 +533,7 @@ export function BookEditModal({ open, onOpenChange, book }: BookEditModalProps)
         cover_url: coverUrl || null,
         price_cents: parseInt(priceCents) || 0,
         preview_chapters: parseInt(previewChapters) || 3,
+        early_access_days: Math.max(0, parseInt(earlyAccessDays) || 0),
         is_published: isPublished,
         updated_at: new Date().toISOString(),
       };
@@ -431,8 +572,11 @@ export function BookEditModal({ open, onOpenChange, book }: BookEditModalProps)
       setCoverUrl(book?.cover_url || '');
       setPriceCents(book?.price_cents?.toString() || '0');
       setPreviewChapters(book?.preview_chapters?.toString() || '3');
+      setEarlyAccessDays(book?.early_access_days?.toString() || '0');
       setIsPublished(book?.is_published || false);
       setUploadedManuscriptPath(null);
+      setImportDrafts(null);
+      setImportWarnings([]);
     }
     onOpenChange(open);
   };
@@ -446,6 +590,7 @@ export function BookEditModal({ open, onOpenChange, book }: BookEditModalProps)
       setCoverUrl(book.cover_url || '');
       setPriceCents(book.price_cents?.toString() || '0');
       setPreviewChapters(book.preview_chapters?.toString() || '3');
+      setEarlyAccessDays(book.early_access_days?.toString() || '0');
       setIsPublished(book.is_published || false);
     }
   }, [book]);
@@ -575,6 +720,21 @@ export function BookEditModal({ open, onOpenChange, book }: BookEditModalProps)
                 </div>
               </div>
 
+              <div>
+                <Label htmlFor="earlyAccessDays">Inner Circle Early Access (days)</Label>
+                <Input
+                  id="earlyAccessDays"
+                  type="number"
+                  min="0"
+                  value={earlyAccessDays}
+                  onChange={(e) => setEarlyAccessDays(e.target.value)}
+                  placeholder="0"
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Inner Circle subscribers can read scheduled chapters this many days before their release date
+                </p>
+              </div>
+
               <div className="flex items-center justify-between">
                 <div>
                   <Label htmlFor="published">Published</Label>
@@ -615,13 +775,13 @@ export function BookEditModal({ open, onOpenChange, book }: BookEditModalProps)
                   <div className="p-4 border rounded-lg bg-muted/20">
                     <h4 className="font-serif text-lg mb-3">Upload Manuscript</h4>
                     <p className="text-sm text-muted-foreground mb-4">
-                      Upload a TXT, MD, or DOCX file. The system will parse it into chapters automatically.
+                      Upload a TXT, MD, DOCX, EPUB, or PDF file. The system will parse it into chapters automatically.
                     </p>
                     
                     <input
                       ref={manuscriptInputRef}
                       type="file"
-                      accept=".txt,.md,.docx,.epub"
+                      accept=".txt,.md,.docx,.epub,.pdf"
                       onChange={handleManuscriptUpload}
                       className="hidden"
                     />
@@ -641,34 +801,19 @@ export function BookEditModal({ open, onOpenChange, book }: BookEditModalProps)
                         Select File
                       </Button>
                       
-                      {uploadedManuscriptPath && (
-                        <>
-                          <Button
-                            type="button"
-                            onClick={() => handleParseManuscript('add')}
-                            disabled={parsingManuscript}
-                          >
-                            {parsingManuscript ? (
-                              <Loader2 className="w-4 h-4 animate-spin mr-2" />
-                            ) : (
-                              <FileText className="w-4 h-4 mr-2" />
-                            )}
-                            Add Chapters
-                          </Button>
-                          <Button
-                            type="button"
-                            variant="destructive"
-                            onClick={() => handleParseManuscript('replace')}
-                            disabled={parsingManuscript}
-                          >
-                            {parsingManuscript ? (
-                              <Loader2 className="w-4 h-4 animate-spin mr-2" />
-                            ) : (
-                              <FileText className="w-4 h-4 mr-2" />
-                            )}
-                            Replace All
-                          </Button>
-                        </>
+                      {uploadedManuscriptPath && !importDrafts && (
+                        <Button
+                          type="button"
+                          onClick={handlePreviewManuscript}
+                          disabled={parsingManuscript}
+                        >
+                          {parsingManuscript ? (
+                            <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                          ) : (
+                            <FileText className="w-4 h-4 mr-2" />
+                          )}
+                          Preview Chapters
+                        </Button>
                       )}
                     </div>
                     
@@ -679,6 +824,18 @@ export function BookEditModal({ open, onOpenChange, book }: BookEditModalProps)
                     )}
                   </div>
 
+                  {/* Import Preview */}
+                  {importDrafts && (
+                    <ManuscriptImportPreview
+                      chapters={importDrafts}
+                      warnings={importWarnings}
+                      onChange={setImportDrafts}
+                      onCommit={handleCommitImport}
+                      onCancel={handleDiscardImport}
+                      committing={parsingManuscript}
+                    />
+                  )}
+
                   {/* Existing Chapters */}
                   <div>
                   <h4 className="font-serif text-lg mb-3">
@@ -698,6 +855,15 @@ export function BookEditModal({ open, onOpenChange, book }: BookEditModalProps)
                             <span className="flex-1 text-sm truncate">
                               {chapter.title}
                             </span>
+                            {chapter.release_at && new Date(chapter.release_at) > new Date() && (
+                              <span
+                                className="flex items-center gap-1 text-xs text-primary"
+                                title="Scheduled release"
+                              >
+                                <Clock className="w-3 h-3" />
+                                {format(new Date(chapter.release_at), 'MMM d')}
+                              </span>
+                            )}
                             <span className="text-xs text-muted-foreground">
                               {chapter.word_count?.toLocaleString() || 0} words
                             </span>
@@ -716,6 +882,13 @@ export function BookEditModal({ open, onOpenChange, book }: BookEditModalProps)
                                 <EyeOff className="w-4 h-4" />
                               )}
                             </button>
+                            <button
+                              onClick={() => setEditingChapter(chapter)}
+                              className="p-1 text-muted-foreground hover:text-foreground transition-colors"
+                              title="Edit chapter"
+                            >
+                              <Pencil className="w-4 h-4" />
+                            </button>
                             <button
                               onClick={() => handleDeleteChapter(chapter.id)}
                               className="p-1 text-muted-foreground hover:text-destructive transition-colors"
@@ -733,8 +906,29 @@ export function BookEditModal({ open, onOpenChange, book }: BookEditModalProps)
                     )}
                   </div>
 
+                  {/* Release Schedule */}
+                  {safeChapters.length > 0 && (
+                    <ReleaseCalendar
+                      chapters={safeChapters}
+                      earlyAccessDays={parseInt(earlyAccessDays) || 0}
+                      onScheduled={() => {
+                        refetchChapters();
+                        queryClient.invalidateQueries({ queryKey: ['chapters'] });
+                      }}
+                    />
+                  )}
+
+                  {/* Import History */}
+                  <ImportHistory
+                    bookId={book.id}
+                    onRolledBack={() => {
+                      refetchChapters();
+                      queryClient.invalidateQueries({ queryKey: ['admin-books'] });
+                    }}
+                  />
+
                   <p className="text-xs text-muted-foreground">
-                    Tip: Chapters marked with the eye icon are free previews. The parser looks for "Chapter X" patterns or markdown headers to split content.
+                    Tip: Chapters marked with the eye icon are free previews. The parser looks for "Chapter X" patterns or markdown headers to split content, and uses the table of contents or bookmarks for EPUB and PDF files.
                   </p>
                 </>
               )}
@@ -781,15 +975,23 @@ export function BookEditModal({ open, onOpenChange, book }: BookEditModalProps)
                     {audiobooks.length > 0 ? (
                       <div className="space-y-2">
                         {audiobooks.map((track) => (
-                          <AudioTrackRow
-                            key={track.id}
-                            track={track}
-                            isPlaying={previewAudioUrl === track.file_url}
-                            onPreview={() => handlePreviewAudio(track.file_url)}
-                            onToggle={(enabled) => handleToggleTrack(track.id, enabled)}
-                            onSetDefault={() => handleSetDefault(track.id, 'audiobook')}
-                            onDelete={() => handleDeleteTrack(track.id)}
-                          />
+                          <div key={track.id} className="space-y-1">
+                            <AudioTrackRow
+                              track={track}
+                              isPlaying={previewAudioUrl === track.file_url}
+                              onPreview={() => handlePreviewAudio(track.file_url)}
+                              onToggle={(enabled) => handleToggleTrack(track.id, enabled)}
+                              onSetDefault={() => handleSetDefault(track.id, 'audiobook')}
+                              onDelete={() => handleDeleteTrack(track.id)}
+                            />
+                            <ReadAlongControls
+                              track={track}
+                              chapters={chapters || []}
+                              onLinkChapter={(chapterId) => handleLinkChapter(track.id, chapterId)}
+                              onUploadSyncMap={(file) => handleSyncMapUpload(track, file)}
+                              onClearSyncMap={() => handleClearSyncMap(track.id)}
+                            />
+                          </div>
                         ))}
                       </div>
                     ) : (
@@ -851,13 +1053,19 @@ export function BookEditModal({ open, onOpenChange, book }: BookEditModalProps)
                   </div>
 
                   <p className="text-xs text-muted-foreground">
-                    Tip: Upload audio files (MP3, M4A, WAV, OGG). Soundtrack tracks will play during reading. The audiobook is the narrated version.
+                    Tip: Upload audio files (MP3, M4A, WAV, OGG). Soundtrack tracks will play during reading. The audiobook is the narrated version; link each audiobook track to its chapter so readers can follow along, and add a sync map (JSON or SMIL from a forced-alignment tool) for paragraph-accurate highlighting.
                   </p>
                 </>
               )}
             </div>
           </TabsContent>
         </Tabs>
+
+        <ChapterEditorModal
+          open={!!editingChapter}
+          onOpenChange={(open) => !open && setEditingChapter(null)}
+          chapter={editingChapter}
+        />
       </DialogContent>
     </Dialog>
   );
@@ -923,3 +1131,79 @@ function AudioTrackRow({
     </div>
   );
 }
+
+// Which chapter an audiobook track narrates, and its read-along timings
+function ReadAlongControls({
+  track,
+  chapters,
+  onLinkChapter,
+  onUploadSyncMap,
+  onClearSyncMap,
+}: {
+  track: AudioTrack;
+  chapters: Chapter[];
+  onLinkChapter: (chapterId: string | null) => void;
+  onUploadSyncMap: (file: File) => void;
+  onClearSyncMap: () => void;
+}) {
+  const syncInputRef = useRef<HTMLInputElement>(null);
+  const syncPoints = toSyncMap(track.sync_map)?.length ?? 0;
+
+  return (
+    <div className="flex items-center gap-2 pl-10">
+      <Select
+        value={track.chapter_id ?? 'none'}
+        onValueChange={(value) => onLinkChapter(value === 'none' ? null : value)}
+      >
+        <SelectTrigger className="h-8 flex-1 text-xs">
+          <SelectValue placeholder="Link a chapter" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">Not linked to a chapter</SelectItem>
+          {chapters.map((chapter) => (
+            <SelectItem key={chapter.id} value={chapter.id}>
+              {chapter.chapter_order}. {chapter.title}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <input
+        ref={syncInputRef}
+        type="file"
+        accept=".json,.smil,.xml"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) onUploadSyncMap(file);
+          e.target.value = '';
+        }}
+        className="hidden"
+      />
+      {syncPoints > 0 ? (
+        <span className="flex items-center gap-1 text-xs text-muted-foreground whitespace-nowrap">
+          <AudioLines className="w-3.5 h-3.5 text-primary" />
+          {syncPoints} timings
+          <button
+            onClick={onClearSyncMap}
+            className="p-0.5 hover:text-destructive transition-colors"
+            aria-label="Remove sync map"
+          >
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </span>
+      ) : (
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-8 text-xs"
+          onClick={() => syncInputRef.current?.click()}
+          disabled={!track.chapter_id}
+          title={track.chapter_id ? 'Upload a JSON or SMIL sync map' : 'Link a chapter first'}
+        >
+          <AudioLines className="w-3.5 h-3.5 mr-1" />
+          Sync map
+        </Button>
+      )}
+    </div>
+  );
+}
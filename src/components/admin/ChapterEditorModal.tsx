@@ -15,7 +15,11 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Switch } from '@/components/ui/switch';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ChapterRevisionHistory } from './ChapterRevisionHistory';
 import { Loader2 } from 'lucide-react';
+import { stripChapterMarkup } from '@/lib/chapterMarkup';
+import { fromDateTimeInputValue, toDateTimeInputValue } from '@/lib/chapterRelease';
 
 interface Chapter {
   id: string;
@@ -24,6 +28,7 @@ interface Chapter {
   content: string | null;
   chapter_order: number;
   is_preview: boolean;
+  release_at: string | null;
 }
 
 interface ChapterEditorModalProps {
@@ -41,6 +46,7 @@ export function ChapterEditorModal({ open, onOpenChange, chapter, defaultBookId
   const [content, setContent] = useState(chapter?.content || '');
   const [chapterOrder, setChapterOrder] = useState(chapter?.chapter_order?.toString() || '1');
   const [isPreview, setIsPreview] = useState(chapter?.is_preview || false);
+  const [releaseAt, setReleaseAt] = useState(toDateTimeInputValue(chapter?.release_at ?? null));
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -65,6 +71,7 @@ export function ChapterEditorModal({ open, onOpenChange, chapter, defaultBookId
       setContent(chapter?.content || '');
       setChapterOrder(chapter?.chapter_order?.toString() || '1');
       setIsPreview(chapter?.is_preview || false);
+      setReleaseAt(toDateTimeInputValue(chapter?.release_at ?? null));
     }
   }, [open, chapter, defaultBookId]);
 
@@ -77,7 +84,7 @@ export function ChapterEditorModal({ open, onOpenChange, chapter, defaultBookId
 
     setLoading(true);
     try {
-      const wordCount = content.split(/\s+/).filter(Boolean).length;
+      const wordCount = stripChapterMarkup(content).split(/\s+/).filter(Boolean).length;
       const chapterData = {
         book_id: bookId,
         title: title.trim(),
@@ -85,6 +92,7 @@ export function ChapterEditorModal({ open, onOpenChange, chapter, defaultBookId
         chapter_order: parseInt(chapterOrder) || 1,
         is_preview: isPreview,
         word_count: wordCount,
+        release_at: fromDateTimeInputValue(releaseAt),
         updated_at: new Date().toISOString(),
       };
 
@@ -111,6 +119,10 @@ export function ChapterEditorModal({ open, onOpenChange, chapter, defaultBookId
 
       queryClient.invalidateQueries({ queryKey: ['admin-books'] });
       queryClient.invalidateQueries({ queryKey: ['chapters'] });
+      queryClient.invalidateQueries({ queryKey: ['book-chapters-admin', bookId] });
+      if (isEditing && chapter) {
+        queryClient.invalidateQueries({ queryKey: ['chapter-revisions', chapter.id] });
+      }
       onOpenChange(false);
     } catch (error: any) {
       toast({ title: 'Failed to save chapter', description: error.message, variant: 'destructive' });
@@ -119,92 +131,129 @@ export function ChapterEditorModal({ open, onOpenChange, chapter, defaultBookId
     }
   };
 
+  const handleRevisionRestored = (restored: { title: string; content: string | null }) => {
+    setTitle(restored.title);
+    setContent(restored.content || '');
+    queryClient.invalidateQueries({ queryKey: ['chapters'] });
+    queryClient.invalidateQueries({ queryKey: ['book-chapters-admin', bookId] });
+  };
+
+  const form = (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <Label htmlFor="book">Book *</Label>
+        <Select value={bookId} onValueChange={setBookId}>
+          <SelectTrigger>
+            <SelectValue placeholder="Select a book" />
+          </SelectTrigger>
+          <SelectContent>
+            {books?.map((book) => (
+              <SelectItem key={book.id} value={book.id}>
+                {book.title}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="title">Chapter Title *</Label>
+          <Input
+            id="title"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="Enter chapter title"
+            required
+          />
+        </div>
+        <div>
+          <Label htmlFor="chapterOrder">Chapter Order</Label>
+          <Input
+            id="chapterOrder"
+            type="number"
+            min="1"
+            value={chapterOrder}
+            onChange={(e) => setChapterOrder(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div>
+        <Label htmlFor="content">Content</Label>
+        <Textarea
+          id="content"
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          placeholder="Enter chapter content. Separate paragraphs with a blank line; use {i}italic{/i}, {b}bold{/b}, {sc}small caps{/sc}, {center} and * * * for scene breaks"
+          rows={15}
+          className="font-mono text-sm"
+        />
+        <p className="text-sm text-muted-foreground mt-1">
+          Word count: {stripChapterMarkup(content).split(/\s+/).filter(Boolean).length}
+        </p>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div>
+          <Label htmlFor="preview">Preview Chapter</Label>
+          <p className="text-sm text-muted-foreground">Allow non-subscribers to read this chapter</p>
+        </div>
+        <Switch
+          id="preview"
+          checked={isPreview}
+          onCheckedChange={setIsPreview}
+        />
+      </div>
+
+      <div>
+        <Label htmlFor="releaseAt">Release Date</Label>
+        <Input
+          id="releaseAt"
+          type="datetime-local"
+          value={releaseAt}
+          onChange={(e) => setReleaseAt(e.target.value)}
+        />
+        <p className="text-sm text-muted-foreground mt-1">
+          Leave empty to release immediately. Readers can't see the chapter before this date.
+        </p>
+      </div>
+
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={loading}>
+          {loading && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+          {isEditing ? 'Save Changes' : 'Create Chapter'}
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+      <DialogContent className={`${isEditing ? 'max-w-4xl' : 'max-w-2xl'} max-h-[90vh] overflow-y-auto`}>
         <DialogHeader>
           <DialogTitle className="font-serif">
             {isEditing ? 'Edit Chapter' : 'Add New Chapter'}
           </DialogTitle>
         </DialogHeader>
 
-        <form onSubmit={handleSubmit} className="space-y-4">
-          <div>
-            <Label htmlFor="book">Book *</Label>
-            <Select value={bookId} onValueChange={setBookId}>
-              <SelectTrigger>
-                <SelectValue placeholder="Select a book" />
-              </SelectTrigger>
-              <SelectContent>
-                {books?.map((book) => (
-                  <SelectItem key={book.id} value={book.id}>
-                    {book.title}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
-
-          <div className="grid grid-cols-2 gap-4">
-            <div>
-              <Label htmlFor="title">Chapter Title *</Label>
-              <Input
-                id="title"
-                value={title}
-                onChange={(e) => setTitle(e.target.value)}
-                placeholder="Enter chapter title"
-                required
-              />
-            </div>
-            <div>
-              <Label htmlFor="chapterOrder">Chapter Order</Label>
-              <Input
-                id="chapterOrder"
-                type="number"
-                min="1"
-                value={chapterOrder}
-                onChange={(e) => setChapterOrder(e.target.value)}
-              />
-            </div>
-          </div>
-
-          <div>
-            <Label htmlFor="content">Content</Label>
-            <Textarea
-              id="content"
-              value={content}
-              onChange={(e) => setContent(e.target.value)}
-              placeholder="Enter chapter content (supports basic HTML)"
-              rows={15}
-              className="font-mono text-sm"
-            />
-            <p className="text-sm text-muted-foreground mt-1">
-              Word count: {content.split(/\s+/).filter(Boolean).length}
-            </p>
-          </div>
-
-          <div className="flex items-center justify-between">
-            <div>
-              <Label htmlFor="preview">Preview Chapter</Label>
-              <p className="text-sm text-muted-foreground">Allow non-subscribers to read this chapter</p>
-            </div>
-            <Switch
-              id="preview"
-              checked={isPreview}
-              onCheckedChange={setIsPreview}
-            />
-          </div>
-
-          <DialogFooter>
-            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
-              Cancel
-            </Button>
-            <Button type="submit" disabled={loading}>
-              {loading && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
-              {isEditing ? 'Save Changes' : 'Create Chapter'}
-            </Button>
-          </DialogFooter>
-        </form>
+        {isEditing && chapter ? (
+          <Tabs defaultValue="edit" className="w-full">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="edit">Edit</TabsTrigger>
+              <TabsTrigger value="history">History</TabsTrigger>
+            </TabsList>
+            <TabsContent value="edit">{form}</TabsContent>
+            <TabsContent value="history">
+              <ChapterRevisionHistory chapterId={chapter.id} onRestored={handleRevisionRestored} />
+            </TabsContent>
+          </Tabs>
+        ) : (
+          form
+        )}
       </DialogContent>
     </Dialog>
   );
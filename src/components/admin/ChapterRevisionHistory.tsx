@@ -0,0 +1,327 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import type { Database } from '@/integrations/supabase/types';
+import { diffWords, type DiffOp } from '@/lib/wordDiff';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Loader2, RotateCcw } from 'lucide-react';
+
+type Revision = Pick<
+  Database['public']['Tables']['chapter_revisions']['Row'],
+  'id' | 'title' | 'word_count' | 'word_count_delta' | 'created_at' | 'created_by'
+>;
+
+interface ChapterRevisionHistoryProps {
+  chapterId: string;
+  onRestored: (restored: { title: string; content: string | null }) => void;
+}
+
+// Unchanged stretches longer than this are shortened around an ellipsis
+const CONTEXT_CHARS = 200;
+
+function formatRevisionDate(value: string | null): string {
+  return value ? format(new Date(value), 'MMM d, yyyy h:mm a') : '';
+}
+
+function DiffColumn({ ops, side }: { ops: DiffOp[]; side: 'before' | 'after' }) {
+  const hidden = side === 'before' ? 'insert' : 'delete';
+  return (
+    <div className="p-3 bg-muted/30 rounded-lg whitespace-pre-wrap font-mono text-xs leading-relaxed max-h-96 overflow-y-auto">
+      {ops.map((op, i) => {
+        if (op.type === hidden) return null;
+        if (op.type === 'equal') {
+          const isFirst = i === 0;
+          const isLast = i === ops.length - 1;
+          if (op.text.length <= CONTEXT_CHARS * 2) return <span key={i}>{op.text}</span>;
+          return (
+            <span key={i}>
+              {!isFirst && op.text.slice(0, CONTEXT_CHARS)}
+              <span className="text-muted-foreground"> … </span>
+              {!isLast && op.text.slice(-CONTEXT_CHARS)}
+            </span>
+          );
+        }
+        return (
+          <span
+            key={i}
+            className={op.type === 'delete'
+              ? 'bg-destructive/20 text-destructive line-through'
+              : 'bg-green-500/20 text-green-700 dark:text-green-400'}
+          >
+            {op.text}
+          </span>
+        );
+      })}
+    </div>
+  );
+}
+
+export function ChapterRevisionHistory({ chapterId, onRestored }: ChapterRevisionHistoryProps) {
+  const [fromId, setFromId] = useState<string | null>(null);
+  const [toId, setToId] = useState<string | null>(null);
+  const [restoreConfirm, setRestoreConfirm] = useState<Revision | null>(null);
+  const [restoring, setRestoring] = useState(false);
+  const { toast } = useToast();
+
+  const { data: revisions, isLoading, refetch } = useQuery({
+    queryKey: ['chapter-revisions', chapterId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('chapter_revisions')
+        .select('id, title, word_count, word_count_delta, created_at, created_by')
+        .eq('chapter_id', chapterId)
+        .order('created_at', { ascending: false })
+        .limit(50);
+      if (error) throw error;
+      return data as Revision[];
+    },
+  });
+
+  const authorIds = useMemo(
+    () => [...new Set((revisions || []).map(r => r.created_by).filter((id): id is string => !!id))],
+    [revisions]
+  );
+
+  const { data: authors } = useQuery({
+    queryKey: ['revision-authors', authorIds],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('user_id, name, email')
+        .in('user_id', authorIds);
+      if (error) throw error;
+      return new Map(data.map(p => [p.user_id, p.name || p.email]));
+    },
+    enabled: authorIds.length > 0,
+  });
+
+  // Compare the previous revision with the latest by default
+  useEffect(() => {
+    if (!revisions || revisions.length === 0) return;
+    setToId(current => current ?? revisions[0].id);
+    setFromId(current => current ?? (revisions[1] ?? revisions[0]).id);
+  }, [revisions]);
+
+  const { data: compared } = useQuery({
+    queryKey: ['chapter-revision-content', fromId, toId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('chapter_revisions')
+        .select('id, title, content')
+        .in('id', [fromId!, toId!]);
+      if (error) throw error;
+      return new Map(data.map(r => [r.id, r]));
+    },
+    enabled: !!fromId && !!toId,
+  });
+
+  const diff = useMemo(() => {
+    const from = fromId ? compared?.get(fromId) : undefined;
+    const to = toId ? compared?.get(toId) : undefined;
+    if (!from || !to) return null;
+    return {
+      title: from.title === to.title ? null : { before: from.title, after: to.title },
+      ops: diffWords(from.content || '', to.content || ''),
+    };
+  }, [compared, fromId, toId]);
+
+  const handleRestore = async (revision: Revision) => {
+    setRestoring(true);
+    try {
+      // Restored on the server, which moves readers' highlights and bookmarks to
+      // where their passages are in the restored text. The restore itself is
+      // recorded as a new revision
+      const { data, error } = await supabase.functions.invoke<{
+        title: string;
+        content: string | null;
+        orphanedHighlights: number;
+        error?: string;
+      }>('restore-revision', {
+        body: { revisionId: revision.id },
+      });
+      if (error) throw new Error(error.message || 'Failed to restore revision');
+      if (data.error) throw new Error(data.error);
+
+      toast({
+        title: 'Revision restored',
+        description: data.orphanedHighlights > 0
+          ? `${formatRevisionDate(revision.created_at)} · ${data.orphanedHighlights} reader ${data.orphanedHighlights === 1 ? 'highlight no longer matches' : 'highlights no longer match'} the text`
+          : formatRevisionDate(revision.created_at),
+      });
+      setFromId(null);
+      setToId(null);
+      refetch();
+      onRestored({ title: data.title, content: data.content });
+    } catch (error) {
+      toast({ title: 'Failed to restore revision', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!revisions || revisions.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-8 bg-muted/50 rounded">
+        No revisions recorded for this chapter yet.
+      </p>
+    );
+  }
+
+  const revisionLabel = (revision: Revision) =>
+    `${formatRevisionDate(revision.created_at)} · ${revision.word_count?.toLocaleString() || 0} words`;
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2 max-h-48 overflow-y-auto">
+        {revisions.map((revision, index) => (
+          <div key={revision.id} className="flex items-center gap-3 p-3 bg-muted/50 rounded-lg text-sm">
+            <div className="flex-1 min-w-0">
+              <p className="truncate">{formatRevisionDate(revision.created_at)}</p>
+              <p className="text-xs text-muted-foreground truncate">
+                {(revision.created_by && authors?.get(revision.created_by)) || 'System'}
+                {index === 0 && ' · current'}
+              </p>
+            </div>
+            <span className="text-xs text-muted-foreground">
+              {revision.word_count?.toLocaleString() || 0} words
+            </span>
+            <span
+              className={`text-xs w-14 text-right ${
+                revision.word_count_delta > 0
+                  ? 'text-green-600 dark:text-green-400'
+                  : revision.word_count_delta < 0
+                    ? 'text-destructive'
+                    : 'text-muted-foreground'
+              }`}
+            >
+              {revision.word_count_delta > 0 ? '+' : ''}{revision.word_count_delta}
+            </span>
+            {index > 0 ? (
+              <button
+                type="button"
+                onClick={() => setRestoreConfirm(revision)}
+                disabled={restoring}
+                className="p-1 text-muted-foreground hover:text-foreground transition-colors disabled:opacity-30"
+                title="Restore this revision"
+              >
+                <RotateCcw className="w-4 h-4" />
+              </button>
+            ) : (
+              <span className="w-6" />
+            )}
+          </div>
+        ))}
+      </div>
+
+      {revisions.length > 1 && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>Compare</Label>
+              <Select value={fromId ?? undefined} onValueChange={setFromId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a revision" />
+                </SelectTrigger>
+                <SelectContent>
+                  {revisions.map((revision) => (
+                    <SelectItem key={revision.id} value={revision.id}>
+                      {revisionLabel(revision)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>With</Label>
+              <Select value={toId ?? undefined} onValueChange={setToId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a revision" />
+                </SelectTrigger>
+                <SelectContent>
+                  {revisions.map((revision) => (
+                    <SelectItem key={revision.id} value={revision.id}>
+                      {revisionLabel(revision)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {diff ? (
+            <>
+              {diff.title && (
+                <p className="text-sm">
+                  Title: <span className="bg-destructive/20 text-destructive line-through">{diff.title.before}</span>{' '}
+                  → <span className="bg-green-500/20 text-green-700 dark:text-green-400">{diff.title.after}</span>
+                </p>
+              )}
+              {diff.ops.every(op => op.type === 'equal') ? (
+                <p className="text-sm text-muted-foreground text-center py-4 bg-muted/50 rounded">
+                  The content of these revisions is identical.
+                </p>
+              ) : (
+                <div className="grid grid-cols-2 gap-4">
+                  <DiffColumn ops={diff.ops} side="before" />
+                  <DiffColumn ops={diff.ops} side="after" />
+                </div>
+              )}
+            </>
+          ) : (
+            <div className="flex justify-center py-4">
+              <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Restore Confirmation */}
+      <AlertDialog open={!!restoreConfirm} onOpenChange={(open) => !open && setRestoreConfirm(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore this revision?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The chapter will go back to its title and content from {formatRevisionDate(restoreConfirm?.created_at ?? null)}.
+              The current version stays in the history, so this can be undone. Readers' highlights and
+              bookmarks move with their passages; highlights on text the revision doesn't have are hidden.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (restoreConfirm) {
+                  handleRestore(restoreConfirm);
+                  setRestoreConfirm(null);
+                }
+              }}
+            >
+              Restore
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import type { Database } from '@/integrations/supabase/types';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { History, Loader2, Undo2 } from 'lucide-react';
+
+type ImportRun = Pick<
+  Database['public']['Tables']['import_runs']['Row'],
+  'id' | 'mode' | 'status' | 'source_path' | 'chapters_before' | 'chapters_after' | 'chapters_matched' | 'created_at' | 'rolled_back_at'
+>;
+
+interface ImportHistoryProps {
+  bookId: string;
+  onRolledBack: () => void;
+}
+
+export function ImportHistory({ bookId, onRolledBack }: ImportHistoryProps) {
+  const [rollbackConfirm, setRollbackConfirm] = useState<ImportRun | null>(null);
+  const [rollingBack, setRollingBack] = useState(false);
+  const { toast } = useToast();
+
+  // The snapshot column can be large, so only the summary fields are fetched
+  const { data: runs, refetch } = useQuery({
+    queryKey: ['import-runs', bookId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('import_runs')
+        .select('id, mode, status, source_path, chapters_before, chapters_after, chapters_matched, created_at, rolled_back_at')
+        .eq('book_id', bookId)
+        .order('created_at', { ascending: false })
+        .limit(10);
+      if (error) throw error;
+      return data as ImportRun[];
+    },
+  });
+
+  const latestCompletedId = runs?.find(run => run.status === 'completed')?.id;
+
+  const handleRollback = async (run: ImportRun) => {
+    setRollingBack(true);
+    try {
+      const { error } = await supabase.rpc('rollback_import_run', { _run_id: run.id });
+      if (error) throw error;
+
+      toast({ title: 'Import rolled back', description: `Restored ${run.chapters_before} chapters` });
+      refetch();
+      onRolledBack();
+    } catch (error) {
+      toast({ title: 'Failed to roll back import', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setRollingBack(false);
+    }
+  };
+
+  if (!runs || runs.length === 0) return null;
+
+  return (
+    <div>
+      <h4 className="font-serif text-lg mb-3 flex items-center gap-2">
+        <History className="w-4 h-4" />
+        Import History
+      </h4>
+      <div className="space-y-2 max-h-48 overflow-y-auto">
+        {runs.map((run) => (
+          <div key={run.id} className="flex items-center gap-3 p-3 bg-muted/50 rounded-lg text-sm">
+            <div className="flex-1 min-w-0">
+              <p className="truncate">
+                {run.mode === 'replace' ? 'Replaced' : 'Added to'} {run.chapters_before} → {run.chapters_after} chapters
+                {run.chapters_matched > 0 && (
+                  <span className="text-muted-foreground"> ({run.chapters_matched} updated in place)</span>
+                )}
+              </p>
+              <p className="text-xs text-muted-foreground truncate">
+                {run.created_at && formatDistanceToNow(new Date(run.created_at), { addSuffix: true })}
+                {run.source_path && ` · ${run.source_path.split('/').pop()}`}
+              </p>
+            </div>
+            {run.status === 'rolled_back' ? (
+              <span className="text-xs text-muted-foreground">Rolled back</span>
+            ) : run.id === latestCompletedId ? (
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={() => setRollbackConfirm(run)}
+                disabled={rollingBack}
+              >
+                {rollingBack ? (
+                  <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                ) : (
+                  <Undo2 className="w-4 h-4 mr-2" />
+                )}
+                Roll back
+              </Button>
+            ) : null}
+          </div>
+        ))}
+      </div>
+
+      {/* Rollback Confirmation */}
+      <AlertDialog open={!!rollbackConfirm} onOpenChange={(open) => !open && setRollbackConfirm(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Roll back this import?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The book's {rollbackConfirm?.chapters_after} current chapters will be replaced by the{' '}
+              {rollbackConfirm?.chapters_before} chapters it had before this import, along with readers'
+              bookmarks, highlights and progress on them. Changes made since the import will be lost.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (rollbackConfirm) {
+                  handleRollback(rollbackConfirm);
+                  setRollbackConfirm(null);
+                }
+              }}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Roll back
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
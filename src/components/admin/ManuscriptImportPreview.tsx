@@ -0,0 +1,247 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { stripChapterMarkup } from '@/lib/chapterMarkup';
+import { AlertTriangle, ArrowDown, ArrowUp, ChevronDown, ChevronRight, FileText, Loader2, Merge, Scissors, Trash2 } from 'lucide-react';
+
+export interface ImportChapterDraft {
+  key: string;
+  title: string;
+  content: string;
+  // Title of the existing chapter this one will update in place when replacing
+  matchedTitle?: string | null;
+}
+
+interface ManuscriptImportPreviewProps {
+  chapters: ImportChapterDraft[];
+  warnings: string[];
+  onChange: (chapters: ImportChapterDraft[]) => void;
+  onCommit: (mode: 'add' | 'replace') => void;
+  onCancel: () => void;
+  committing: boolean;
+}
+
+function splitParagraphs(content: string): string[] {
+  return content.split(/\n\s*\n/).filter(p => p.trim());
+}
+
+function wordCount(content: string): number {
+  return stripChapterMarkup(content).split(/\s+/).filter(Boolean).length;
+}
+
+function firstLine(content: string, length = 120): string {
+  const line = stripChapterMarkup(content).split('\n').find(l => l.trim()) ?? '';
+  return line.trim().substring(0, length);
+}
+
+export function ManuscriptImportPreview({
+  chapters,
+  warnings,
+  onChange,
+  onCommit,
+  onCancel,
+  committing,
+}: ManuscriptImportPreviewProps) {
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+  const hasEmptyTitle = chapters.some(ch => !ch.title.trim());
+  const hasMatches = chapters.some(ch => ch.matchedTitle);
+
+  const update = (index: number, changes: Partial<ImportChapterDraft>) => {
+    onChange(chapters.map((ch, i) => (i === index ? { ...ch, ...changes } : ch)));
+  };
+
+  const move = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= chapters.length) return;
+    const next = [...chapters];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const mergeWithNext = (index: number) => {
+    const current = chapters[index];
+    const following = chapters[index + 1];
+    if (!following) return;
+    const merged = { ...current, content: `${current.content.trim()}\n\n${following.content.trim()}` };
+    onChange([...chapters.slice(0, index), merged, ...chapters.slice(index + 2)]);
+  };
+
+  const splitAt = (index: number, paragraphIndex: number) => {
+    const chapter = chapters[index];
+    const paragraphs = splitParagraphs(chapter.content);
+    const first = { ...chapter, content: paragraphs.slice(0, paragraphIndex).join('\n\n') };
+    const second: ImportChapterDraft = {
+      key: crypto.randomUUID(),
+      title: `${chapter.title} (continued)`,
+      content: paragraphs.slice(paragraphIndex).join('\n\n'),
+    };
+    onChange([...chapters.slice(0, index), first, second, ...chapters.slice(index + 1)]);
+    setExpandedKey(null);
+  };
+
+  const remove = (index: number) => {
+    onChange(chapters.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="p-4 border rounded-lg bg-muted/20 space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="font-serif text-lg">Import Preview</h4>
+        <span className="text-sm text-muted-foreground">
+          {chapters.length} chapters · {chapters.reduce((sum, ch) => sum + wordCount(ch.content), 0).toLocaleString()} words
+        </span>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Nothing has been saved yet. Rename, reorder, merge or split chapters, then choose how to import them.
+      </p>
+      {hasMatches && (
+        <p className="text-xs text-muted-foreground">
+          With Replace All, chapters matched to an existing one are updated in place, keeping readers' bookmarks, highlights and progress.
+        </p>
+      )}
+
+      {warnings.length > 0 && (
+        <Alert className="border-amber-500/50">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>{warnings.length} fragment{warnings.length === 1 ? '' : 's'} dropped</AlertTitle>
+          <AlertDescription>
+            <ul className="text-xs text-muted-foreground space-y-1 mt-1 max-h-24 overflow-y-auto">
+              {warnings.map((warning, i) => (
+                <li key={i}>{warning}</li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="space-y-2 max-h-96 overflow-y-auto">
+        {chapters.map((chapter, index) => {
+          const isExpanded = expandedKey === chapter.key;
+          const paragraphs = isExpanded ? splitParagraphs(chapter.content) : [];
+
+          return (
+            <div key={chapter.key} className="p-3 bg-muted/50 rounded-lg space-y-2">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium w-6 text-muted-foreground">{index + 1}</span>
+                <Input
+                  value={chapter.title}
+                  onChange={(e) => update(index, { title: e.target.value })}
+                  className="h-8 flex-1"
+                  aria-label={`Title of chapter ${index + 1}`}
+                />
+                <span className="text-xs text-muted-foreground w-20 text-right">
+                  {wordCount(chapter.content).toLocaleString()} words
+                </span>
+                <button
+                  type="button"
+                  onClick={() => move(index, -1)}
+                  disabled={index === 0}
+                  className="p-1 text-muted-foreground hover:text-foreground disabled:opacity-30"
+                  title="Move up"
+                >
+                  <ArrowUp className="w-4 h-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => move(index, 1)}
+                  disabled={index === chapters.length - 1}
+                  className="p-1 text-muted-foreground hover:text-foreground disabled:opacity-30"
+                  title="Move down"
+                >
+                  <ArrowDown className="w-4 h-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => mergeWithNext(index)}
+                  disabled={index === chapters.length - 1}
+                  className="p-1 text-muted-foreground hover:text-foreground disabled:opacity-30"
+                  title="Merge with next chapter"
+                >
+                  <Merge className="w-4 h-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setExpandedKey(isExpanded ? null : chapter.key)}
+                  className={`p-1 transition-colors ${isExpanded ? 'text-primary' : 'text-muted-foreground hover:text-foreground'}`}
+                  title="Split chapter"
+                >
+                  <Scissors className="w-4 h-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => remove(index)}
+                  className="p-1 text-muted-foreground hover:text-destructive"
+                  title="Leave out of import"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+
+              <button
+                type="button"
+                onClick={() => setExpandedKey(isExpanded ? null : chapter.key)}
+                className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground text-left w-full"
+              >
+                {isExpanded ? <ChevronDown className="w-3 h-3 flex-shrink-0" /> : <ChevronRight className="w-3 h-3 flex-shrink-0" />}
+                <span className="truncate italic flex-1">{firstLine(chapter.content) || 'Empty chapter'}</span>
+                {hasMatches && (
+                  <span className={`flex-shrink-0 not-italic ${chapter.matchedTitle ? 'text-primary' : ''}`}>
+                    {chapter.matchedTitle ? `Updates "${chapter.matchedTitle}"` : 'New'}
+                  </span>
+                )}
+              </button>
+
+              {isExpanded && (
+                <div className="pl-6 space-y-1 max-h-48 overflow-y-auto border-l border-border">
+                  {paragraphs.map((paragraph, pIndex) => (
+                    <div key={pIndex} className="flex items-center gap-2 text-xs">
+                      {pIndex > 0 ? (
+                        <button
+                          type="button"
+                          onClick={() => splitAt(index, pIndex)}
+                          className="px-2 py-0.5 rounded bg-muted hover:bg-primary/20 hover:text-primary flex-shrink-0"
+                        >
+                          Split here
+                        </button>
+                      ) : (
+                        <span className="px-2 py-0.5 flex-shrink-0 invisible">Split here</span>
+                      )}
+                      <span className="truncate text-muted-foreground">{firstLine(paragraph, 100)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap gap-3">
+        <Button
+          type="button"
+          onClick={() => onCommit('add')}
+          disabled={committing || chapters.length === 0 || hasEmptyTitle}
+        >
+          {committing ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <FileText className="w-4 h-4 mr-2" />}
+          Add Chapters
+        </Button>
+        <Button
+          type="button"
+          variant="destructive"
+          onClick={() => onCommit('replace')}
+          disabled={committing || chapters.length === 0 || hasEmptyTitle}
+        >
+          {committing ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <FileText className="w-4 h-4 mr-2" />}
+          Replace All
+        </Button>
+        <Button type="button" variant="outline" onClick={onCancel} disabled={committing}>
+          Discard
+        </Button>
+      </div>
+      {hasEmptyTitle && (
+        <p className="text-xs text-destructive">Every chapter needs a title.</p>
+      )}
+    </div>
+  );
+}
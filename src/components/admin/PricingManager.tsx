@@ -9,6 +9,7 @@ import {
   formatPrice,
   StripePrice,
 } from '@/hooks/usePricing';
+import { useAdminSeries } from '@/hooks/useSeries';
 import {
   Dialog,
   DialogContent,
@@ -474,7 +475,8 @@ function CreatePriceModal({
     amount_cents: number;
     price_type: 'subscription' | 'one_time';
     billing_interval?: 'month' | 'year';
-    tier?: 'reader' | 'inner_circle' | 'book';
+    tier?: 'reader' | 'inner_circle' | 'book' | 'series';
+    series_id?: string;
     features?: string[];
   }) => Promise<void>;
   isLoading: boolean;
@@ -485,8 +487,10 @@ function CreatePriceModal({
   const [amountDollars, setAmountDollars] = useState('');
   const [priceType, setPriceType] = useState<'subscription' | 'one_time'>('subscription');
   const [billingInterval, setBillingInterval] = useState<'month' | 'year'>('month');
-  const [tier, setTier] = useState<'reader' | 'inner_circle' | 'book' | ''>('');
+  const [tier, setTier] = useState<'reader' | 'inner_circle' | 'book' | 'series' | ''>('');
+  const [seriesId, setSeriesId] = useState('');
   const [featuresText, setFeaturesText] = useState('');
+  const { data: seriesList } = useAdminSeries();
 
   const resetForm = () => {
     setPriceKey('');
@@ -496,6 +500,7 @@ function CreatePriceModal({
     setPriceType('subscription');
     setBillingInterval('month');
     setTier('');
+    setSeriesId('');
     setFeaturesText('');
   };
 
@@ -513,6 +518,7 @@ function CreatePriceModal({
       price_type: priceType,
       billing_interval: priceType === 'subscription' ? billingInterval : undefined,
       tier: tier || undefined,
+      series_id: tier === 'series' ? seriesId : undefined,
       features: features.length > 0 ? features : undefined,
     });
 
@@ -619,11 +625,33 @@ function CreatePriceModal({
                   <SelectItem value="reader">Reader</SelectItem>
                   <SelectItem value="inner_circle">Inner Circle</SelectItem>
                   <SelectItem value="book">Book</SelectItem>
+                  <SelectItem value="series">Series Bundle</SelectItem>
                 </SelectContent>
               </Select>
             </div>
           </div>
 
+          {tier === 'series' && (
+            <div>
+              <Label htmlFor="series">Series *</Label>
+              <Select value={seriesId} onValueChange={setSeriesId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select series..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {seriesList?.map((series) => (
+                    <SelectItem key={series.id} value={series.id}>
+                      {series.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground mt-1">
+                Buying the bundle unlocks every book in the series. Use a One-Time price type.
+              </p>
+            </div>
+          )}
+
           <div>
             <Label htmlFor="features">Features (one per line)</Label>
             <Textarea
@@ -639,7 +667,7 @@ function CreatePriceModal({
             <Button type="button" variant="outline" onClick={() => { resetForm(); onOpenChange(false); }}>
               Cancel
             </Button>
-            <Button type="submit" disabled={isLoading}>
+            <Button type="submit" disabled={isLoading || (tier === 'series' && (!seriesId || priceType !== 'one_time'))}>
               {isLoading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
               Create Price
             </Button>
@@ -0,0 +1,233 @@
+import { useMemo, useState } from 'react';
+import {
+  addDays,
+  addMonths,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isSameMonth,
+  isToday,
+  startOfMonth,
+  startOfWeek,
+  subMonths,
+} from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { fromDateTimeInputValue, getEarlyAccessDate } from '@/lib/chapterRelease';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CalendarDays, ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+
+interface ScheduledChapter {
+  id: string;
+  title: string;
+  chapter_order: number;
+  release_at: string | null;
+}
+
+interface ReleaseCalendarProps {
+  chapters: ScheduledChapter[];
+  earlyAccessDays: number;
+  onScheduled: () => void;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export function ReleaseCalendar({ chapters, earlyAccessDays, onScheduled }: ReleaseCalendarProps) {
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+  const [selectedDay, setSelectedDay] = useState<Date | null>(null);
+  const [fromChapterId, setFromChapterId] = useState<string | null>(null);
+  const [firstRelease, setFirstRelease] = useState('');
+  const [intervalDays, setIntervalDays] = useState('7');
+  const [scheduling, setScheduling] = useState(false);
+  const { toast } = useToast();
+
+  const days = useMemo(
+    () => eachDayOfInterval({ start: startOfWeek(startOfMonth(month)), end: endOfWeek(endOfMonth(month)) }),
+    [month]
+  );
+
+  const scheduled = useMemo(
+    () => chapters.filter((ch): ch is ScheduledChapter & { release_at: string } => !!ch.release_at),
+    [chapters]
+  );
+  const upcomingCount = scheduled.filter(ch => new Date(ch.release_at) > new Date()).length;
+
+  const releasesOn = (day: Date) => scheduled.filter(ch => isSameDay(new Date(ch.release_at), day));
+  const earlyAccessOn = (day: Date) =>
+    scheduled.filter(ch => {
+      const earlyAccess = getEarlyAccessDate(ch.release_at, earlyAccessDays);
+      return !!earlyAccess && isSameDay(earlyAccess, day);
+    });
+
+  const selectedReleases = selectedDay ? releasesOn(selectedDay) : [];
+  const selectedEarlyAccess = selectedDay ? earlyAccessOn(selectedDay) : [];
+
+  // Spaces releases evenly from the chosen chapter to the end of the book
+  const handleScheduleSeries = async () => {
+    const start = fromDateTimeInputValue(firstRelease);
+    const fromChapter = chapters.find(ch => ch.id === fromChapterId);
+    const interval = parseInt(intervalDays);
+    if (!start || !fromChapter || !(interval > 0)) {
+      toast({ title: 'Choose a chapter, a first release date and an interval', variant: 'destructive' });
+      return;
+    }
+
+    setScheduling(true);
+    try {
+      const toSchedule = chapters.filter(ch => ch.chapter_order >= fromChapter.chapter_order);
+      for (const [index, chapter] of toSchedule.entries()) {
+        const { error } = await supabase
+          .from('chapters')
+          .update({ release_at: addDays(new Date(start), index * interval).toISOString() })
+          .eq('id', chapter.id);
+        if (error) throw error;
+      }
+
+      toast({ title: 'Releases scheduled', description: `${toSchedule.length} chapters, one every ${interval} days` });
+      setMonth(startOfMonth(new Date(start)));
+      onScheduled();
+    } catch (error) {
+      toast({ title: 'Failed to schedule releases', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setScheduling(false);
+    }
+  };
+
+  return (
+    <div className="p-4 border rounded-lg bg-muted/20 space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="font-serif text-lg flex items-center gap-2">
+          <CalendarDays className="w-4 h-4" />
+          Release Schedule
+        </h4>
+        <span className="text-sm text-muted-foreground">
+          {upcomingCount} upcoming
+        </span>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <button
+          type="button"
+          onClick={() => setMonth(subMonths(month, 1))}
+          className="p-1 text-muted-foreground hover:text-foreground"
+          aria-label="Previous month"
+        >
+          <ChevronLeft className="w-4 h-4" />
+        </button>
+        <span className="text-sm font-medium">{format(month, 'MMMM yyyy')}</span>
+        <button
+          type="button"
+          onClick={() => setMonth(addMonths(month, 1))}
+          className="p-1 text-muted-foreground hover:text-foreground"
+          aria-label="Next month"
+        >
+          <ChevronRight className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1 text-center">
+        {WEEKDAYS.map((weekday) => (
+          <span key={weekday} className="text-xs text-muted-foreground py-1">{weekday}</span>
+        ))}
+        {days.map((day) => {
+          const releases = releasesOn(day);
+          const hasEarlyAccess = earlyAccessOn(day).length > 0;
+          const isSelected = !!selectedDay && isSameDay(day, selectedDay);
+          return (
+            <button
+              key={day.toISOString()}
+              type="button"
+              onClick={() => setSelectedDay(isSelected ? null : day)}
+              className={`min-h-12 p-1 rounded text-xs flex flex-col items-center gap-0.5 transition-colors ${
+                isSelected ? 'bg-primary/20' : 'hover:bg-muted'
+              } ${isSameMonth(day, month) ? '' : 'opacity-40'}`}
+            >
+              <span className={isToday(day) ? 'font-bold text-primary' : ''}>{format(day, 'd')}</span>
+              {releases.length > 0 && (
+                <span className="px-1 rounded bg-primary text-primary-foreground">
+                  {releases.map(ch => ch.chapter_order).join(', ')}
+                </span>
+              )}
+              {hasEarlyAccess && <span className="w-1.5 h-1.5 rounded-full bg-amber-500" />}
+            </button>
+          );
+        })}
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Numbers are chapters released that day.
+        {earlyAccessDays > 0 && ' Amber dots mark when Inner Circle early access opens.'}
+      </p>
+
+      {selectedDay && (
+        <div className="space-y-1 text-sm">
+          <p className="font-medium">{format(selectedDay, 'EEEE, MMMM d')}</p>
+          {selectedReleases.length === 0 && selectedEarlyAccess.length === 0 && (
+            <p className="text-muted-foreground">Nothing scheduled.</p>
+          )}
+          {selectedReleases.map((chapter) => (
+            <p key={chapter.id} className="truncate">
+              {format(new Date(chapter.release_at), 'h:mm a')} · {chapter.chapter_order}. {chapter.title}
+            </p>
+          ))}
+          {selectedEarlyAccess.map((chapter) => (
+            <p key={chapter.id} className="truncate text-amber-600 dark:text-amber-400">
+              Inner Circle early access · {chapter.chapter_order}. {chapter.title}
+            </p>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-3 pt-2 border-t">
+        <p className="text-sm text-muted-foreground">
+          Release the rest of the book on a regular schedule. Individual dates can be changed by editing a chapter.
+        </p>
+        <div className="grid grid-cols-3 gap-3">
+          <div>
+            <Label>From chapter</Label>
+            <Select value={fromChapterId ?? undefined} onValueChange={setFromChapterId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select" />
+              </SelectTrigger>
+              <SelectContent>
+                {chapters.map((chapter) => (
+                  <SelectItem key={chapter.id} value={chapter.id}>
+                    {chapter.chapter_order}. {chapter.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="firstRelease">First release</Label>
+            <Input
+              id="firstRelease"
+              type="datetime-local"
+              value={firstRelease}
+              onChange={(e) => setFirstRelease(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="intervalDays">Every (days)</Label>
+            <Input
+              id="intervalDays"
+              type="number"
+              min="1"
+              value={intervalDays}
+              onChange={(e) => setIntervalDays(e.target.value)}
+            />
+          </div>
+        </div>
+        <Button type="button" variant="outline" onClick={handleScheduleSeries} disabled={scheduling}>
+          {scheduling ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <CalendarDays className="w-4 h-4 mr-2" />}
+          Schedule Releases
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,294 @@
+import { useState, useRef, useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useAdminBooks } from '@/hooks/useAdminData';
+import type { Series } from '@/hooks/useSeries';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowDown, ArrowUp, Loader2, Trash2, Upload } from 'lucide-react';
+
+interface SeriesEditModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  series?: Series | null;
+}
+
+export function SeriesEditModal({ open, onOpenChange, series }: SeriesEditModalProps) {
+  const isEditing = !!series;
+  const [loading, setLoading] = useState(false);
+  const [coverUploading, setCoverUploading] = useState(false);
+  const [title, setTitle] = useState(series?.title || '');
+  const [description, setDescription] = useState(series?.description || '');
+  const [coverUrl, setCoverUrl] = useState(series?.cover_url || '');
+  const [isPublished, setIsPublished] = useState(series?.is_published || false);
+  const [bookIds, setBookIds] = useState<string[]>(series?.bookIds || []);
+  const coverInputRef = useRef<HTMLInputElement>(null);
+  const { data: books } = useAdminBooks();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Reset form when modal opens
+  useEffect(() => {
+    if (open) {
+      setTitle(series?.title || '');
+      setDescription(series?.description || '');
+      setCoverUrl(series?.cover_url || '');
+      setIsPublished(series?.is_published || false);
+      setBookIds(series?.bookIds || []);
+    }
+  }, [open, series]);
+
+  const bookTitle = (id: string) => books?.find(b => b.id === id)?.title ?? 'Unknown book';
+  const availableBooks = (books || []).filter(b => !bookIds.includes(b.id));
+
+  const move = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= bookIds.length) return;
+    const next = [...bookIds];
+    [next[index], next[target]] = [next[target], next[index]];
+    setBookIds(next);
+  };
+
+  const handleCoverUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setCoverUploading(true);
+    try {
+      const fileExt = file.name.split('.').pop();
+      const filePath = `series/${Date.now()}.${fileExt}`;
+
+      const { error: uploadError } = await supabase.storage
+        .from('book-covers')
+        .upload(filePath, file);
+
+      if (uploadError) throw uploadError;
+
+      const { data } = supabase.storage
+        .from('book-covers')
+        .getPublicUrl(filePath);
+
+      setCoverUrl(data.publicUrl);
+      toast({ title: 'Cover uploaded successfully' });
+    } catch (error) {
+      toast({ title: 'Failed to upload cover', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setCoverUploading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim()) {
+      toast({ title: 'Title is required', variant: 'destructive' });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const seriesData = {
+        title: title.trim(),
+        description: description.trim() || null,
+        cover_url: coverUrl || null,
+        is_published: isPublished,
+        updated_at: new Date().toISOString(),
+      };
+
+      let seriesId = series?.id;
+      if (isEditing && seriesId) {
+        const { error } = await supabase
+          .from('series')
+          .update(seriesData)
+          .eq('id', seriesId);
+        if (error) throw error;
+      } else {
+        const { data, error } = await supabase
+          .from('series')
+          .insert(seriesData)
+          .select('id')
+          .single();
+        if (error) throw error;
+        seriesId = data.id;
+      }
+
+      // Replace the membership with the current order
+      const { error: deleteError } = await supabase
+        .from('series_books')
+        .delete()
+        .eq('series_id', seriesId);
+      if (deleteError) throw deleteError;
+
+      if (bookIds.length > 0) {
+        const { error: insertError } = await supabase
+          .from('series_books')
+          .insert(bookIds.map((bookId, index) => ({ series_id: seriesId, book_id: bookId, position: index + 1 })));
+        if (insertError) throw insertError;
+      }
+
+      toast({ title: isEditing ? 'Series updated successfully' : 'Series created successfully' });
+      queryClient.invalidateQueries({ queryKey: ['admin-series'] });
+      queryClient.invalidateQueries({ queryKey: ['series'] });
+      queryClient.invalidateQueries({ queryKey: ['next-in-series'] });
+      onOpenChange(false);
+    } catch (error) {
+      toast({ title: 'Failed to save series', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-serif">
+            {isEditing ? 'Edit Series' : 'Add New Series'}
+          </DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="seriesTitle">Title *</Label>
+            <Input
+              id="seriesTitle"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="Enter series title"
+              required
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="seriesDescription">Description</Label>
+            <Textarea
+              id="seriesDescription"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Enter series description"
+              rows={3}
+            />
+          </div>
+
+          <div>
+            <Label>Cover Image</Label>
+            <div className="flex items-center gap-4 mt-2">
+              {coverUrl && (
+                <img
+                  src={coverUrl}
+                  alt="Cover preview"
+                  className="w-16 h-20 object-cover rounded border"
+                />
+              )}
+              <input
+                ref={coverInputRef}
+                type="file"
+                accept="image/*"
+                onChange={handleCoverUpload}
+                className="hidden"
+              />
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => coverInputRef.current?.click()}
+                disabled={coverUploading}
+              >
+                {coverUploading ? (
+                  <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                ) : (
+                  <Upload className="w-4 h-4 mr-2" />
+                )}
+                Upload Cover
+              </Button>
+            </div>
+          </div>
+
+          <div>
+            <Label>Books in Reading Order</Label>
+            <div className="space-y-2 mt-2">
+              {bookIds.map((bookId, index) => (
+                <div key={bookId} className="flex items-center gap-3 p-3 bg-muted/50 rounded-lg">
+                  <span className="text-sm font-medium w-6 text-muted-foreground">{index + 1}</span>
+                  <span className="flex-1 text-sm truncate">{bookTitle(bookId)}</span>
+                  <button
+                    type="button"
+                    onClick={() => move(index, -1)}
+                    disabled={index === 0}
+                    className="p-1 text-muted-foreground hover:text-foreground disabled:opacity-30"
+                    title="Move up"
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => move(index, 1)}
+                    disabled={index === bookIds.length - 1}
+                    className="p-1 text-muted-foreground hover:text-foreground disabled:opacity-30"
+                    title="Move down"
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setBookIds(bookIds.filter(id => id !== bookId))}
+                    className="p-1 text-muted-foreground hover:text-destructive"
+                    title="Remove from series"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              {availableBooks.length > 0 && (
+                <Select value="" onValueChange={(id) => setBookIds([...bookIds, id])}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Add a book..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {availableBooks.map((book) => (
+                      <SelectItem key={book.id} value={book.id}>
+                        {book.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="seriesPublished">Published</Label>
+              <p className="text-sm text-muted-foreground">Show this series on readers' dashboards</p>
+            </div>
+            <Switch
+              id="seriesPublished"
+              checked={isPublished}
+              onCheckedChange={setIsPublished}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+              {isEditing ? 'Save Changes' : 'Create Series'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,153 @@
+import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useAdminSeries, type Series } from '@/hooks/useSeries';
+import { formatPrice } from '@/hooks/usePricing';
+import { SeriesEditModal } from './SeriesEditModal';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Edit, Layers, Loader2, Plus, Trash2 } from 'lucide-react';
+
+export function SeriesManager() {
+  const { data: seriesList, isLoading } = useAdminSeries();
+  const [editingSeries, setEditingSeries] = useState<Series | null>(null);
+  const [showEditModal, setShowEditModal] = useState(false);
+  const [deleteConfirm, setDeleteConfirm] = useState<Series | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const handleEdit = (series: Series | null) => {
+    setEditingSeries(series);
+    setShowEditModal(true);
+  };
+
+  const handleDelete = async (series: Series) => {
+    const { error } = await supabase
+      .from('series')
+      .delete()
+      .eq('id', series.id);
+
+    if (error) {
+      toast({ title: 'Failed to delete series', description: error.message, variant: 'destructive' });
+    } else {
+      toast({ title: 'Series deleted' });
+      queryClient.invalidateQueries({ queryKey: ['admin-series'] });
+      queryClient.invalidateQueries({ queryKey: ['series'] });
+      queryClient.invalidateQueries({ queryKey: ['next-in-series'] });
+    }
+  };
+
+  return (
+    <div className="mt-8">
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4 mb-4">
+        <h3 className="font-serif text-lg flex items-center gap-2">
+          <Layers className="w-5 h-5" />
+          Series
+        </h3>
+        <Button variant="outline" onClick={() => handleEdit(null)} className="w-full sm:w-auto">
+          <Plus className="w-5 h-5 mr-2" /> Add Series
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : seriesList && seriesList.length > 0 ? (
+        <div className="space-y-4">
+          {seriesList.map((series) => (
+            <div key={series.id} className="admin-card">
+              <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+                <div className="min-w-0 flex-1">
+                  <h4 className="font-serif truncate">{series.title}</h4>
+                  <p className="text-sm text-muted-foreground">
+                    {series.bookIds.length} {series.bookIds.length === 1 ? 'book' : 'books'}
+                    {series.bundlePrice
+                      ? ` · bundle ${formatPrice(series.bundlePrice.amount_cents)}`
+                      : ' · no bundle price'}
+                  </p>
+                </div>
+                <div className="flex items-center justify-between sm:justify-end gap-2 sm:gap-4">
+                  <span className={`px-3 py-1 rounded text-sm ${
+                    series.is_published
+                      ? 'bg-green-500/20 text-green-400'
+                      : 'bg-muted text-muted-foreground'
+                  }`}>
+                    {series.is_published ? 'published' : 'draft'}
+                  </span>
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => handleEdit(series)}
+                      className="p-2 hover:bg-muted rounded transition-colors"
+                      title="Edit series"
+                    >
+                      <Edit className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => setDeleteConfirm(series)}
+                      className="p-2 hover:bg-muted rounded transition-colors text-destructive"
+                      title="Delete series"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground text-center py-6 bg-muted/50 rounded">
+          No series yet. Group books into a series to give readers a reading order and a bundle price.
+        </p>
+      )}
+
+      <p className="text-xs text-muted-foreground mt-3">
+        Tip: Bundle prices are created under Pricing with the Series tier.
+      </p>
+
+      <SeriesEditModal
+        open={showEditModal}
+        onOpenChange={setShowEditModal}
+        series={editingSeries}
+      />
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={!!deleteConfirm} onOpenChange={(open) => !open && setDeleteConfirm(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Series</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete "{deleteConfirm?.title}"? Its books are kept, but the
+              series and its bundle price are removed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (deleteConfirm) {
+                  handleDelete(deleteConfirm);
+                  setDeleteConfirm(null);
+                }
+              }}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
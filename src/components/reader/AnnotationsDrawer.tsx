@@ -0,0 +1,157 @@
+import { format } from 'date-fns';
+import { Bookmark, Highlighter, Trash2 } from 'lucide-react';
+import type { BookHighlight } from '@/hooks/useHighlights';
+import type { BookBookmark } from '@/hooks/useBookmarks';
+import { excerptAt } from '@/lib/chapterMarkup';
+import { getSwatchClasses } from '@/lib/highlights';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { ScrollArea } from '@/components/ui/scroll-area';
+
+interface AnnotationsDrawerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  theme: 'dark' | 'light' | 'sepia';
+  highlights: BookHighlight[];
+  bookmarks: BookBookmark[];
+  chapters: Array<{ id: string; title: string; content: string | null }>;
+  onSelect: (highlight: BookHighlight) => void;
+  onDelete: (highlight: BookHighlight) => void;
+  onOpenBookmark: (bookmark: BookBookmark) => void;
+  onDeleteBookmark: (bookmark: BookBookmark) => void;
+}
+
+export function AnnotationsDrawer({
+  open,
+  onOpenChange,
+  theme,
+  highlights,
+  bookmarks,
+  chapters,
+  onSelect,
+  onDelete,
+  onOpenBookmark,
+  onDeleteBookmark,
+}: AnnotationsDrawerProps) {
+  const getContainerClasses = () => {
+    switch (theme) {
+      case 'light':
+        return 'bg-amber-50 border-amber-200 text-amber-900';
+      case 'sepia':
+        return 'bg-amber-100 border-amber-300 text-amber-900';
+      default:
+        return 'bg-card border-border text-foreground';
+    }
+  };
+
+  const getMutedClasses = () => {
+    switch (theme) {
+      case 'light':
+      case 'sepia':
+        return 'text-amber-700';
+      default:
+        return 'text-muted-foreground';
+    }
+  };
+
+  // Group by chapter, in reading order. Annotations on chapters that aren't
+  // loaded (e.g. past a preview) are left out.
+  const groups = chapters
+    .map(chapter => ({
+      chapter,
+      bookmarks: bookmarks
+        .filter(b => b.chapter_id === chapter.id)
+        .sort((a, b) => a.position - b.position),
+      items: highlights
+        .filter(h => h.chapter_id === chapter.id)
+        .sort((a, b) => a.start_position - b.start_position),
+    }))
+    .filter(group => group.items.length > 0 || group.bookmarks.length > 0);
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className={`flex flex-col ${getContainerClasses()}`}>
+        <SheetHeader>
+          <SheetTitle className="font-serif flex items-center gap-2 text-inherit">
+            <Highlighter className="w-5 h-5" />
+            Annotations
+          </SheetTitle>
+          <SheetDescription className={getMutedClasses()}>
+            {highlights.length === 0 && bookmarks.length === 0
+              ? 'Select any passage while reading to highlight it, or bookmark your place.'
+              : `${highlights.length} ${highlights.length === 1 ? 'highlight' : 'highlights'} · ${bookmarks.length} ${bookmarks.length === 1 ? 'bookmark' : 'bookmarks'}`}
+          </SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="flex-1 -mx-6 px-6">
+          <div className="space-y-6 pb-6">
+            {groups.map(({ chapter, bookmarks: chapterBookmarks, items }) => (
+              <section key={chapter.id}>
+                <h3 className={`text-xs uppercase tracking-widest mb-3 ${getMutedClasses()}`}>
+                  {chapter.title}
+                </h3>
+                <div className="space-y-3">
+                  {chapterBookmarks.map((bookmark) => (
+                    <div key={bookmark.id} className="group flex gap-3">
+                      <Bookmark className="w-4 h-4 shrink-0 mt-0.5 text-primary" fill="currentColor" aria-hidden="true" />
+                      <button
+                        onClick={() => onOpenBookmark(bookmark)}
+                        className="flex-1 min-w-0 text-left"
+                      >
+                        <p className={`font-serif text-sm italic line-clamp-2 ${getMutedClasses()}`}>
+                          {excerptAt(chapter.content, bookmark.position, 120)}
+                        </p>
+                        {bookmark.note && <p className="text-sm mt-1">{bookmark.note}</p>}
+                      </button>
+                      <button
+                        onClick={() => onDeleteBookmark(bookmark)}
+                        className={`p-1 self-start opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity hover:text-destructive ${getMutedClasses()}`}
+                        aria-label="Remove bookmark"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                  {items.map((highlight) => (
+                    <div key={highlight.id} className="group flex gap-3">
+                      <span
+                        className={`w-1 shrink-0 rounded-full ${getSwatchClasses(highlight.color)}`}
+                        aria-hidden="true"
+                      />
+                      <button
+                        onClick={() => onSelect(highlight)}
+                        disabled={highlight.is_orphaned}
+                        className="flex-1 min-w-0 text-left"
+                      >
+                        <p className="font-serif text-sm line-clamp-4">{highlight.text_content}</p>
+                        {highlight.is_orphaned && (
+                          <p className={`text-xs mt-1 ${getMutedClasses()}`}>
+                            This passage changed in a revision and is no longer marked in the chapter
+                          </p>
+                        )}
+                        {highlight.note && (
+                          <p className={`text-sm italic mt-1 ${getMutedClasses()}`}>{highlight.note}</p>
+                        )}
+                        {highlight.created_at && (
+                          <p className={`text-xs mt-1 ${getMutedClasses()}`}>
+                            {format(new Date(highlight.created_at), 'MMM d, yyyy')}
+                          </p>
+                        )}
+                      </button>
+                      <button
+                        onClick={() => onDelete(highlight)}
+                        className={`p-1 self-start opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity hover:text-destructive ${getMutedClasses()}`}
+                        aria-label="Remove highlight"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </section>
+            ))}
+          </div>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,83 @@
+import { CheckCircle2, Download, Loader2, Trash2 } from 'lucide-react';
+import type { AudioDownload } from '@/hooks/useOfflineSync';
+import { formatBytes } from '@/lib/utils';
+
+interface AudioDownloadControlsProps {
+  theme: 'dark' | 'light' | 'sepia';
+  // One entry per track the reader owns; undefined while not downloaded
+  downloads: Array<AudioDownload | undefined>;
+  isOnline: boolean;
+  onDownload: () => void;
+  onRemove: () => void;
+}
+
+// Save the book's audio to the device for listening offline
+export function AudioDownloadControls({ theme, downloads, isOnline, onDownload, onRemove }: AudioDownloadControlsProps) {
+  const getButtonClasses = () => {
+    switch (theme) {
+      case 'light':
+        return 'bg-amber-100 text-amber-900 hover:bg-amber-200 focus:ring-amber-500';
+      case 'sepia':
+        return 'bg-amber-200/80 text-amber-900 hover:bg-amber-300/80 focus:ring-amber-600';
+      default:
+        return 'bg-muted text-foreground hover:bg-muted/80 focus:ring-primary';
+    }
+  };
+
+  const mutedClasses = theme === 'dark' ? 'text-muted-foreground' : 'text-amber-600';
+  const cached = downloads.filter(d => d?.status === 'cached');
+  const downloading = downloads.filter(d => d?.status === 'downloading');
+  const failed = downloads.some(d => d?.status === 'error');
+  const cachedBytes = cached.reduce((sum, d) => sum + (d?.total ?? 0), 0);
+
+  if (downloading.length > 0) {
+    const loaded = downloads.reduce((sum, d) => sum + (d?.loaded ?? 0), 0);
+    const total = downloads.reduce((sum, d) => sum + (d?.total ?? 0), 0);
+    const percent = total > 0 ? Math.round((loaded / total) * 100) : 0;
+    return (
+      <div className="space-y-2" role="status">
+        <p className={`text-sm flex items-center gap-2 ${mutedClasses}`}>
+          <Loader2 className="w-4 h-4 animate-spin" aria-hidden="true" />
+          Downloading {cached.length + 1} of {downloads.length}{total > 0 && ` · ${percent}%`}
+        </p>
+        <div className={`h-1.5 rounded-full overflow-hidden ${theme === 'dark' ? 'bg-muted' : 'bg-amber-200'}`}>
+          <div className="h-full bg-primary transition-all" style={{ width: `${percent}%` }} />
+        </div>
+      </div>
+    );
+  }
+
+  if (cached.length === downloads.length && downloads.length > 0) {
+    return (
+      <div className="flex items-center justify-between gap-2">
+        <p className={`text-sm flex items-center gap-2 ${mutedClasses}`}>
+          <CheckCircle2 className="w-4 h-4" aria-hidden="true" />
+          Saved on this device · {formatBytes(cachedBytes)}
+        </p>
+        <button
+          onClick={onRemove}
+          className={`p-2 rounded transition-colors focus:outline-none focus:ring-2 ${getButtonClasses()}`}
+          aria-label="Remove downloaded audio"
+        >
+          <Trash2 className="w-4 h-4" aria-hidden="true" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <button
+        onClick={onDownload}
+        disabled={!isOnline}
+        className={`w-full py-2 px-4 rounded flex items-center justify-center gap-2 transition-colors focus:outline-none focus:ring-2 disabled:opacity-50 ${getButtonClasses()}`}
+      >
+        <Download className="w-4 h-4" aria-hidden="true" />
+        {cached.length > 0 ? `Download the rest (${cached.length} of ${downloads.length} saved)` : 'Download for Offline'}
+      </button>
+      {failed && (
+        <p className="text-sm text-destructive">Some audio couldn't be downloaded. Try again.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import { Moon, Pause, Play, RotateCcw, RotateCw, SkipBack, SkipForward, Square } from 'lucide-react';
+import { motion } from 'framer-motion';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { PLAYBACK_RATES, SLEEP_TIMER_MINUTES, type SleepTimerSetting } from '@/hooks/useAudioPlayer';
+
+const formatClock = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+interface AudiobookBarProps {
+  theme: 'dark' | 'light' | 'sepia';
+  isPlaying: boolean;
+  onPlayPause: () => void;
+  // Seconds back (negative) or ahead
+  onSkipSeconds: (seconds: number) => void;
+  // Paragraphs back or ahead, when the track follows the text
+  onSkipParagraph?: (delta: number) => void;
+  playbackRate: number;
+  onPlaybackRateChange: (rate: number) => void;
+  sleepSetting: SleepTimerSetting | null;
+  sleepRemaining: number | null;
+  onSleepTimerChange: (setting: SleepTimerSetting | null) => void;
+  onStop: () => void;
+}
+
+// Floating audiobook transport: skips, speed and sleep timer
+export function AudiobookBar({
+  theme,
+  isPlaying,
+  onPlayPause,
+  onSkipSeconds,
+  onSkipParagraph,
+  playbackRate,
+  onPlaybackRateChange,
+  sleepSetting,
+  sleepRemaining,
+  onSleepTimerChange,
+  onStop,
+}: AudiobookBarProps) {
+  const getButtonClasses = () => {
+    switch (theme) {
+      case 'light':
+        return 'bg-amber-100 text-amber-900 hover:bg-amber-200 focus:ring-amber-500';
+      case 'sepia':
+        return 'bg-amber-200/80 text-amber-900 hover:bg-amber-300/80 focus:ring-amber-600';
+      default:
+        return 'bg-muted text-foreground hover:bg-muted/80 focus:ring-primary';
+    }
+  };
+
+  const buttonClasses = `p-2 rounded-full transition-colors focus:outline-none focus:ring-2 ${getButtonClasses()}`;
+  const textButtonClasses = `h-8 px-2 rounded-full text-xs tabular-nums transition-colors focus:outline-none focus:ring-2 ${getButtonClasses()}`;
+
+  return (
+    <motion.div
+      className={`fixed bottom-28 right-6 z-40 flex items-center gap-1 rounded-full border p-1 shadow-lg ${
+        theme === 'dark' ? 'bg-card border-border' : 'bg-amber-50 border-amber-300'
+      }`}
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: 10 }}
+      onClick={(e) => e.stopPropagation()}
+      role="group"
+      aria-label="Audiobook"
+    >
+      {onSkipParagraph && (
+        <button onClick={() => onSkipParagraph(-1)} className={`${buttonClasses} hidden sm:block`} aria-label="Previous paragraph">
+          <SkipBack className="w-4 h-4" aria-hidden="true" />
+        </button>
+      )}
+      <button onClick={() => onSkipSeconds(-15)} className={buttonClasses} aria-label="Back 15 seconds">
+        <RotateCcw className="w-4 h-4" aria-hidden="true" />
+      </button>
+      <button onClick={onPlayPause} className={buttonClasses} aria-label={isPlaying ? 'Pause' : 'Play'}>
+        {isPlaying ? (
+          <Pause className="w-4 h-4" aria-hidden="true" />
+        ) : (
+          <Play className="w-4 h-4" aria-hidden="true" />
+        )}
+      </button>
+      <button onClick={() => onSkipSeconds(30)} className={buttonClasses} aria-label="Forward 30 seconds">
+        <RotateCw className="w-4 h-4" aria-hidden="true" />
+      </button>
+      {onSkipParagraph && (
+        <button onClick={() => onSkipParagraph(1)} className={`${buttonClasses} hidden sm:block`} aria-label="Next paragraph">
+          <SkipForward className="w-4 h-4" aria-hidden="true" />
+        </button>
+      )}
+
+      <DropdownMenu>
+        <DropdownMenuTrigger className={textButtonClasses} aria-label={`Playback speed ${playbackRate}×`}>
+          {playbackRate}×
+        </DropdownMenuTrigger>
+        <DropdownMenuContent side="top" align="end">
+          <DropdownMenuLabel>Speed</DropdownMenuLabel>
+          <DropdownMenuRadioGroup
+            value={String(playbackRate)}
+            onValueChange={(value) => onPlaybackRateChange(parseFloat(value))}
+          >
+            {PLAYBACK_RATES.map((rate) => (
+              <DropdownMenuRadioItem key={rate} value={String(rate)}>
+                {rate}×
+              </DropdownMenuRadioItem>
+            ))}
+          </DropdownMenuRadioGroup>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger
+          className={`${textButtonClasses} flex items-center gap-1 ${sleepSetting !== null ? 'text-primary' : ''}`}
+          aria-label="Sleep timer"
+        >
+          <Moon className="w-4 h-4" aria-hidden="true" fill={sleepSetting !== null ? 'currentColor' : 'none'} />
+          {sleepRemaining !== null && <span>{formatClock(sleepRemaining)}</span>}
+          {sleepSetting === 'chapter' && <span>Chapter</span>}
+        </DropdownMenuTrigger>
+        <DropdownMenuContent side="top" align="end">
+          <DropdownMenuLabel>Sleep timer</DropdownMenuLabel>
+          <DropdownMenuRadioGroup
+            value={sleepSetting === null ? 'off' : String(sleepSetting)}
+            onValueChange={(value) => onSleepTimerChange(
+              value === 'off' ? null : value === 'chapter' ? 'chapter' : parseInt(value, 10)
+            )}
+          >
+            <DropdownMenuRadioItem value="off">Off</DropdownMenuRadioItem>
+            {SLEEP_TIMER_MINUTES.map((minutes) => (
+              <DropdownMenuRadioItem key={minutes} value={String(minutes)}>
+                {minutes} minutes
+              </DropdownMenuRadioItem>
+            ))}
+            <DropdownMenuRadioItem value="chapter">End of chapter</DropdownMenuRadioItem>
+          </DropdownMenuRadioGroup>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <button onClick={onStop} className={buttonClasses} aria-label="Stop listening">
+        <Square className="w-4 h-4" aria-hidden="true" />
+      </button>
+    </motion.div>
+  );
+}
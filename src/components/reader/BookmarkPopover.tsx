@@ -0,0 +1,106 @@
+import { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Bookmark } from 'lucide-react';
+import type { BookBookmark } from '@/hooks/useBookmarks';
+
+interface BookmarkPopoverProps {
+  theme: 'dark' | 'light' | 'sepia';
+  // Bookmark already at this spot, if any
+  bookmark?: BookBookmark;
+  excerpt: string;
+  onSave: (note: string) => void;
+  onRemove: () => void;
+  onClose: () => void;
+}
+
+export function BookmarkPopover({ theme, bookmark, excerpt, onSave, onRemove, onClose }: BookmarkPopoverProps) {
+  const popoverRef = useRef<HTMLDivElement>(null);
+  const [note, setNote] = useState(bookmark?.note ?? '');
+
+  // Close on click outside
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (popoverRef.current && !popoverRef.current.contains(e.target as Node)) {
+        onClose();
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [onClose]);
+
+  const getContainerClasses = () => {
+    switch (theme) {
+      case 'light':
+        return 'bg-amber-50 border-amber-200 text-amber-900';
+      case 'sepia':
+        return 'bg-amber-100 border-amber-300 text-amber-900';
+      default:
+        return 'bg-card border-border text-foreground';
+    }
+  };
+
+  const getMutedClasses = () => {
+    switch (theme) {
+      case 'light':
+      case 'sepia':
+        return 'text-amber-700';
+      default:
+        return 'text-muted-foreground';
+    }
+  };
+
+  const getButtonClasses = (primary: boolean) => {
+    if (primary) {
+      switch (theme) {
+        case 'light':
+          return 'bg-amber-700 text-white hover:bg-amber-800';
+        case 'sepia':
+          return 'bg-amber-800 text-white hover:bg-amber-900';
+        default:
+          return 'bg-primary text-primary-foreground hover:bg-primary/90';
+      }
+    }
+    return `${getMutedClasses()} hover:text-destructive`;
+  };
+
+  return (
+    <motion.div
+      ref={popoverRef}
+      className={`fixed bottom-28 left-1/2 -translate-x-1/2 z-50 w-80 max-w-[calc(100vw-2rem)] rounded-lg shadow-xl border p-4 ${getContainerClasses()}`}
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: 10 }}
+      onClick={(e) => e.stopPropagation()}
+      role="dialog"
+      aria-label={bookmark ? 'Edit bookmark' : 'Add bookmark'}
+    >
+      <p className="text-sm font-serif flex items-center gap-2 mb-2">
+        <Bookmark className="w-4 h-4" fill={bookmark ? 'currentColor' : 'none'} />
+        {bookmark ? 'Bookmarked' : 'Bookmark this spot'}
+      </p>
+      <p className={`text-sm font-serif italic line-clamp-2 mb-3 ${getMutedClasses()}`}>{excerpt}</p>
+      <textarea
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        placeholder="Add a note (optional)"
+        rows={2}
+        className="w-full rounded border border-current/20 bg-transparent p-2 text-sm select-text focus:outline-none focus:ring-1"
+      />
+      <div className="flex items-center justify-between mt-3">
+        {bookmark ? (
+          <button onClick={onRemove} className={`text-sm transition-colors ${getButtonClasses(false)}`}>
+            Remove
+          </button>
+        ) : (
+          <span />
+        )}
+        <button
+          onClick={() => onSave(note.trim())}
+          className={`px-4 py-1.5 rounded text-sm transition-colors ${getButtonClasses(true)}`}
+        >
+          {bookmark ? 'Save note' : 'Add bookmark'}
+        </button>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,134 @@
+import { motion } from 'framer-motion';
+import { Bookmark } from 'lucide-react';
+import type { MarkupBlock, MarkupRun } from '@/lib/chapterMarkup';
+import { getHighlightClasses } from '@/lib/highlights';
+import { getFontStack, getParagraphStyle } from '@/lib/typography';
+import { DEFAULT_READER_PREFERENCES, type ReaderTypography } from '@/hooks/useReaderPreferences';
+
+export interface BlockHighlight {
+  id: string;
+  start: number;
+  end: number;
+  color: string | null;
+}
+
+interface ChapterBlockProps {
+  block: MarkupBlock;
+  index: number;
+  fontSize: number;
+  typography?: ReaderTypography;
+  // Where this block starts in the chapter's plain text
+  offset?: number;
+  highlights?: BlockHighlight[];
+  bookmarked?: boolean;
+  // Being read aloud
+  speaking?: boolean;
+  onHighlightClick?: (id: string, rect: DOMRect) => void;
+}
+
+function formatRun(run: MarkupRun, text: string): React.ReactNode {
+  let node: React.ReactNode = text;
+  if (run.smallCaps) node = <span style={{ fontVariant: 'small-caps' }}>{node}</span>;
+  if (run.italic) node = <em>{node}</em>;
+  if (run.bold) node = <strong>{node}</strong>;
+  return node;
+}
+
+// Split a run at highlight boundaries so each highlighted stretch gets its own mark
+function renderRun(
+  run: MarkupRun,
+  key: number,
+  runStart: number,
+  highlights: BlockHighlight[],
+  onHighlightClick?: (id: string, rect: DOMRect) => void
+) {
+  const runEnd = runStart + run.text.length;
+  const overlapping = highlights.filter(h => h.start < runEnd && h.end > runStart);
+  if (overlapping.length === 0) return <span key={key}>{formatRun(run, run.text)}</span>;
+
+  const cuts = new Set([runStart, runEnd]);
+  for (const h of overlapping) {
+    if (h.start > runStart) cuts.add(h.start);
+    if (h.end < runEnd) cuts.add(h.end);
+  }
+  const points = [...cuts].sort((a, b) => a - b);
+
+  return (
+    <span key={key}>
+      {points.slice(0, -1).map((from, i) => {
+        const to = points[i + 1];
+        const text = run.text.slice(from - runStart, to - runStart);
+        const highlight = overlapping.find(h => h.start <= from && h.end >= to);
+        if (!highlight) return <span key={from}>{formatRun(run, text)}</span>;
+
+        return (
+          <mark
+            key={from}
+            data-highlight-id={highlight.id}
+            className={`${getHighlightClasses(highlight.color)} text-inherit rounded-sm cursor-pointer`}
+            onClick={(e) => {
+              if (!onHighlightClick) return;
+              e.stopPropagation();
+              onHighlightClick(highlight.id, e.currentTarget.getBoundingClientRect());
+            }}
+          >
+            {formatRun(run, text)}
+          </mark>
+        );
+      })}
+    </span>
+  );
+}
+
+export function ChapterBlock({
+  block,
+  index,
+  fontSize,
+  typography = DEFAULT_READER_PREFERENCES,
+  offset,
+  highlights = [],
+  bookmarked,
+  speaking,
+  onHighlightClick,
+}: ChapterBlockProps) {
+  if (block.type === 'sceneBreak') {
+    return (
+      <motion.div
+        role="separator"
+        className="reading-text text-center text-muted-foreground tracking-[0.5em] my-10"
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        transition={{ delay: index * 0.05 }}
+        style={{ fontFamily: getFontStack(typography.fontFamily) }}
+      >
+        * * *
+      </motion.div>
+    );
+  }
+
+  const runStarts: number[] = [];
+  let position = offset ?? 0;
+  for (const run of block.runs) {
+    runStarts.push(position);
+    position += run.text.length;
+  }
+
+  return (
+    <motion.p
+      className={`reading-text relative transition-colors duration-300 ${speaking ? 'bg-primary/10 rounded-sm' : ''}`}
+      data-offset={offset}
+      aria-current={speaking || undefined}
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      transition={{ delay: index * 0.05 }}
+      style={{ fontSize: `${fontSize}px`, ...getParagraphStyle(typography, block.align) }}
+    >
+      {bookmarked && (
+        <span className="absolute -left-6 top-1.5 text-primary select-none" title="Bookmarked" aria-hidden="true">
+          <Bookmark className="w-3.5 h-3.5" fill="currentColor" />
+        </span>
+      )}
+      {block.runs.map((run, key) => renderRun(run, key, runStarts[key], highlights, onHighlightClick))}
+    </motion.p>
+  );
+}
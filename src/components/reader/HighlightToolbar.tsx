@@ -0,0 +1,153 @@
+import { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Check, MessageSquare, Trash2 } from 'lucide-react';
+import { HIGHLIGHT_COLORS, getSwatchClasses, type HighlightColor } from '@/lib/highlights';
+
+interface HighlightToolbarProps {
+  theme: 'dark' | 'light' | 'sepia';
+  // Viewport rect of the selection or highlight the toolbar points at
+  anchor: DOMRect;
+  color?: string | null;
+  note?: string | null;
+  onColor: (color: HighlightColor) => void;
+  onSaveNote?: (note: string) => void;
+  onDelete?: () => void;
+  onClose: () => void;
+}
+
+export function HighlightToolbar({
+  theme,
+  anchor,
+  color,
+  note,
+  onColor,
+  onSaveNote,
+  onDelete,
+  onClose,
+}: HighlightToolbarProps) {
+  const toolbarRef = useRef<HTMLDivElement>(null);
+  const [isEditingNote, setIsEditingNote] = useState(false);
+  const [draft, setDraft] = useState(note ?? '');
+
+  // Close on click outside or scroll
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (toolbarRef.current && !toolbarRef.current.contains(e.target as Node)) {
+        onClose();
+      }
+    };
+    const handleScroll = () => {
+      if (!isEditingNote) onClose();
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    window.addEventListener('scroll', handleScroll, { passive: true });
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      window.removeEventListener('scroll', handleScroll);
+    };
+  }, [onClose, isEditingNote]);
+
+  const getContainerClasses = () => {
+    switch (theme) {
+      case 'light':
+        return 'bg-amber-50 border-amber-200 text-amber-900';
+      case 'sepia':
+        return 'bg-amber-100 border-amber-300 text-amber-900';
+      default:
+        return 'bg-card border-border text-foreground';
+    }
+  };
+
+  const getButtonClasses = () => {
+    switch (theme) {
+      case 'light':
+      case 'sepia':
+        return 'text-amber-800 hover:bg-amber-200';
+      default:
+        return 'text-muted-foreground hover:text-foreground hover:bg-muted';
+    }
+  };
+
+  // Sit above the anchor, or below it when too close to the top of the screen
+  const width = 260;
+  const left = Math.min(Math.max(8, anchor.left + anchor.width / 2 - width / 2), window.innerWidth - width - 8);
+  const placeBelow = anchor.top < 120;
+  const top = placeBelow ? anchor.bottom + 8 : anchor.top - 8;
+
+  return (
+    <motion.div
+      ref={toolbarRef}
+      className={`fixed z-50 rounded-lg shadow-xl border p-2 ${getContainerClasses()}`}
+      style={{ left, top, width, transform: placeBelow ? undefined : 'translateY(-100%)' }}
+      initial={{ opacity: 0, scale: 0.95 }}
+      animate={{ opacity: 1, scale: 1 }}
+      exit={{ opacity: 0, scale: 0.95 }}
+      onClick={(e) => e.stopPropagation()}
+      onMouseDown={(e) => e.stopPropagation()}
+      role="toolbar"
+      aria-label="Highlight"
+    >
+      <div className="flex items-center gap-2">
+        {HIGHLIGHT_COLORS.map((c) => (
+          <button
+            key={c}
+            onClick={() => onColor(c)}
+            className={`w-6 h-6 rounded-full flex items-center justify-center focus:outline-none focus:ring-2 focus:ring-offset-1 ${getSwatchClasses(c)}`}
+            aria-label={`Highlight ${c}`}
+            aria-pressed={color === c}
+          >
+            {color === c && <Check className="w-3 h-3 text-black/70" />}
+          </button>
+        ))}
+        <div className="flex-1" />
+        {onSaveNote && (
+          <button
+            onClick={() => setIsEditingNote(!isEditingNote)}
+            className={`p-1.5 rounded transition-colors ${getButtonClasses()}`}
+            aria-label={note ? 'Edit note' : 'Add note'}
+            aria-expanded={isEditingNote}
+          >
+            <MessageSquare className="w-4 h-4" />
+          </button>
+        )}
+        {onDelete && (
+          <button
+            onClick={onDelete}
+            className={`p-1.5 rounded transition-colors ${getButtonClasses()}`}
+            aria-label="Remove highlight"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {!isEditingNote && note && (
+        <p className="mt-2 text-sm italic opacity-80 line-clamp-3">{note}</p>
+      )}
+
+      {isEditingNote && onSaveNote && (
+        <div className="mt-2 space-y-2">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder="Write a note..."
+            rows={3}
+            autoFocus
+            className="w-full rounded border border-current/20 bg-transparent p-2 text-sm select-text focus:outline-none focus:ring-1"
+          />
+          <div className="flex justify-end">
+            <button
+              onClick={() => {
+                onSaveNote(draft.trim());
+                setIsEditingNote(false);
+              }}
+              className={`px-3 py-1 rounded text-sm transition-colors ${getButtonClasses()}`}
+            >
+              Save note
+            </button>
+          </div>
+        </div>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,184 @@
+import { Headphones, Pause, Play, SkipBack, SkipForward, Square } from 'lucide-react';
+import { motion } from 'framer-motion';
+import {
+  MAX_NARRATION_PITCH,
+  MAX_NARRATION_RATE,
+  MIN_NARRATION_PITCH,
+  MIN_NARRATION_RATE,
+  type NarrationSettings,
+  type NarrationStatus,
+} from '@/hooks/useSpeechNarration';
+
+type Theme = 'dark' | 'light' | 'sepia';
+
+interface NarrationControlsProps {
+  theme: Theme;
+  isSupported: boolean;
+  status: NarrationStatus;
+  voices: SpeechSynthesisVoice[];
+  settings: NarrationSettings;
+  onSettingsChange: (changes: Partial<NarrationSettings>) => void;
+  onStart: () => void;
+  onStop: () => void;
+}
+
+interface NarrationBarProps {
+  theme: Theme;
+  label: string;
+  status: NarrationStatus;
+  onPause: () => void;
+  onResume: () => void;
+  onSkip: (delta: number) => void;
+  onStop: () => void;
+}
+
+const getButtonClasses = (theme: Theme) => {
+  switch (theme) {
+    case 'light':
+      return 'bg-amber-100 text-amber-900 hover:bg-amber-200 focus:ring-amber-500';
+    case 'sepia':
+      return 'bg-amber-200/80 text-amber-900 hover:bg-amber-300/80 focus:ring-amber-600';
+    default:
+      return 'bg-muted text-foreground hover:bg-muted/80 focus:ring-primary';
+  }
+};
+
+const getSliderClasses = (theme: Theme) => {
+  switch (theme) {
+    case 'light':
+      return 'accent-amber-700';
+    case 'sepia':
+      return 'accent-amber-800';
+    default:
+      return 'accent-primary';
+  }
+};
+
+const getSelectClasses = (theme: Theme) => {
+  switch (theme) {
+    case 'light':
+      return 'bg-amber-50 text-amber-900 border-amber-300 focus:ring-amber-500';
+    case 'sepia':
+      return 'bg-amber-100 text-amber-900 border-amber-400 focus:ring-amber-600';
+    default:
+      return 'bg-muted text-foreground border-border focus:ring-primary';
+  }
+};
+
+const getMutedClasses = (theme: Theme) => theme === 'dark' ? 'text-muted-foreground' : 'text-amber-600';
+
+// Read-aloud settings for books without a recorded audiobook
+export function NarrationControls({
+  theme,
+  isSupported,
+  status,
+  voices,
+  settings,
+  onSettingsChange,
+  onStart,
+  onStop,
+}: NarrationControlsProps) {
+  if (!isSupported) {
+    return (
+      <p className={`text-sm ${getMutedClasses(theme)}`}>
+        Read aloud isn't supported in this browser
+      </p>
+    );
+  }
+
+  const sliders = [
+    { key: 'rate', label: 'Speed', min: MIN_NARRATION_RATE, max: MAX_NARRATION_RATE },
+    { key: 'pitch', label: 'Pitch', min: MIN_NARRATION_PITCH, max: MAX_NARRATION_PITCH },
+  ] as const;
+
+  return (
+    <div className="space-y-3">
+      <button
+        onClick={status === 'idle' ? onStart : onStop}
+        className={`w-full py-2 px-4 rounded flex items-center justify-center gap-2 transition-colors focus:outline-none focus:ring-2 ${getButtonClasses(theme)}`}
+        aria-pressed={status !== 'idle'}
+      >
+        <Headphones className="w-4 h-4" aria-hidden="true" />
+        {status === 'idle' ? 'Read Aloud' : 'Stop Reading'}
+      </button>
+
+      {voices.length > 0 && (
+        <div>
+          <label htmlFor="narration-voice" className="sr-only">Voice</label>
+          <select
+            id="narration-voice"
+            value={settings.voiceURI ?? ''}
+            onChange={(e) => onSettingsChange({ voiceURI: e.target.value || null })}
+            className={`w-full p-2 rounded border text-sm focus:outline-none focus:ring-2 ${getSelectClasses(theme)}`}
+          >
+            <option value="">Default voice</option>
+            {voices.map((voice) => (
+              <option key={voice.voiceURI} value={voice.voiceURI}>
+                {voice.name} ({voice.lang})
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {sliders.map(({ key, label, min, max }) => (
+        <div key={key} className="flex items-center gap-3">
+          <label htmlFor={`narration-${key}`} className={`w-12 text-xs ${getMutedClasses(theme)}`}>{label}</label>
+          <input
+            id={`narration-${key}`}
+            type="range"
+            min={min}
+            max={max}
+            step="0.1"
+            value={settings[key]}
+            onChange={(e) => onSettingsChange({ [key]: parseFloat(e.target.value) })}
+            className={`flex-1 h-2 rounded-lg appearance-none cursor-pointer focus:outline-none focus:ring-2 ${getSliderClasses(theme)}`}
+            aria-valuetext={`${settings[key].toFixed(1)}×`}
+          />
+          <span className={`w-8 text-right text-xs ${getMutedClasses(theme)}`}>{settings[key].toFixed(1)}×</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Floating transport while read-aloud or the audiobook runs, so it can be
+// paused with settings closed; skipping moves a paragraph at a time
+export function NarrationBar({ theme, label, status, onPause, onResume, onSkip, onStop }: NarrationBarProps) {
+  const buttonClasses = `p-2 rounded-full transition-colors focus:outline-none focus:ring-2 ${getButtonClasses(theme)}`;
+
+  return (
+    <motion.div
+      className={`fixed bottom-28 right-6 z-40 flex items-center gap-1 rounded-full border p-1 shadow-lg ${
+        theme === 'dark' ? 'bg-card border-border' : 'bg-amber-50 border-amber-300'
+      }`}
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: 10 }}
+      onClick={(e) => e.stopPropagation()}
+      role="group"
+      aria-label={label}
+    >
+      <button onClick={() => onSkip(-1)} className={buttonClasses} aria-label="Previous paragraph">
+        <SkipBack className="w-4 h-4" aria-hidden="true" />
+      </button>
+      <button
+        onClick={status === 'playing' ? onPause : onResume}
+        className={buttonClasses}
+        aria-label={status === 'playing' ? 'Pause' : 'Resume'}
+      >
+        {status === 'playing' ? (
+          <Pause className="w-4 h-4" aria-hidden="true" />
+        ) : (
+          <Play className="w-4 h-4" aria-hidden="true" />
+        )}
+      </button>
+      <button onClick={() => onSkip(1)} className={buttonClasses} aria-label="Next paragraph">
+        <SkipForward className="w-4 h-4" aria-hidden="true" />
+      </button>
+      <button onClick={onStop} className={buttonClasses} aria-label="Stop">
+        <Square className="w-4 h-4" aria-hidden="true" />
+      </button>
+    </motion.div>
+  );
+}
@@ -0,0 +1,66 @@
+import { motion } from 'framer-motion';
+import { ArrowRight } from 'lucide-react';
+import type { NextInSeries } from '@/hooks/useSeries';
+
+interface NextBookNoticeProps {
+  theme: 'dark' | 'light' | 'sepia';
+  next: NextInSeries;
+  onContinue: () => void;
+}
+
+export function NextBookNotice({ theme, next, onContinue }: NextBookNoticeProps) {
+  const getContainerClasses = () => {
+    switch (theme) {
+      case 'light':
+        return 'bg-amber-50/95 border-amber-200 text-amber-900';
+      case 'sepia':
+        return 'bg-amber-100/95 border-amber-300 text-amber-900';
+      default:
+        return 'bg-card border-border text-foreground';
+    }
+  };
+
+  const getMutedClasses = () => {
+    switch (theme) {
+      case 'light':
+      case 'sepia':
+        return 'text-amber-700';
+      default:
+        return 'text-muted-foreground';
+    }
+  };
+
+  const getButtonClasses = () => {
+    switch (theme) {
+      case 'light':
+        return 'bg-amber-700 text-white hover:bg-amber-800';
+      case 'sepia':
+        return 'bg-amber-800 text-white hover:bg-amber-900';
+      default:
+        return 'bg-primary text-primary-foreground hover:bg-primary/90';
+    }
+  };
+
+  return (
+    <motion.div
+      className={`mt-12 p-8 rounded-lg text-center border ${getContainerClasses()}`}
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+    >
+      <p className={`text-sm mb-2 ${getMutedClasses()}`}>
+        {next.seriesTitle ? `${next.seriesTitle} · Book ${next.position}` : 'Up next'}
+      </p>
+      {next.book.cover_url && (
+        <img src={next.book.cover_url} alt={next.book.title} className="w-20 h-28 object-cover rounded mx-auto mb-4" />
+      )}
+      <h2 className="text-xl font-serif mb-6">{next.book.title}</h2>
+      <button
+        onClick={(e) => { e.stopPropagation(); onContinue(); }}
+        className={`px-6 py-2 rounded transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 inline-flex items-center gap-2 ${getButtonClasses()}`}
+      >
+        Continue to the next book
+        <ArrowRight className="w-4 h-4" />
+      </button>
+    </motion.div>
+  );
+}
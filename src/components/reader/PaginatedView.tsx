@@ -0,0 +1,66 @@
+import { useLayoutEffect, useRef, type ReactNode, type RefObject } from 'react';
+import { motion } from 'framer-motion';
+
+// Space between pages; part of the stride the reader turns by
+export const PAGE_GAP = 48;
+
+export interface PageLayout {
+  pageCount: number;
+  // Page width plus PAGE_GAP
+  stride: number;
+}
+
+interface PaginatedViewProps {
+  page: number;
+  stride: number;
+  // Changes whenever the text or its typography does, so pages are counted again
+  layoutKey: string;
+  contentRef: RefObject<HTMLDivElement | null>;
+  onLayout: (layout: PageLayout) => void;
+  children: ReactNode;
+}
+
+// Lays the chapter out as pages side by side with CSS columns, one column per
+// page, and slides to the current one. Page size follows the container, so the
+// reader's font size and line width decide how much fits on each page.
+export function PaginatedView({ page, stride, layoutKey, contentRef, onLayout, children }: PaginatedViewProps) {
+  const viewportRef = useRef<HTMLDivElement>(null);
+
+  useLayoutEffect(() => {
+    const viewport = viewportRef.current;
+    const content = contentRef.current;
+    if (!viewport || !content) return;
+
+    const measure = () => {
+      const pageStride = viewport.clientWidth + PAGE_GAP;
+      if (pageStride <= PAGE_GAP) return;
+      onLayout({
+        pageCount: Math.max(1, Math.round((content.scrollWidth + PAGE_GAP) / pageStride)),
+        stride: pageStride,
+      });
+    };
+
+    measure();
+    // Web fonts can reflow the text after the first measurement
+    document.fonts?.ready.then(measure).catch(() => {});
+
+    const observer = new ResizeObserver(measure);
+    observer.observe(viewport);
+    return () => observer.disconnect();
+  }, [layoutKey, contentRef, onLayout]);
+
+  return (
+    <div ref={viewportRef} className="h-full overflow-hidden">
+      <motion.div
+        ref={contentRef}
+        className="h-full"
+        style={{ columnCount: 1, columnGap: `${PAGE_GAP}px`, columnFill: 'auto' }}
+        initial={false}
+        animate={{ x: -page * stride }}
+        transition={{ type: 'tween', duration: 0.35, ease: 'easeInOut' }}
+      >
+        {children}
+      </motion.div>
+    </div>
+  );
+}
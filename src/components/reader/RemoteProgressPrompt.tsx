@@ -0,0 +1,72 @@
+import { motion } from 'framer-motion';
+import { MonitorSmartphone, X } from 'lucide-react';
+
+interface RemoteProgressPromptProps {
+  theme: 'dark' | 'light' | 'sepia';
+  chapterTitle: string;
+  progressPercent: number;
+  onJump: () => void;
+  onDismiss: () => void;
+}
+
+// Offered when the reader has since read the book on another device
+export function RemoteProgressPrompt({ theme, chapterTitle, progressPercent, onJump, onDismiss }: RemoteProgressPromptProps) {
+  const getContainerClasses = () => {
+    switch (theme) {
+      case 'light':
+        return 'bg-amber-50 border-amber-300 text-amber-900';
+      case 'sepia':
+        return 'bg-amber-100 border-amber-300 text-amber-900';
+      default:
+        return 'bg-card border-border text-foreground';
+    }
+  };
+
+  const getButtonClasses = () => {
+    switch (theme) {
+      case 'light':
+        return 'bg-amber-700 text-white hover:bg-amber-800';
+      case 'sepia':
+        return 'bg-amber-800 text-white hover:bg-amber-900';
+      default:
+        return 'bg-primary text-primary-foreground hover:bg-primary/90';
+    }
+  };
+
+  const mutedClasses = theme === 'dark' ? 'text-muted-foreground' : 'text-amber-700';
+
+  return (
+    <motion.div
+      className={`fixed top-20 left-1/2 -translate-x-1/2 z-40 w-[calc(100%-3rem)] max-w-md rounded-lg border p-4 shadow-lg ${getContainerClasses()}`}
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -10 }}
+      onClick={(e) => e.stopPropagation()}
+      role="alertdialog"
+      aria-label="Reading position from another device"
+    >
+      <div className="flex items-start gap-3">
+        <MonitorSmartphone className={`w-5 h-5 mt-0.5 shrink-0 ${mutedClasses}`} aria-hidden="true" />
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium">Jump to your other device's position?</p>
+          <p className={`text-sm truncate ${mutedClasses}`}>
+            {chapterTitle} · {Math.round(progressPercent)}% through the book
+          </p>
+          <button
+            onClick={onJump}
+            className={`mt-3 px-4 py-1.5 rounded text-sm transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 ${getButtonClasses()}`}
+          >
+            Jump there
+          </button>
+        </div>
+        <button
+          onClick={onDismiss}
+          className={`p-1 rounded transition-colors focus:outline-none focus:ring-2 ${mutedClasses}`}
+          aria-label="Stay here"
+        >
+          <X className="w-4 h-4" aria-hidden="true" />
+        </button>
+      </div>
+    </motion.div>
+  );
+}
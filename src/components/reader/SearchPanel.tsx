@@ -0,0 +1,137 @@
+import { useEffect, useState } from 'react';
+import { Loader2, Search } from 'lucide-react';
+import { MIN_QUERY_LENGTH, useBookSearch } from '@/hooks/useSearch';
+import type { SearchMatch, SnippetPart } from '@/lib/search';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { ScrollArea } from '@/components/ui/scroll-area';
+
+interface SearchPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  theme: 'dark' | 'light' | 'sepia';
+  bookId: string | undefined;
+  isOnline: boolean;
+  initialQuery?: string;
+  chapters: Array<{ id: string; title: string; content: string | null }>;
+  onSelect: (match: SearchMatch) => void;
+}
+
+export function SnippetText({ parts }: { parts: SnippetPart[] }) {
+  return (
+    <>
+      {parts.map((part, index) => part.match
+        ? <mark key={index} className="bg-primary/25 text-inherit rounded-sm px-0.5">{part.text}</mark>
+        : <span key={index}>{part.text}</span>)}
+    </>
+  );
+}
+
+export function SearchPanel({
+  open,
+  onOpenChange,
+  theme,
+  bookId,
+  isOnline,
+  initialQuery = '',
+  chapters,
+  onSelect,
+}: SearchPanelProps) {
+  const [query, setQuery] = useState(initialQuery);
+  const [debouncedQuery, setDebouncedQuery] = useState(initialQuery);
+  const { data: matches = [], isFetching } = useBookSearch(bookId, debouncedQuery, chapters);
+
+  // Search once typing pauses
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setDebouncedQuery(query), 300);
+    return () => clearTimeout(timeoutId);
+  }, [query]);
+
+  const getContainerClasses = () => {
+    switch (theme) {
+      case 'light':
+        return 'bg-amber-50 border-amber-200 text-amber-900';
+      case 'sepia':
+        return 'bg-amber-100 border-amber-300 text-amber-900';
+      default:
+        return 'bg-card border-border text-foreground';
+    }
+  };
+
+  const getMutedClasses = () => {
+    switch (theme) {
+      case 'light':
+      case 'sepia':
+        return 'text-amber-700';
+      default:
+        return 'text-muted-foreground';
+    }
+  };
+
+  const hasQuery = debouncedQuery.trim().length >= MIN_QUERY_LENGTH;
+
+  // Group by chapter, in reading order
+  const groups = chapters
+    .map(chapter => ({ chapter, items: matches.filter(m => m.chapterId === chapter.id) }))
+    .filter(group => group.items.length > 0);
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className={`flex flex-col ${getContainerClasses()}`}>
+        <SheetHeader>
+          <SheetTitle className="font-serif flex items-center gap-2 text-inherit">
+            <Search className="w-5 h-5" />
+            Search this book
+          </SheetTitle>
+          <SheetDescription className={getMutedClasses()}>
+            {!isOnline
+              ? 'Offline — searching chapters saved on this device.'
+              : hasQuery && !isFetching
+                ? `${matches.length} ${matches.length === 1 ? 'match' : 'matches'}`
+                : 'Find a passage in the chapters you can read.'}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="relative">
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Words or a phrase in quotes"
+            autoFocus
+            className="w-full rounded border border-current/20 bg-transparent pl-3 pr-9 py-2 text-sm select-text focus:outline-none focus:ring-1"
+            aria-label="Search text"
+          />
+          {isFetching && (
+            <Loader2 className={`absolute right-3 top-2.5 w-4 h-4 animate-spin ${getMutedClasses()}`} />
+          )}
+        </div>
+
+        <ScrollArea className="flex-1 -mx-6 px-6">
+          <div className="space-y-6 pb-6">
+            {hasQuery && !isFetching && groups.length === 0 && (
+              <p className={`text-sm ${getMutedClasses()}`}>No matches.</p>
+            )}
+            {groups.map(({ chapter, items }) => (
+              <section key={chapter.id}>
+                <h3 className={`text-xs uppercase tracking-widest mb-3 ${getMutedClasses()}`}>
+                  {chapter.title}
+                </h3>
+                <div className="space-y-3">
+                  {items.map((match, index) => (
+                    <button
+                      key={`${match.offset}-${index}`}
+                      onClick={() => onSelect(match)}
+                      className="block w-full text-left font-serif text-sm line-clamp-3 hover:opacity-80 transition-opacity"
+                    >
+                      <SnippetText parts={match.snippet} />
+                    </button>
+                  ))}
+                </div>
+              </section>
+            ))}
+          </div>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -1,4 +1,4 @@
-import { useEffect, useRef } from 'react';
+import { useEffect, useRef, type ReactNode } from 'react';
 import { Moon, Sun, Minus, Plus, Lock, X } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { AudioControls } from './AudioControls';
@@ -11,18 +11,37 @@ import {
   DrawerTitle,
 } from '@/components/ui/drawer';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  MAX_FONT_SIZE,
+  MAX_LINE_HEIGHT,
+  MAX_PARAGRAPH_SPACING,
+  MIN_FONT_SIZE,
+  MIN_LINE_HEIGHT,
+  MIN_PARAGRAPH_SPACING,
+  type LineWidth,
+  type ReaderLayout,
+  type ReaderTheme,
+  type ReaderTypography,
+} from '@/hooks/useReaderPreferences';
+import { getFontStack } from '@/lib/typography';
 
 interface SettingsPanelProps {
-  theme: 'dark' | 'light' | 'sepia';
-  setTheme: (theme: 'dark' | 'light' | 'sepia') => void;
+  theme: ReaderTheme;
+  setTheme: (theme: ReaderTheme) => void;
   fontSize: number;
   setFontSize: (size: number) => void;
-  lineWidth: 'narrow' | 'medium' | 'wide';
-  setLineWidth: (width: 'narrow' | 'medium' | 'wide') => void;
+  lineWidth: LineWidth;
+  setLineWidth: (width: LineWidth) => void;
+  layout: ReaderLayout;
+  setLayout: (layout: ReaderLayout) => void;
+  typography: ReaderTypography;
+  setTypography: (changes: Partial<ReaderTypography>) => void;
   // Audio controls
   audiobookMode: boolean;
   setAudiobookMode: (mode: boolean) => void;
   ownsAudiobook: boolean;
+  // Read-aloud controls, shown in place of the audiobook when none is recorded
+  narrationControls?: ReactNode;
   ownsSoundtrack: boolean;
   soundtrackPlaying: boolean;
   soundtrackVolume: number;
@@ -35,6 +54,8 @@ interface SettingsPanelProps {
   onPurchaseSoundtrack: () => void;
   isOnline: boolean;
   audioCached: boolean;
+  // Downloading the audio for offline listening, when the reader owns any
+  audioDownloadControls?: ReactNode;
   onClose: () => void;
   // Audio player state
   currentTime?: number;
@@ -49,9 +70,14 @@ export function SettingsPanel({
   setFontSize,
   lineWidth,
   setLineWidth,
+  layout,
+  setLayout,
+  typography,
+  setTypography,
   audiobookMode,
   setAudiobookMode,
   ownsAudiobook,
+  narrationControls,
   ownsSoundtrack,
   soundtrackPlaying,
   soundtrackVolume,
@@ -64,6 +90,7 @@ export function SettingsPanel({
   onPurchaseSoundtrack,
   isOnline,
   audioCached,
+  audioDownloadControls,
   onClose,
   currentTime,
   duration,
@@ -210,16 +237,18 @@ export function SettingsPanel({
         <label className={`text-sm ${getMutedClasses()} mb-2 block`}>Font Size</label>
         <div className="flex items-center gap-3">
           <button
-            onClick={() => setFontSize(Math.max(14, fontSize - 2))}
-            className={`p-2 rounded transition-colors focus:outline-none focus:ring-2 ${getButtonClasses(false)}`}
+            onClick={() => setFontSize(Math.max(MIN_FONT_SIZE, fontSize - 2))}
+            disabled={fontSize <= MIN_FONT_SIZE}
+            className={`p-2 rounded transition-colors focus:outline-none focus:ring-2 disabled:opacity-40 ${getButtonClasses(false)}`}
             aria-label="Decrease font size"
           >
             <Minus className="w-4 h-4" aria-hidden="true" />
           </button>
           <span className="flex-1 text-center" aria-live="polite">{fontSize}px</span>
           <button
-            onClick={() => setFontSize(Math.min(28, fontSize + 2))}
-            className={`p-2 rounded transition-colors focus:outline-none focus:ring-2 ${getButtonClasses(false)}`}
+            onClick={() => setFontSize(Math.min(MAX_FONT_SIZE, fontSize + 2))}
+            disabled={fontSize >= MAX_FONT_SIZE}
+            className={`p-2 rounded transition-colors focus:outline-none focus:ring-2 disabled:opacity-40 ${getButtonClasses(false)}`}
             aria-label="Increase font size"
           >
             <Plus className="w-4 h-4" aria-hidden="true" />
@@ -227,6 +256,88 @@ export function SettingsPanel({
         </div>
       </div>
 
+      {/* Typeface */}
+      <div>
+        <label className={`text-sm ${getMutedClasses()} mb-2 block`}>Typeface</label>
+        <div className="flex gap-2">
+          {([['serif', 'Serif'], ['sans', 'Sans'], ['dyslexic', 'Dyslexic']] as const).map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => setTypography({ fontFamily: value })}
+              className={`flex-1 py-2 rounded text-sm transition-colors focus:outline-none focus:ring-2 ${getButtonClasses(typography.fontFamily === value)}`}
+              style={{ fontFamily: getFontStack(value) }}
+              aria-pressed={typography.fontFamily === value}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Line height and paragraph spacing */}
+      {([
+        ['Line Height', 'lineHeight', MIN_LINE_HEIGHT, MAX_LINE_HEIGHT, 0.1],
+        ['Paragraph Spacing', 'paragraphSpacing', MIN_PARAGRAPH_SPACING, MAX_PARAGRAPH_SPACING, 0.25],
+      ] as const).map(([label, key, min, max, step]) => (
+        <div key={key}>
+          <label className={`text-sm ${getMutedClasses()} mb-2 block`}>{label}</label>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => setTypography({ [key]: Math.round((typography[key] - step) * 100) / 100 })}
+              disabled={typography[key] <= min}
+              className={`p-2 rounded transition-colors focus:outline-none focus:ring-2 disabled:opacity-40 ${getButtonClasses(false)}`}
+              aria-label={`Decrease ${label.toLowerCase()}`}
+            >
+              <Minus className="w-4 h-4" aria-hidden="true" />
+            </button>
+            <span className="flex-1 text-center" aria-live="polite">{Number(typography[key].toFixed(2))}</span>
+            <button
+              onClick={() => setTypography({ [key]: Math.round((typography[key] + step) * 100) / 100 })}
+              disabled={typography[key] >= max}
+              className={`p-2 rounded transition-colors focus:outline-none focus:ring-2 disabled:opacity-40 ${getButtonClasses(false)}`}
+              aria-label={`Increase ${label.toLowerCase()}`}
+            >
+              <Plus className="w-4 h-4" aria-hidden="true" />
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {/* Justification and hyphenation */}
+      <div className="flex gap-2">
+        <button
+          onClick={() => setTypography({ justify: !typography.justify })}
+          className={`flex-1 py-2 rounded text-sm transition-colors focus:outline-none focus:ring-2 ${getButtonClasses(typography.justify)}`}
+          aria-pressed={typography.justify}
+        >
+          Justify
+        </button>
+        <button
+          onClick={() => setTypography({ hyphenate: !typography.hyphenate })}
+          className={`flex-1 py-2 rounded text-sm transition-colors focus:outline-none focus:ring-2 ${getButtonClasses(typography.hyphenate)}`}
+          aria-pressed={typography.hyphenate}
+        >
+          Hyphenate
+        </button>
+      </div>
+
+      {/* Margins */}
+      <div>
+        <label className={`text-sm ${getMutedClasses()} mb-2 block`}>Margins</label>
+        <div className="flex gap-2">
+          {(['narrow', 'medium', 'wide'] as const).map((m) => (
+            <button
+              key={m}
+              onClick={() => setTypography({ margins: m })}
+              className={`flex-1 py-2 rounded text-sm capitalize transition-colors focus:outline-none focus:ring-2 ${getButtonClasses(typography.margins === m)}`}
+              aria-pressed={typography.margins === m}
+            >
+              {m}
+            </button>
+          ))}
+        </div>
+      </div>
+
       {/* Line width */}
       <div>
         <label className={`text-sm ${getMutedClasses()} mb-2 block`}>Line Width</label>
@@ -244,10 +355,29 @@ export function SettingsPanel({
         </div>
       </div>
 
-      {/* Audiobook toggle */}
+      {/* Layout */}
+      <div>
+        <label className={`text-sm ${getMutedClasses()} mb-2 block`}>Layout</label>
+        <div className="flex gap-2">
+          {([['scroll', 'Scroll'], ['paginated', 'Pages']] as const).map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => setLayout(value)}
+              className={`flex-1 py-2 rounded text-sm transition-colors focus:outline-none focus:ring-2 ${getButtonClasses(layout === value)}`}
+              aria-pressed={layout === value}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Audiobook toggle, or read aloud when there's no recording */}
       <div className={`pt-4 border-t ${theme === 'dark' ? 'border-border' : 'border-amber-300/50'}`}>
-        <label className={`text-sm ${getMutedClasses()} mb-2 block`}>Audiobook</label>
-        {ownsAudiobook ? (
+        <label className={`text-sm ${getMutedClasses()} mb-2 block`}>
+          {narrationControls ? 'Read Aloud' : 'Audiobook'}
+        </label>
+        {narrationControls ? narrationControls : ownsAudiobook ? (
           <button
             onClick={() => setAudiobookMode(!audiobookMode)}
             className={`w-full py-2 px-4 rounded flex items-center justify-center gap-2 transition-colors focus:outline-none focus:ring-2 ${getButtonClasses(audiobookMode)}`}
@@ -294,6 +424,13 @@ export function SettingsPanel({
           />
         )}
       </div>
+
+      {audioDownloadControls && (
+        <div className={`pt-4 border-t ${theme === 'dark' ? 'border-border' : 'border-amber-300/50'}`}>
+          <label className={`text-sm ${getMutedClasses()} mb-2 block`}>Offline Audio</label>
+          {audioDownloadControls}
+        </div>
+      )}
     </div>
   );
 
@@ -327,7 +464,7 @@ export function SettingsPanel({
   return (
     <motion.div
       ref={panelRef}
-      className={`fixed top-16 right-6 z-50 w-80 rounded-lg shadow-xl p-4 border ${getContainerClasses()}`}
+      className={`fixed top-16 right-6 z-50 w-80 max-h-[calc(100vh-5rem)] overflow-y-auto rounded-lg shadow-xl p-4 border ${getContainerClasses()}`}
       initial={{ opacity: 0, scale: 0.95, y: -10 }}
       animate={{ opacity: 1, scale: 1, y: 0 }}
       exit={{ opacity: 0, scale: 0.95, y: -10 }}
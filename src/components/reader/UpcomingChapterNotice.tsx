@@ -0,0 +1,64 @@
+import { motion } from 'framer-motion';
+import { format } from 'date-fns';
+import { CalendarClock } from 'lucide-react';
+import type { UpcomingChapter } from '@/hooks/useBooks';
+
+interface UpcomingChapterNoticeProps {
+  theme: 'dark' | 'light' | 'sepia';
+  nextChapter: UpcomingChapter;
+  remainingCount: number;
+  isInnerCircle: boolean;
+}
+
+export function UpcomingChapterNotice({ theme, nextChapter, remainingCount, isInnerCircle }: UpcomingChapterNoticeProps) {
+  const getContainerClasses = () => {
+    switch (theme) {
+      case 'light':
+        return 'bg-amber-50/95 border-amber-200 text-amber-900';
+      case 'sepia':
+        return 'bg-amber-100/95 border-amber-300 text-amber-900';
+      default:
+        return 'bg-card border-border text-foreground';
+    }
+  };
+
+  const getMutedClasses = () => {
+    switch (theme) {
+      case 'light':
+      case 'sepia':
+        return 'text-amber-700';
+      default:
+        return 'text-muted-foreground';
+    }
+  };
+
+  const releaseDate = format(new Date(nextChapter.release_at), 'EEEE, MMMM d');
+  const earlyAccessDate = nextChapter.early_access_at
+    ? format(new Date(nextChapter.early_access_at), 'EEEE, MMMM d')
+    : null;
+
+  return (
+    <motion.div
+      className={`mt-12 p-8 rounded-lg text-center border ${getContainerClasses()}`}
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+    >
+      <CalendarClock className={`w-10 h-10 mx-auto mb-4 ${getMutedClasses()}`} aria-hidden="true" />
+      <h2 className="text-xl font-serif mb-2">You're All Caught Up</h2>
+      <p className={getMutedClasses()}>
+        {nextChapter.title} arrives on {releaseDate}.
+      </p>
+      {earlyAccessDate && (
+        <p className={`mt-2 text-sm ${getMutedClasses()}`}>
+          {isInnerCircle ? 'As an Inner Circle member, you can read it from' : 'Inner Circle members can read it from'}{' '}
+          {earlyAccessDate}.
+        </p>
+      )}
+      {remainingCount > 1 && (
+        <p className={`mt-2 text-sm ${getMutedClasses()}`}>
+          {remainingCount - 1} more {remainingCount - 1 === 1 ? 'chapter is' : 'chapters are'} on the way.
+        </p>
+      )}
+    </motion.div>
+  );
+}
@@ -17,6 +17,7 @@ interface AdminBook {
   cover_url: string | null;
   price_cents: number;
   preview_chapters: number;
+  early_access_days: number;
 }
 
 interface AdminReader {
@@ -85,7 +86,7 @@ export function useAdminBooks() {
     queryFn: async (): Promise<AdminBook[]> => {
       const { data: books, error } = await supabase
         .from('books')
-        .select('id, title, description, is_published, cover_url, price_cents, preview_chapters')
+        .select('id, title, description, is_published, cover_url, price_cents, preview_chapters, early_access_days')
         .order('title', { ascending: true });
 
       if (error) throw error;
@@ -106,6 +107,7 @@ export function useAdminBooks() {
             cover_url: book.cover_url,
             price_cents: book.price_cents ?? 0,
             preview_chapters: book.preview_chapters ?? 3,
+            early_access_days: book.early_access_days ?? 0,
             readers: count ?? 0,
           };
         })
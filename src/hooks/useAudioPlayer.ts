@@ -6,19 +6,97 @@ interface Track {
   url: string;
 }
 
-interface UseAudioPlayerOptions {
-  tracks: Track[];
+export const MIN_PLAYBACK_RATE = 0.75;
+export const MAX_PLAYBACK_RATE = 3;
+export const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 1.75, 2, 2.5, 3];
+
+// How often the position is saved while playing
+const SAVE_INTERVAL_MS = 15000;
+
+// Minutes, or 'chapter' to stop when the track playing ends
+export type SleepTimerSetting = number | 'chapter';
+
+export const SLEEP_TIMER_MINUTES = [5, 10, 15, 30, 45, 60];
+
+// Lock-screen and headset controls; only one player on the page should pass these
+interface MediaSessionOptions {
+  artist?: string;
+  album?: string;
+  artwork?: string | null;
+  onPreviousTrack?: () => void;
+  onNextTrack?: () => void;
+}
+
+interface UseAudioPlayerOptions<T extends Track> {
+  tracks: T[];
   onTimeUpdate?: (currentTime: number) => void;
+  // Called when a track finishes; return true to take over from playing the next one
+  onEnded?: (trackId: string) => boolean;
+  // Where the listener is in a track: every 15 seconds while playing, on pause,
+  // before switching tracks and when the page is hidden
+  onSavePosition?: (trackId: string, seconds: number) => void;
+  mediaSession?: MediaSessionOptions;
+  // localStorage key to remember the listener's speed under
+  playbackRateKey?: string;
   pureMode?: boolean;
 }
 
-export function useAudioPlayer({ tracks, onTimeUpdate, pureMode }: UseAudioPlayerOptions) {
+function loadPlaybackRate(key: string | undefined): number {
+  if (!key) return 1;
+  try {
+    const saved = parseFloat(localStorage.getItem(key) ?? '');
+    return saved >= MIN_PLAYBACK_RATE && saved <= MAX_PLAYBACK_RATE ? saved : 1;
+  } catch {
+    return 1;
+  }
+}
+
+export function useAudioPlayer<T extends Track>({
+  tracks,
+  onTimeUpdate,
+  onEnded,
+  onSavePosition,
+  mediaSession,
+  playbackRateKey,
+  pureMode,
+}: UseAudioPlayerOptions<T>) {
   const audioRef = useRef<HTMLAudioElement | null>(null);
+  const onTimeUpdateRef = useRef(onTimeUpdate);
+  const onEndedRef = useRef(onEnded);
+  const onSavePositionRef = useRef(onSavePosition);
+  const mediaSessionRef = useRef(mediaSession);
+  const currentTrackIdRef = useRef('');
+  // Where to start the next track once it has loaded
+  const startAtRef = useRef(0);
+  const lastSavedAtRef = useRef(0);
   const [isPlaying, setIsPlaying] = useState(false);
   const [volume, setVolume] = useState(0.5);
+  const [playbackRate, setPlaybackRateState] = useState(() => loadPlaybackRate(playbackRateKey));
   const [currentTrackId, setCurrentTrackId] = useState('');
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
+  const [sleepTimer, setSleepTimerSetting] = useState<SleepTimerSetting | null>(null);
+  const [sleepEndsAt, setSleepEndsAt] = useState<number | null>(null);
+  const [sleepRemaining, setSleepRemaining] = useState<number | null>(null);
+  const sleepTimerRef = useRef(sleepTimer);
+
+  useEffect(() => {
+    onTimeUpdateRef.current = onTimeUpdate;
+    onEndedRef.current = onEnded;
+    onSavePositionRef.current = onSavePosition;
+    mediaSessionRef.current = mediaSession;
+    currentTrackIdRef.current = currentTrackId;
+    sleepTimerRef.current = sleepTimer;
+  });
+
+  const savePosition = useCallback((seconds?: number) => {
+    const audio = audioRef.current;
+    const trackId = currentTrackIdRef.current;
+    lastSavedAtRef.current = Date.now();
+    // Nothing to save until the track has loaded and any resume seek has happened
+    if (!audio?.src || !trackId || startAtRef.current > 0) return;
+    onSavePositionRef.current?.(trackId, seconds ?? audio.currentTime);
+  }, []);
 
   // Update currentTrackId when tracks array changes (handles dynamic loading)
   useEffect(() => {
@@ -34,48 +112,73 @@ export function useAudioPlayer({ tracks, onTimeUpdate, pureMode }: UseAudioPlaye
   useEffect(() => {
     audioRef.current = new Audio();
     audioRef.current.volume = volume;
-    
+
     const audio = audioRef.current;
-    
+
     const handleTimeUpdate = () => {
       setCurrentTime(audio.currentTime);
-      onTimeUpdate?.(audio.currentTime);
+      onTimeUpdateRef.current?.(audio.currentTime);
+      if (!audio.paused && Date.now() - lastSavedAtRef.current >= SAVE_INTERVAL_MS) {
+        savePosition();
+      }
     };
-    
+
     const handleLoadedMetadata = () => {
       setDuration(audio.duration);
+      if (startAtRef.current > 0) {
+        audio.currentTime = Math.min(startAtRef.current, audio.duration || startAtRef.current);
+        startAtRef.current = 0;
+      }
     };
-    
+
     const handleEnded = () => {
+      // A finished track starts from the top next time
+      savePosition(0);
+      if (sleepTimerRef.current === 'chapter') {
+        setSleepTimerSetting(null);
+        setIsPlaying(false);
+        return;
+      }
+      if (onEndedRef.current?.(currentTrackIdRef.current)) return;
       // Play next track if available
-      const currentIndex = tracks.findIndex(t => t.id === currentTrackId);
+      const currentIndex = tracks.findIndex(t => t.id === currentTrackIdRef.current);
       if (currentIndex < tracks.length - 1) {
         setCurrentTrackId(tracks[currentIndex + 1].id);
       } else {
         setIsPlaying(false);
       }
     };
-    
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden' && !audio.paused) savePosition();
+    };
+
     audio.addEventListener('timeupdate', handleTimeUpdate);
     audio.addEventListener('loadedmetadata', handleLoadedMetadata);
     audio.addEventListener('ended', handleEnded);
-    
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
     return () => {
       audio.removeEventListener('timeupdate', handleTimeUpdate);
       audio.removeEventListener('loadedmetadata', handleLoadedMetadata);
       audio.removeEventListener('ended', handleEnded);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      if (!audio.paused) savePosition();
       audio.pause();
       audioRef.current = null;
     };
-  }, [tracks, onTimeUpdate]);
+  }, [tracks, savePosition]);
 
   // Load track when it changes
   useEffect(() => {
     if (!audioRef.current) return;
-    
+
     const track = tracks.find(t => t.id === currentTrackId);
     if (track) {
       audioRef.current.src = track.url;
+      // Loading a new source resets the rate to the default
+      audioRef.current.defaultPlaybackRate = playbackRate;
+      audioRef.current.playbackRate = playbackRate;
       if (isPlaying) {
         audioRef.current.play().catch(console.error);
       }
@@ -97,6 +200,30 @@ export function useAudioPlayer({ tracks, onTimeUpdate, pureMode }: UseAudioPlaye
     }
   }, [volume]);
 
+  useEffect(() => {
+    if (audioRef.current) {
+      audioRef.current.defaultPlaybackRate = playbackRate;
+      audioRef.current.playbackRate = playbackRate;
+    }
+  }, [playbackRate]);
+
+  // Count down a timed sleep setting, pausing when it runs out
+  useEffect(() => {
+    if (sleepEndsAt === null) return;
+    const intervalId = setInterval(() => {
+      const left = Math.max(0, Math.round((sleepEndsAt - Date.now()) / 1000));
+      setSleepRemaining(left);
+      if (left > 0) return;
+      setSleepTimerSetting(null);
+      setSleepEndsAt(null);
+      setSleepRemaining(null);
+      audioRef.current?.pause();
+      setIsPlaying(false);
+      savePosition();
+    }, 1000);
+    return () => clearInterval(intervalId);
+  }, [sleepEndsAt, savePosition]);
+
   const play = useCallback(() => {
     audioRef.current?.play().catch(console.error);
     setIsPlaying(true);
@@ -105,7 +232,8 @@ export function useAudioPlayer({ tracks, onTimeUpdate, pureMode }: UseAudioPlaye
   const pause = useCallback(() => {
     audioRef.current?.pause();
     setIsPlaying(false);
-  }, []);
+    savePosition();
+  }, [savePosition]);
 
   const togglePlayPause = useCallback(() => {
     if (isPlaying) {
@@ -122,17 +250,118 @@ export function useAudioPlayer({ tracks, onTimeUpdate, pureMode }: UseAudioPlaye
     }
   }, []);
 
-  const changeTrack = useCallback((trackId: string) => {
+  // Jump back (negative) or ahead by a number of seconds
+  const skip = useCallback((seconds: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    const target = Math.max(0, audio.currentTime + seconds);
+    seek(Number.isFinite(audio.duration) ? Math.min(target, audio.duration) : target);
+  }, [seek]);
+
+  // Switch tracks, optionally starting partway in
+  const changeTrack = useCallback((trackId: string, startAt = 0) => {
+    if (trackId === currentTrackIdRef.current && audioRef.current?.src) {
+      audioRef.current.currentTime = startAt;
+      setCurrentTime(startAt);
+      return;
+    }
+    savePosition();
+    startAtRef.current = startAt;
+    currentTrackIdRef.current = trackId;
     setCurrentTrackId(trackId);
-  }, []);
+  }, [savePosition]);
 
   const changeVolume = useCallback((newVolume: number) => {
     setVolume(Math.max(0, Math.min(1, newVolume)));
   }, []);
 
+  const setPlaybackRate = useCallback((rate: number) => {
+    const clamped = Math.max(MIN_PLAYBACK_RATE, Math.min(MAX_PLAYBACK_RATE, rate));
+    setPlaybackRateState(clamped);
+    if (!playbackRateKey) return;
+    try {
+      localStorage.setItem(playbackRateKey, String(clamped));
+    } catch {
+      // Ignore localStorage errors
+    }
+  }, [playbackRateKey]);
+
+  // Start, replace or (with null) cancel the sleep timer
+  const setSleepTimer = useCallback((setting: SleepTimerSetting | null) => {
+    setSleepTimerSetting(setting);
+    const minutes = typeof setting === 'number' ? setting : null;
+    setSleepEndsAt(minutes !== null ? Date.now() + minutes * 60000 : null);
+    setSleepRemaining(minutes !== null ? minutes * 60 : null);
+  }, []);
+
+  const currentTrack = tracks.find(t => t.id === currentTrackId);
+  const hasMediaSession = !!mediaSession && 'mediaSession' in navigator;
+
+  // Lock-screen metadata for the track playing
+  useEffect(() => {
+    if (!hasMediaSession || !currentTrack) return;
+    const { artist, album, artwork } = mediaSessionRef.current ?? {};
+    navigator.mediaSession.metadata = new MediaMetadata({
+      title: currentTrack.name,
+      artist,
+      album,
+      artwork: artwork ? [{ src: artwork }] : [],
+    });
+  }, [hasMediaSession, currentTrack, mediaSession?.artist, mediaSession?.album, mediaSession?.artwork]);
+
+  // Lock-screen and headset buttons
+  useEffect(() => {
+    if (!hasMediaSession) return;
+    const session = navigator.mediaSession;
+    const handlers: Array<[MediaSessionAction, MediaSessionActionHandler]> = [
+      ['play', () => play()],
+      ['pause', () => pause()],
+      ['seekbackward', (details) => skip(-(details.seekOffset ?? 15))],
+      ['seekforward', (details) => skip(details.seekOffset ?? 30)],
+      ['seekto', (details) => {
+        if (details.seekTime !== undefined) seek(details.seekTime);
+      }],
+      ['previoustrack', () => mediaSessionRef.current?.onPreviousTrack?.()],
+      ['nexttrack', () => mediaSessionRef.current?.onNextTrack?.()],
+    ];
+    for (const [action, handler] of handlers) {
+      try {
+        session.setActionHandler(action, handler);
+      } catch {
+        // Not every browser supports every action
+      }
+    }
+    return () => {
+      for (const [action] of handlers) {
+        try {
+          session.setActionHandler(action, null);
+        } catch {
+          // Not every browser supports every action
+        }
+      }
+    };
+  }, [hasMediaSession, play, pause, skip, seek]);
+
+  useEffect(() => {
+    if (!hasMediaSession) return;
+    navigator.mediaSession.playbackState = isPlaying ? 'playing' : 'paused';
+    if (duration > 0 && Number.isFinite(duration)) {
+      try {
+        navigator.mediaSession.setPositionState({
+          duration,
+          playbackRate,
+          position: Math.min(audioRef.current?.currentTime ?? 0, duration),
+        });
+      } catch {
+        // Ignore position states the browser rejects
+      }
+    }
+  }, [hasMediaSession, isPlaying, duration, playbackRate, currentTrackId]);
+
   return {
     isPlaying,
     volume,
+    playbackRate,
     currentTrackId,
     currentTime,
     duration,
@@ -140,8 +369,14 @@ export function useAudioPlayer({ tracks, onTimeUpdate, pureMode }: UseAudioPlaye
     pause,
     togglePlayPause,
     seek,
+    skip,
     changeTrack,
     changeVolume,
-    currentTrack: tracks.find(t => t.id === currentTrackId),
+    setPlaybackRate,
+    sleepTimer,
+    // Seconds left on a timed sleep setting
+    sleepRemaining,
+    setSleepTimer,
+    currentTrack,
   };
 }
@@ -0,0 +1,64 @@
+import { useCallback } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { queueOfflineAction } from '@/lib/offlineStorage';
+
+// Saved listening positions for a book's audiobook tracks, by track id
+export function useAudioPositions(bookId: string | undefined, trackIds: string[]) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ['audio-positions', user?.id, bookId];
+
+  const { data: positions = {} } = useQuery({
+    queryKey,
+    queryFn: async (): Promise<Record<string, number>> => {
+      const { data, error } = await supabase
+        .from('audio_positions')
+        .select('audio_id, position_seconds')
+        .in('audio_id', trackIds);
+
+      if (error) throw error;
+      return Object.fromEntries((data ?? []).map(p => [p.audio_id, Number(p.position_seconds)]));
+    },
+    enabled: !!user?.id && trackIds.length > 0,
+  });
+
+  const savePosition = useMutation({
+    mutationFn: async ({ audioId, seconds }: { audioId: string; seconds: number }) => {
+      if (!user?.id) throw new Error('Not authenticated');
+
+      const record = {
+        user_id: user.id,
+        audio_id: audioId,
+        position_seconds: Math.max(0, Math.round(seconds * 10) / 10),
+        updated_at: new Date().toISOString(),
+      };
+
+      if (!navigator.onLine) {
+        await queueOfflineAction('audio_position', record);
+        return;
+      }
+
+      const { error } = await supabase
+        .from('audio_positions')
+        .upsert(record, { onConflict: 'user_id,audio_id' });
+
+      if (error) throw error;
+    },
+    onMutate: ({ audioId, seconds }) => {
+      queryClient.setQueryData<Record<string, number>>(queryKey, (current) => ({ ...current, [audioId]: seconds }));
+    },
+  });
+
+  const { mutate } = savePosition;
+  const save = useCallback(
+    (audioId: string, seconds: number) => mutate({ audioId, seconds }),
+    [mutate]
+  );
+
+  return {
+    positions,
+    savePosition: save,
+  };
+}
@@ -1,61 +1,94 @@
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import { toSyncMap, type SyncPoint } from '@/lib/audioSync';
+import { getCachedAudio } from '@/lib/offlineStorage';
 
-interface AudioTrack {
+export interface AudioTrack {
   id: string;
   name: string;
   url: string;
+  // Audiobook tracks: the chapter narrated and its read-along timings
+  chapterId: string | null;
+  durationSeconds: number | null;
+  syncMap: SyncPoint[] | null;
 }
 
+const NO_TRACKS: AudioTrack[] = [];
+
 interface BookAudioData {
   soundtrackTracks: AudioTrack[];
   audiobookTracks: AudioTrack[];
   isLoading: boolean;
 }
 
+// A book's enabled tracks by kind; also used to download audio for offline listening
+export async function fetchBookAudio(bookId: string | undefined): Promise<{ soundtrack: AudioTrack[]; audiobook: AudioTrack[] }> {
+  if (!bookId) return { soundtrack: [], audiobook: [] };
+
+  // Offline, only the tracks downloaded to the device can play
+  if (!navigator.onLine) {
+    const cached = await getCachedAudio(bookId);
+    const toTrack = (audio: (typeof cached)[number]): AudioTrack => ({
+      id: audio.id,
+      name: audio.name ?? 'Untitled track',
+      url: audio.url,
+      chapterId: audio.chapterId ?? null,
+      durationSeconds: audio.durationSeconds ?? null,
+      syncMap: audio.syncMap ?? null,
+    });
+    return {
+      soundtrack: cached.filter(a => a.type === 'soundtrack').map(toTrack),
+      audiobook: cached.filter(a => a.type === 'audiobook').map(toTrack),
+    };
+  }
+
+  const { data: audioData, error } = await supabase
+    .from('book_audio')
+    .select('id, title, file_url, type, sort_order, chapter_id, duration_seconds, sync_map')
+    .eq('book_id', bookId)
+    .eq('is_enabled', true)
+    .order('sort_order', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching book audio:', error);
+    return { soundtrack: [], audiobook: [] };
+  }
+
+  const soundtrack: AudioTrack[] = [];
+  const audiobook: AudioTrack[] = [];
+
+  for (const track of audioData || []) {
+    const formatted = {
+      id: track.id,
+      name: track.title,
+      url: track.file_url,
+      chapterId: track.chapter_id,
+      durationSeconds: track.duration_seconds,
+      syncMap: toSyncMap(track.sync_map),
+    };
+
+    if (track.type === 'soundtrack') {
+      soundtrack.push(formatted);
+    } else if (track.type === 'audiobook') {
+      audiobook.push(formatted);
+    }
+  }
+
+  return { soundtrack, audiobook };
+}
+
 export function useBookAudio(bookId: string | undefined): BookAudioData {
   const { data, isLoading } = useQuery({
     queryKey: ['book-audio', bookId],
-    queryFn: async () => {
-      if (!bookId) return { soundtrack: [], audiobook: [] };
-
-      const { data: audioData, error } = await supabase
-        .from('book_audio')
-        .select('id, title, file_url, type, sort_order')
-        .eq('book_id', bookId)
-        .eq('is_enabled', true)
-        .order('sort_order', { ascending: true });
-
-      if (error) {
-        console.error('Error fetching book audio:', error);
-        return { soundtrack: [], audiobook: [] };
-      }
-
-      const soundtrack: AudioTrack[] = [];
-      const audiobook: AudioTrack[] = [];
-
-      for (const track of audioData || []) {
-        const formatted = {
-          id: track.id,
-          name: track.title,
-          url: track.file_url,
-        };
-
-        if (track.type === 'soundtrack') {
-          soundtrack.push(formatted);
-        } else if (track.type === 'audiobook') {
-          audiobook.push(formatted);
-        }
-      }
-
-      return { soundtrack, audiobook };
-    },
+    queryFn: () => fetchBookAudio(bookId),
     enabled: !!bookId,
+    // Run while offline too, so downloaded tracks are found; reconnecting refetches
+    networkMode: 'always',
   });
 
   return {
-    soundtrackTracks: data?.soundtrack || [],
-    audiobookTracks: data?.audiobook || [],
+    soundtrackTracks: data?.soundtrack || NO_TRACKS,
+    audiobookTracks: data?.audiobook || NO_TRACKS,
     isLoading,
   };
 }
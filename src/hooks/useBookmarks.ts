@@ -1,60 +1,142 @@
-import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { queueOfflineAction } from '@/lib/offlineStorage';
+import { applySyncOperation } from '@/lib/syncOperations';
 import { toast } from 'sonner';
 
+export interface BookBookmark {
+  id: string;
+  chapter_id: string;
+  // Character offset into the chapter's plain text, like highlight positions
+  position: number;
+  note: string | null;
+  created_at: string | null;
+}
+
+// The reader's bookmarks in one book
+export function useBookBookmarks(bookId: string | undefined) {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['bookmarks', bookId, user?.id],
+    queryFn: async (): Promise<BookBookmark[]> => {
+      if (!bookId || !user?.id) return [];
+
+      const { data, error } = await supabase
+        .from('bookmarks')
+        .select('id, chapter_id, position, note, created_at, chapters!inner(book_id)')
+        .eq('user_id', user.id)
+        .eq('chapters.book_id', bookId)
+        .order('position');
+
+      if (error) throw error;
+
+      return (data ?? []).map(b => ({
+        id: b.id,
+        chapter_id: b.chapter_id,
+        position: b.position,
+        note: b.note,
+        created_at: b.created_at,
+      }));
+    },
+    enabled: !!bookId && !!user?.id,
+    staleTime: 60000,
+  });
+}
+
 export function useBookmarkMutations(bookId: string | undefined) {
   const { user } = useAuth();
   const queryClient = useQueryClient();
+  const queryKey = ['bookmarks', bookId, user?.id];
+
+  const setBookmarks = (update: (bookmarks: BookBookmark[]) => BookBookmark[]) => {
+    queryClient.setQueryData<BookBookmark[]>(queryKey, (current) => update(current ?? []));
+  };
+
+  // Write a bookmark through the server's merge, or queue it for useOfflineSync
+  // while offline. The op tells the merge a new bookmark from an edit to one
+  // that may be gone
+  const saveBookmark = async (bookmark: BookBookmark, op: 'create' | 'update') => {
+    if (!user?.id) throw new Error('Not authenticated');
+
+    const record = {
+      id: bookmark.id,
+      user_id: user.id,
+      chapter_id: bookmark.chapter_id,
+      position: bookmark.position,
+      note: bookmark.note,
+      updated_at: new Date().toISOString(),
+    };
+
+    if (!navigator.onLine) {
+      await queueOfflineAction('bookmark', { ...record, op });
+      return;
+    }
+
+    const { applied } = await applySyncOperation('bookmark', { ...record, op });
+    // A newer change from another device won; show what the server has
+    if (!applied) queryClient.invalidateQueries({ queryKey });
+  };
 
   const addBookmark = useMutation({
     mutationFn: async ({ chapterId, position, note }: { chapterId: string; position: number; note?: string }) => {
-      if (!user?.id) throw new Error('Not authenticated');
-      
-      const { error } = await supabase
-        .from('bookmarks')
-        .insert({
-          user_id: user.id,
-          chapter_id: chapterId,
-          position,
-          note,
-        });
-
-      if (error) throw error;
+      const bookmark: BookBookmark = {
+        id: crypto.randomUUID(),
+        chapter_id: chapterId,
+        position,
+        note: note || null,
+        created_at: new Date().toISOString(),
+      };
+      setBookmarks(bookmarks => [...bookmarks, bookmark]);
+      await saveBookmark(bookmark, 'create');
+      return bookmark;
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['chapters', bookId] });
-      queryClient.invalidateQueries({ queryKey: ['bookmarks'] });
       toast.success('Bookmark added');
     },
     onError: () => {
+      queryClient.invalidateQueries({ queryKey });
       toast.error('Failed to add bookmark');
     },
   });
 
+  const updateBookmark = useMutation({
+    mutationFn: async ({ bookmark, note }: { bookmark: BookBookmark; note: string }) => {
+      const updated = { ...bookmark, note: note || null };
+      setBookmarks(bookmarks => bookmarks.map(b => (b.id === updated.id ? updated : b)));
+      await saveBookmark(updated, 'update');
+    },
+    onError: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast.error('Failed to update bookmark');
+    },
+  });
+
   const removeBookmark = useMutation({
-    mutationFn: async ({ chapterId }: { chapterId: string }) => {
+    mutationFn: async ({ id }: { id: string }) => {
       if (!user?.id) throw new Error('Not authenticated');
-      
-      const { error } = await supabase
-        .from('bookmarks')
-        .delete()
-        .eq('user_id', user.id)
-        .eq('chapter_id', chapterId);
 
-      if (error) throw error;
+      setBookmarks(bookmarks => bookmarks.filter(b => b.id !== id));
+
+      if (!navigator.onLine) {
+        await queueOfflineAction('bookmark', { id, user_id: user.id, op: 'delete' });
+        return;
+      }
+
+      const { applied } = await applySyncOperation('bookmark', { id, user_id: user.id, op: 'delete' });
+      if (!applied) queryClient.invalidateQueries({ queryKey });
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['chapters', bookId] });
-      queryClient.invalidateQueries({ queryKey: ['bookmarks'] });
       toast.success('Bookmark removed');
     },
     onError: () => {
+      queryClient.invalidateQueries({ queryKey });
       toast.error('Failed to remove bookmark');
     },
   });
 
-  return { addBookmark, removeBookmark };
+  return { addBookmark, updateBookmark, removeBookmark };
 }
 
 export function useUserBookmarks() {
@@ -1,6 +1,10 @@
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
 import { useAuth } from '@/contexts/AuthContext';
+import { isChapterReleased } from '@/lib/chapterRelease';
+import { cacheProgress, getCachedAudio, getCachedChapters, getCachedProgress } from '@/lib/offlineStorage';
+import type { RemoteProgress } from '@/hooks/useOfflineSync';
 
 export interface Book {
   id: string;
@@ -10,6 +14,7 @@ export interface Book {
   cover_url: string | null;
   price_cents: number;
   preview_chapters: number;
+  early_access_days: number;
   is_published: boolean;
   published_at: string | null;
   metadata: unknown;
@@ -94,96 +99,206 @@ export function useBooks() {
   });
 }
 
-export function useBookChapters(bookId: string | undefined) {
-  const { user, subscriptionStatus, isAdmin } = useAuth();
-  const hasActiveSubscription = subscriptionStatus?.subscribed ?? false;
+export interface UpcomingChapter {
+  id: string;
+  title: string;
+  chapter_order: number;
+  release_at: string;
+  early_access_at: string | null;
+}
 
-  return useQuery({
-    queryKey: ['chapters', bookId, user?.id, hasActiveSubscription, isAdmin],
-    queryFn: async () => {
-      if (!bookId) return { chapters: [], owned: false, hasAudio: false, progress: null, bookmarks: [], allChaptersCount: 0 };
-
-      // Admins always have access
-      let owned = hasActiveSubscription || isAdmin;
-      let hasAudio = isAdmin; // Admins get all audio by default
-
-      if (user?.id) {
-        const { data: purchase } = await supabase
-          .from('purchases')
-          .select('id')
-          .eq('user_id', user.id)
-          .eq('book_id', bookId)
-          .single();
-
-        if (purchase) {
-          owned = true;
-        }
-
-        // Check for audio purchases for this book
-        const { data: bookAudio } = await supabase
-          .from('book_audio')
-          .select('id')
-          .eq('book_id', bookId);
-
-        if (bookAudio && bookAudio.length > 0) {
-          const audioIds = bookAudio.map(a => a.id);
-          const { data: audioPurchases } = await supabase
-            .from('audio_purchases')
-            .select('audio_id')
-            .eq('user_id', user.id)
-            .in('audio_id', audioIds);
-
-          hasAudio = hasAudio || (audioPurchases && audioPurchases.length > 0);
-        }
-      }
+// The encrypted copy Reader.tsx keeps in IndexedDB, shaped like the online result
+async function getOfflineBookChapters(bookId: string, userId: string | undefined) {
+  const cached = await getCachedChapters(bookId, userId ?? '');
+  const audio = await getCachedAudio(bookId);
+  const cachedProgress = await getCachedProgress(bookId, userId ?? '');
+  const chapters: Tables<'chapters'>[] = cached
+    .sort((a, b) => a.chapterOrder - b.chapterOrder)
+    .map(c => ({
+      id: c.id,
+      book_id: c.bookId,
+      title: c.title,
+      content: c.content,
+      chapter_order: c.chapterOrder,
+      word_count: c.wordCount,
+      anchor_id: null,
+      is_preview: null,
+      release_at: null,
+      created_at: null,
+      updated_at: null,
+    }));
 
-      // Fetch chapters
-      const { data: chapters, error } = await supabase
-        .from('chapters')
-        .select('*')
-        .eq('book_id', bookId)
-        .order('chapter_order', { ascending: true });
-
-      if (error) throw error;
-
-      // If not owned, filter to preview chapters only
-      const accessibleChapters = owned
-        ? chapters
-        : chapters?.filter(c => c.is_preview);
-
-      // Fetch reading progress
-      let progress = null;
-      if (user?.id) {
-        const { data: progressData } = await supabase
-          .from('reading_progress')
-          .select('*')
-          .eq('user_id', user.id)
-          .eq('book_id', bookId)
-          .single();
-
-        progress = progressData;
-      }
+  return {
+    chapters,
+    allChaptersCount: chapters.length,
+    chapterWeights: chapters.map(c => ({ id: c.id, word_count: c.word_count })),
+    upcomingChapters: [] as UpcomingChapter[],
+    // Chapters are only cached under a license, which only readers with access get
+    owned: chapters.length > 0,
+    // Only audio the reader owned could have been downloaded
+    hasAudio: audio.length > 0,
+    progress: cachedProgress ? {
+      chapter_id: cachedProgress.chapterId,
+      chapter_position: cachedProgress.chapterPosition,
+      chapter_percent: cachedProgress.chapterPercent,
+      progress_percent: cachedProgress.progressPercent,
+      last_read_at: cachedProgress.lastReadAt,
+    } : null,
+    remoteProgress: null,
+    offline: true,
+  };
+}
 
-      // Fetch bookmarks
-      let bookmarks: string[] = [];
-      if (user?.id) {
-        const { data: bookmarkData } = await supabase
-          .from('bookmarks')
-          .select('chapter_id')
-          .eq('user_id', user.id);
+// Who is asking, which decides the chapters they can read
+export interface ChapterAccess {
+  userId: string | undefined;
+  hasActiveSubscription: boolean;
+  isInnerCircle: boolean;
+  isAdmin: boolean;
+}
 
-        bookmarks = bookmarkData?.map(b => b.chapter_id) ?? [];
-      }
+// A book's readable chapters with the reader's ownership and progress; also
+// used to download books for offline reading
+export async function fetchBookChapters(
+  bookId: string | undefined,
+  { userId, hasActiveSubscription, isInnerCircle, isAdmin }: ChapterAccess
+) {
+  if (!bookId) return { chapters: [], owned: false, hasAudio: false, progress: null, remoteProgress: null, allChaptersCount: 0, chapterWeights: [], upcomingChapters: [] as UpcomingChapter[], offline: false };
+
+  if (!navigator.onLine) {
+    return getOfflineBookChapters(bookId, userId);
+  }
+
+  // Admins always have access
+  let owned = hasActiveSubscription || isAdmin;
+  let hasAudio = isAdmin; // Admins get all audio by default
 
-      return {
-        chapters: accessibleChapters ?? [],
-        allChaptersCount: chapters?.length ?? 0,
-        owned,
-        hasAudio,
-        progress,
-        bookmarks,
+  if (userId) {
+    const { data: purchase } = await supabase
+      .from('purchases')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('book_id', bookId)
+      .single();
+
+    if (purchase) {
+      owned = true;
+    }
+
+    // Check for audio purchases for this book
+    const { data: bookAudio } = await supabase
+      .from('book_audio')
+      .select('id')
+      .eq('book_id', bookId);
+
+    if (bookAudio && bookAudio.length > 0) {
+      const audioIds = bookAudio.map(a => a.id);
+      const { data: audioPurchases } = await supabase
+        .from('audio_purchases')
+        .select('audio_id')
+        .eq('user_id', userId)
+        .in('audio_id', audioIds);
+
+      hasAudio = hasAudio || (audioPurchases && audioPurchases.length > 0);
+    }
+  }
+
+  // Fetch chapters
+  const { data: chapters, error } = await supabase
+    .from('chapters')
+    .select('*')
+    .eq('book_id', bookId)
+    .order('chapter_order', { ascending: true });
+
+  if (error) throw error;
+
+  // RLS already withholds unreleased chapters; the same rule is applied here
+  // so the reader never relies on the policy alone
+  const { data: book } = await supabase
+    .from('books')
+    .select('early_access_days')
+    .eq('id', bookId)
+    .single();
+
+  const releaseAccess = { isAdmin, isInnerCircle, earlyAccessDays: book?.early_access_days ?? 0 };
+  const releasedChapters = chapters?.filter(c => isChapterReleased(c.release_at, releaseAccess));
+
+  // If not owned, filter to preview chapters only
+  const accessibleChapters = owned
+    ? releasedChapters
+    : releasedChapters?.filter(c => c.is_preview);
+
+  // Titles and dates of scheduled chapters, for the "next chapter" notice
+  const { data: upcoming } = await supabase.rpc('get_upcoming_chapters', { _book_id: bookId });
+  const upcomingChapters: UpcomingChapter[] = upcoming ?? [];
+
+  // Fetch reading progress. This device reopens where it was left; a different
+  // position saved later on another device is offered, not jumped to
+  let progress = null;
+  let remoteProgress: RemoteProgress | null = null;
+  if (userId) {
+    const { data: progressData } = await supabase
+      .from('reading_progress')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('book_id', bookId)
+      .single();
+
+    const cachedProgress = await getCachedProgress(bookId, userId);
+    progress = progressData;
+    if (progressData?.chapter_id && cachedProgress?.chapterId
+      && Date.parse(progressData.last_read_at ?? '') > Date.parse(cachedProgress.lastReadAt ?? '')
+      && (progressData.chapter_id !== cachedProgress.chapterId
+        || progressData.chapter_position !== cachedProgress.chapterPosition)) {
+      progress = {
+        ...progressData,
+        chapter_id: cachedProgress.chapterId,
+        chapter_position: cachedProgress.chapterPosition,
+        chapter_percent: cachedProgress.chapterPercent,
+        progress_percent: cachedProgress.progressPercent,
       };
-    },
+      remoteProgress = {
+        chapterId: progressData.chapter_id,
+        chapterPosition: progressData.chapter_position,
+        progressPercent: Number(progressData.progress_percent ?? 0),
+      };
+    } else if (progressData && !cachedProgress) {
+      cacheProgress({
+        userId,
+        bookId,
+        chapterId: progressData.chapter_id,
+        chapterPosition: progressData.chapter_position,
+        chapterPercent: progressData.chapter_percent,
+        progressPercent: progressData.progress_percent,
+        lastReadAt: progressData.last_read_at,
+      }).catch(console.error);
+    }
+  }
+
+  return {
+    chapters: accessibleChapters ?? [],
+    allChaptersCount: releasedChapters?.length ?? 0,
+    // Every released chapter, owned or not, so book progress covers the whole book
+    chapterWeights: releasedChapters?.map(c => ({ id: c.id, word_count: c.word_count })) ?? [],
+    upcomingChapters,
+    owned,
+    hasAudio,
+    progress,
+    remoteProgress,
+    offline: false,
+  };
+}
+
+export function useBookChapters(bookId: string | undefined) {
+  const { user, subscriptionStatus, isAdmin } = useAuth();
+  const hasActiveSubscription = subscriptionStatus?.subscribed ?? false;
+  const isInnerCircle = hasActiveSubscription && subscriptionStatus?.subscription_tier === 'inner_circle';
+
+  return useQuery({
+    queryKey: ['chapters', bookId, user?.id, hasActiveSubscription, isInnerCircle, isAdmin],
+    queryFn: () => fetchBookChapters(bookId, { userId: user?.id, hasActiveSubscription, isInnerCircle, isAdmin }),
     enabled: !!bookId,
+    // Run while offline too, so the cached copy can be served; reconnecting refetches
+    networkMode: 'always',
   });
 }
@@ -107,93 +107,42 @@ export function useContentProtection(enabled: boolean = true) {
 }
 
 /**
- * Simple encryption for offline content storage.
- * Uses Web Crypto API with a user-derived key.
+ * Encryption for offline content storage.
+ * Uses Web Crypto AES-GCM with a book's licensed content key.
  */
-export async function encryptContent(content: string, userKey: string): Promise<string> {
+export async function encryptContent(content: string, key: CryptoKey): Promise<string> {
   const encoder = new TextEncoder();
-  const data = encoder.encode(content);
-  
-  // Derive a key from the user ID
-  const keyMaterial = await crypto.subtle.importKey(
-    'raw',
-    encoder.encode(userKey),
-    'PBKDF2',
-    false,
-    ['deriveBits', 'deriveKey']
-  );
-  
-  // Generate a salt and IV
-  const salt = crypto.getRandomValues(new Uint8Array(16));
   const iv = crypto.getRandomValues(new Uint8Array(12));
   
-  // Derive the actual encryption key
-  const key = await crypto.subtle.deriveKey(
-    {
-      name: 'PBKDF2',
-      salt,
-      iterations: 100000,
-      hash: 'SHA-256',
-    },
-    keyMaterial,
-    { name: 'AES-GCM', length: 256 },
-    false,
-    ['encrypt']
-  );
-  
-  // Encrypt the content
   const encrypted = await crypto.subtle.encrypt(
     { name: 'AES-GCM', iv },
     key,
-    data
+    encoder.encode(content)
   );
   
-  // Combine salt + iv + encrypted data and convert to base64
-  const combined = new Uint8Array(salt.length + iv.length + encrypted.byteLength);
-  combined.set(salt, 0);
-  combined.set(iv, salt.length);
-  combined.set(new Uint8Array(encrypted), salt.length + iv.length);
+  // Combine iv + encrypted data and convert to base64
+  const combined = new Uint8Array(iv.length + encrypted.byteLength);
+  combined.set(iv, 0);
+  combined.set(new Uint8Array(encrypted), iv.length);
   
-  return btoa(String.fromCharCode(...combined));
+  // Spread a chunk at a time; a whole chapter overflows the call stack
+  let binary = '';
+  for (let i = 0; i < combined.length; i += 0x8000) {
+    binary += String.fromCharCode(...combined.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
 }
 
-export async function decryptContent(encryptedData: string, userKey: string): Promise<string> {
-  const encoder = new TextEncoder();
+export async function decryptContent(encryptedData: string, key: CryptoKey): Promise<string> {
   const decoder = new TextDecoder();
   
   // Decode from base64
-  const combined = new Uint8Array(
-    atob(encryptedData).split('').map(c => c.charCodeAt(0))
-  );
-  
-  // Extract salt, iv, and encrypted content
-  const salt = combined.slice(0, 16);
-  const iv = combined.slice(16, 28);
-  const data = combined.slice(28);
+  const combined = Uint8Array.from(atob(encryptedData), c => c.charCodeAt(0));
   
-  // Derive the key
-  const keyMaterial = await crypto.subtle.importKey(
-    'raw',
-    encoder.encode(userKey),
-    'PBKDF2',
-    false,
-    ['deriveBits', 'deriveKey']
-  );
-  
-  const key = await crypto.subtle.deriveKey(
-    {
-      name: 'PBKDF2',
-      salt,
-      iterations: 100000,
-      hash: 'SHA-256',
-    },
-    keyMaterial,
-    { name: 'AES-GCM', length: 256 },
-    false,
-    ['decrypt']
-  );
+  // Extract iv and encrypted content
+  const iv = combined.slice(0, 12);
+  const data = combined.slice(12);
   
-  // Decrypt
   const decrypted = await crypto.subtle.decrypt(
     { name: 'AES-GCM', iv },
     key,
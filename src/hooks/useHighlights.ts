@@ -0,0 +1,169 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { queueOfflineAction } from '@/lib/offlineStorage';
+import { applySyncOperation } from '@/lib/syncOperations';
+import type { HighlightColor } from '@/lib/highlights';
+import { toast } from 'sonner';
+
+export interface BookHighlight {
+  id: string;
+  chapter_id: string;
+  start_position: number;
+  end_position: number;
+  text_content: string | null;
+  note: string | null;
+  color: string | null;
+  // Its passage was lost in a revision of the chapter; listed, not drawn
+  is_orphaned: boolean;
+  created_at: string | null;
+}
+
+// All of the reader's highlights in a book, in reading order within each chapter
+export function useBookHighlights(bookId: string | undefined) {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['highlights', bookId, user?.id],
+    queryFn: async (): Promise<BookHighlight[]> => {
+      if (!bookId || !user?.id) return [];
+
+      const { data, error } = await supabase
+        .from('highlights')
+        .select('id, chapter_id, start_position, end_position, text_content, note, color, is_orphaned, created_at, chapters!inner(book_id)')
+        .eq('user_id', user.id)
+        .eq('chapters.book_id', bookId)
+        .order('start_position');
+
+      if (error) throw error;
+
+      return (data ?? []).map(h => ({
+        id: h.id,
+        chapter_id: h.chapter_id,
+        start_position: h.start_position,
+        end_position: h.end_position,
+        text_content: h.text_content,
+        note: h.note,
+        color: h.color,
+        is_orphaned: h.is_orphaned,
+        created_at: h.created_at,
+      }));
+    },
+    enabled: !!bookId && !!user?.id,
+    staleTime: 60000,
+  });
+}
+
+export function useHighlightMutations(bookId: string | undefined) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ['highlights', bookId, user?.id];
+
+  const setHighlights = (update: (highlights: BookHighlight[]) => BookHighlight[]) => {
+    queryClient.setQueryData<BookHighlight[]>(queryKey, (current) => update(current ?? []));
+  };
+
+  // Write a highlight through the server's merge, or queue it for useOfflineSync
+  // while offline. The op tells the merge a new highlight from an edit to one
+  // that may be gone
+  const saveHighlight = async (highlight: BookHighlight, op: 'create' | 'update') => {
+    if (!user?.id) throw new Error('Not authenticated');
+
+    const record = {
+      id: highlight.id,
+      user_id: user.id,
+      chapter_id: highlight.chapter_id,
+      start_position: highlight.start_position,
+      end_position: highlight.end_position,
+      text_content: highlight.text_content,
+      note: highlight.note,
+      color: highlight.color,
+      updated_at: new Date().toISOString(),
+    };
+
+    if (!navigator.onLine) {
+      await queueOfflineAction('highlight', { ...record, op });
+      return;
+    }
+
+    const { applied } = await applySyncOperation('highlight', { ...record, op });
+    // A newer change from another device won; show what the server has
+    if (!applied) queryClient.invalidateQueries({ queryKey });
+  };
+
+  const addHighlight = useMutation({
+    mutationFn: async ({
+      chapterId,
+      start,
+      end,
+      text,
+      color,
+    }: {
+      chapterId: string;
+      start: number;
+      end: number;
+      text: string;
+      color: HighlightColor;
+    }) => {
+      const highlight: BookHighlight = {
+        id: crypto.randomUUID(),
+        chapter_id: chapterId,
+        start_position: start,
+        end_position: end,
+        text_content: text,
+        note: null,
+        color,
+        is_orphaned: false,
+        created_at: new Date().toISOString(),
+      };
+      setHighlights(highlights => [...highlights, highlight]);
+      await saveHighlight(highlight, 'create');
+      return highlight;
+    },
+    onError: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast.error('Failed to save highlight');
+    },
+  });
+
+  const updateHighlight = useMutation({
+    mutationFn: async ({
+      highlight,
+      changes,
+    }: {
+      highlight: BookHighlight;
+      changes: Partial<Pick<BookHighlight, 'color' | 'note'>>;
+    }) => {
+      const updated = { ...highlight, ...changes };
+      setHighlights(highlights => highlights.map(h => (h.id === updated.id ? updated : h)));
+      await saveHighlight(updated, 'update');
+      return updated;
+    },
+    onError: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast.error('Failed to update highlight');
+    },
+  });
+
+  const removeHighlight = useMutation({
+    mutationFn: async ({ id }: { id: string }) => {
+      if (!user?.id) throw new Error('Not authenticated');
+
+      setHighlights(highlights => highlights.filter(h => h.id !== id));
+
+      if (!navigator.onLine) {
+        await queueOfflineAction('highlight', { id, user_id: user.id, op: 'delete' });
+        return;
+      }
+
+      const { applied } = await applySyncOperation('highlight', { id, user_id: user.id, op: 'delete' });
+      if (!applied) queryClient.invalidateQueries({ queryKey });
+    },
+    onError: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast.error('Failed to remove highlight');
+    },
+  });
+
+  return { addHighlight, updateHighlight, removeHighlight };
+}
@@ -0,0 +1,215 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import { fetchBookChapters, type BookWithProgress } from '@/hooks/useBooks';
+import { fetchBookAudio } from '@/hooks/useBookAudio';
+import {
+  cacheChapters,
+  evictDownloads,
+  getDownloads,
+  markAudioCached,
+  queueAudioDownload,
+  removeDownload,
+  saveDownload,
+} from '@/lib/offlineStorage';
+import { subscribeToAudioCache } from '@/lib/audioCache';
+import { ensureOfflineLicense } from '@/lib/offlineLicense';
+
+export interface DownloadProgress {
+  chaptersDone: number;
+  chaptersTotal: number;
+  // Bytes across the book's tracks; audioTotal is 0 until sizes are known
+  audioLoaded: number;
+  audioTotal: number;
+}
+
+// A book whose audio hasn't moved for this long is given up on, so it can be retried
+const AUDIO_STALL_MS = 60 * 1000;
+
+export type OfflineDownload = Awaited<ReturnType<typeof getDownloads>>[number];
+
+// Books saved for offline reading from the dashboard, with the audio the
+// reader owns, and how much of the device's storage they take
+export function useOfflineDownloads() {
+  const { user, subscriptionStatus, isAdmin } = useAuth();
+  const queryClient = useQueryClient();
+  const userId = user?.id;
+  const hasActiveSubscription = subscriptionStatus?.subscribed ?? false;
+  const isInnerCircle = hasActiveSubscription && subscriptionStatus?.subscription_tier === 'inner_circle';
+  const [progress, setProgress] = useState<Record<string, DownloadProgress>>({});
+  // Tracks still downloading per book, with bytes so far and in all
+  const pendingAudioRef = useRef(new Map<string, Map<string, { loaded: number; total: number }>>());
+  const stallTimersRef = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+
+  const { data: downloads = [] } = useQuery({
+    queryKey: ['offline-downloads', userId],
+    queryFn: () => (userId ? getDownloads(userId) : []),
+    networkMode: 'always',
+  });
+
+  const { data: storage = null } = useQuery({
+    queryKey: ['storage-estimate'],
+    queryFn: async () => {
+      if (!navigator.storage?.estimate) return null;
+      const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+      return { usage, quota };
+    },
+    networkMode: 'always',
+  });
+
+  const finishDownload = useCallback(async (bookId: string) => {
+    clearTimeout(stallTimersRef.current.get(bookId));
+    stallTimersRef.current.delete(bookId);
+    pendingAudioRef.current.delete(bookId);
+    setProgress(current => Object.fromEntries(Object.entries(current).filter(([id]) => id !== bookId)));
+    const evicted = userId ? await evictDownloads(userId, bookId) : [];
+    if (evicted.length > 0) {
+      toast.info(`Removed ${evicted.join(', ')} from this device to free up space`);
+    }
+    queryClient.invalidateQueries({ queryKey: ['offline-downloads'] });
+    queryClient.invalidateQueries({ queryKey: ['storage-estimate'] });
+  }, [userId, queryClient]);
+
+  // (Re)start the clock on a book's audio; the service worker may never answer
+  // if it was stopped or replaced mid-download
+  const watchForStall = useCallback((bookId: string) => {
+    clearTimeout(stallTimersRef.current.get(bookId));
+    stallTimersRef.current.set(bookId, setTimeout(() => {
+      if (!pendingAudioRef.current.has(bookId)) return;
+      console.error('Audio download stalled:', bookId);
+      toast.error('Some audio could not be downloaded');
+      finishDownload(bookId);
+    }, AUDIO_STALL_MS));
+  }, [finishDownload]);
+
+  useEffect(() => {
+    const timers = stallTimersRef.current;
+    return () => timers.forEach(timer => clearTimeout(timer));
+  }, []);
+
+  const updateAudioProgress = useCallback((bookId: string) => {
+    const tracks = [...(pendingAudioRef.current.get(bookId)?.values() ?? [])];
+    setProgress(current => current[bookId] ? {
+      ...current,
+      [bookId]: {
+        ...current[bookId],
+        audioLoaded: tracks.reduce((sum, t) => sum + t.loaded, 0),
+        audioTotal: tracks.reduce((sum, t) => sum + t.total, 0),
+      },
+    } : current);
+  }, []);
+
+  // Follow the service worker through each book's audio
+  useEffect(() => {
+    return subscribeToAudioCache((message) => {
+      const tracks = pendingAudioRef.current.get(message.bookId);
+      if (!tracks?.has(message.id)) return;
+      watchForStall(message.bookId);
+
+      if (message.type === 'audio-progress') {
+        tracks.set(message.id, { loaded: message.loaded, total: message.total });
+        updateAudioProgress(message.bookId);
+        return;
+      }
+
+      if (message.type === 'audio-cached') {
+        tracks.set(message.id, { loaded: message.size, total: message.size });
+        markAudioCached(message.id, message.size).catch(console.error);
+      } else {
+        console.error('Audio download failed:', message.id, message.message);
+        tracks.delete(message.id);
+        toast.error('Some audio could not be downloaded');
+      }
+      updateAudioProgress(message.bookId);
+      if ([...tracks.values()].every(t => t.total > 0 && t.loaded >= t.total)) {
+        finishDownload(message.bookId);
+      }
+    });
+  }, [updateAudioProgress, finishDownload, watchForStall]);
+
+  const downloadBook = useCallback(async (book: BookWithProgress) => {
+    if (!userId || progress[book.id]) return;
+    setProgress(current => ({
+      ...current,
+      [book.id]: { chaptersDone: 0, chaptersTotal: 0, audioLoaded: 0, audioTotal: 0 },
+    }));
+
+    try {
+      // Ask the browser not to clear saved books under storage pressure
+      await navigator.storage?.persist?.();
+      if (!(await ensureOfflineLicense(book.id, userId))) {
+        toast.error(`${book.title} isn't available to read offline`);
+        await finishDownload(book.id);
+        return;
+      }
+      const data = await fetchBookChapters(book.id, { userId, hasActiveSubscription, isInnerCircle, isAdmin });
+      await cacheChapters(
+        data.chapters.map(c => ({
+          id: c.id,
+          book_id: book.id,
+          content: c.content,
+          title: c.title,
+          chapter_order: c.chapter_order,
+          word_count: c.word_count,
+        })),
+        userId,
+        (done, total) => setProgress(current => ({
+          ...current,
+          [book.id]: { ...current[book.id], chaptersDone: done, chaptersTotal: total },
+        }))
+      );
+
+      // The same audio the reader could play in the book
+      const ownsAudiobook = data.owned && data.hasAudio;
+      const audio = ownsAudiobook || isInnerCircle ? await fetchBookAudio(book.id) : { soundtrack: [], audiobook: [] };
+      const tracks = [
+        ...(ownsAudiobook ? audio.audiobook.map(t => ({ ...t, type: 'audiobook' as const })) : []),
+        ...audio.soundtrack.map(t => ({ ...t, type: 'soundtrack' as const })),
+      ];
+
+      await saveDownload({
+        userId,
+        bookId: book.id,
+        title: book.title,
+        coverUrl: book.cover_url,
+        chapterCount: data.chapters.length,
+        audioCount: tracks.length,
+        downloadedAt: new Date(),
+        lastReadAt: new Date(),
+      });
+
+      if (tracks.length === 0) {
+        await finishDownload(book.id);
+        return;
+      }
+
+      pendingAudioRef.current.set(book.id, new Map(tracks.map(t => [t.id, { loaded: 0, total: 0 }])));
+      updateAudioProgress(book.id);
+      watchForStall(book.id);
+      for (const [index, track] of tracks.entries()) {
+        await queueAudioDownload(book.id, track.type, track, index);
+      }
+    } catch (error) {
+      console.error('Failed to download book:', (error as Error).message);
+      toast.error(`Couldn't download ${book.title}`);
+      await finishDownload(book.id);
+    }
+  }, [userId, progress, hasActiveSubscription, isInnerCircle, isAdmin, finishDownload, updateAudioProgress, watchForStall]);
+
+  const remove = useCallback(async (bookId: string) => {
+    if (!userId) return;
+    await removeDownload(bookId, userId);
+    queryClient.invalidateQueries({ queryKey: ['offline-downloads'] });
+    queryClient.invalidateQueries({ queryKey: ['storage-estimate'] });
+  }, [userId, queryClient]);
+
+  return {
+    downloads,
+    progress,
+    // Bytes used and available to the app, where the browser reports them
+    storage,
+    downloadBook,
+    removeDownload: remove,
+  };
+}
@@ -1,20 +1,51 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { 
   initOfflineDB, 
   getPendingActions, 
   deletePendingAction,
+  deferPendingAction,
   hasBookCached,
-  hasAudioCached,
+  getCachedAudio,
+  markAudioCached,
+  queueAudioDownload,
+  removeCachedAudio,
 } from '@/lib/offlineStorage';
+import { subscribeToAudioCache, type AudioType } from '@/lib/audioCache';
+import { renewOfflineLicenses } from '@/lib/offlineLicense';
+import { applySyncOperation } from '@/lib/syncOperations';
+import type { AudioTrack } from '@/hooks/useBookAudio';
+
+export type AudioDownloadStatus = 'downloading' | 'cached' | 'error';
+
+export interface AudioDownload {
+  status: AudioDownloadStatus;
+  // Bytes so far and in all; total is 0 until the size is known
+  loaded: number;
+  total: number;
+}
+
+// A newer position in the book synced from another device
+export interface RemoteProgress {
+  chapterId: string;
+  chapterPosition: number;
+  progressPercent: number;
+}
 
 export function useOfflineSync(bookId?: string) {
   const { user } = useAuth();
   const [isOnline, setIsOnline] = useState(navigator.onLine);
   const [hasCachedContent, setHasCachedContent] = useState(false);
-  const [hasAudioCachedState, setHasAudioCachedState] = useState(false);
+  // Per-track state of the book's offline audio, by track id
+  const [audioDownloads, setAudioDownloads] = useState<Record<string, AudioDownload>>({});
   const [isSyncing, setIsSyncing] = useState(false);
+  // Guards against overlapping syncs without making syncPendingActions change
+  const syncingRef = useRef(false);
+  const [remoteProgress, setRemoteProgress] = useState<RemoteProgress | null>(null);
+  const retryTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // The latest syncPendingActions, for retries scheduled by an earlier one
+  const syncRef = useRef<() => Promise<void>>(async () => {});
 
   // Check cached content for current book
   useEffect(() => {
@@ -23,88 +54,222 @@ export function useOfflineSync(bookId?: string) {
       
       await initOfflineDB();
       const hasCached = await hasBookCached(bookId, user.id);
-      const hasAudio = await hasAudioCached(bookId);
+      const audio = await getCachedAudio(bookId);
       
       setHasCachedContent(hasCached);
-      setHasAudioCachedState(hasAudio);
+      setAudioDownloads(Object.fromEntries(audio.map(a => [
+        a.id,
+        { status: 'cached', loaded: a.size ?? 0, total: a.size ?? 0 },
+      ])));
     }
     
     checkCache();
   }, [bookId, user?.id]);
 
-  // Sync pending actions when coming back online
+  // Follow the service worker's downloads for this book
+  useEffect(() => {
+    if (!bookId) return;
+    return subscribeToAudioCache((message) => {
+      if (message.bookId !== bookId) return;
+      switch (message.type) {
+        case 'audio-progress':
+          setAudioDownloads(current => ({
+            ...current,
+            [message.id]: { status: 'downloading', loaded: message.loaded, total: message.total },
+          }));
+          break;
+        case 'audio-cached':
+          markAudioCached(message.id, message.size)
+            .catch(err => console.error('Failed to record cached audio:', err));
+          setAudioDownloads(current => ({
+            ...current,
+            [message.id]: { status: 'cached', loaded: message.size, total: message.size },
+          }));
+          break;
+        case 'audio-error':
+          console.error('Audio download failed:', message.id, message.message);
+          setAudioDownloads(current => ({
+            ...current,
+            [message.id]: { status: 'error', loaded: 0, total: 0 },
+          }));
+          break;
+      }
+    });
+  }, [bookId]);
+
+  // Download tracks for offline listening, skipping any already on the device
+  const downloadAudio = useCallback(async (tracks: Array<AudioTrack & { type: AudioType }>) => {
+    if (!bookId) return;
+    const wanted = tracks.filter(t => audioDownloads[t.id]?.status !== 'cached' && audioDownloads[t.id]?.status !== 'downloading');
+    setAudioDownloads(current => ({
+      ...current,
+      ...Object.fromEntries(wanted.map(t => [t.id, { status: 'downloading', loaded: 0, total: 0 } as AudioDownload])),
+    }));
+    for (const track of wanted) {
+      try {
+        await queueAudioDownload(bookId, track.type, track, tracks.indexOf(track));
+      } catch (error) {
+        console.error('Failed to start audio download:', (error as Error).message);
+        setAudioDownloads(current => ({ ...current, [track.id]: { status: 'error', loaded: 0, total: 0 } }));
+      }
+    }
+  }, [bookId, audioDownloads]);
+
+  const removeAudio = useCallback(async (trackIds: string[]) => {
+    await Promise.all(trackIds.map(id => removeCachedAudio(id)));
+    setAudioDownloads(current => Object.fromEntries(
+      Object.entries(current).filter(([id]) => !trackIds.includes(id))
+    ));
+  }, []);
+
+  // Replay changes queued while offline. Progress, bookmarks, highlights and
+  // reading time are merged by the server (see apply_sync_operation); a failed
+  // action is retried later with exponential backoff
   const syncPendingActions = useCallback(async () => {
-    if (isSyncing) return;
+    if (syncingRef.current) return;
     
+    syncingRef.current = true;
     setIsSyncing(true);
+    if (retryTimerRef.current) {
+      clearTimeout(retryTimerRef.current);
+      retryTimerRef.current = null;
+    }
     
     try {
       const pending = await getPendingActions();
+      // Later changes to something whose earlier change failed wait for it
+      const blocked = new Set<string>();
       
       for (const action of pending) {
+        const target = `${action.type}:${String(action.data.id ?? action.data.audio_id ?? action.data.book_id ?? '')}`;
+        if (blocked.has(target) || (action.nextAttemptAt && action.nextAttemptAt.getTime() > Date.now())) {
+          blocked.add(target);
+          continue;
+        }
+        
         try {
           switch (action.type) {
-            case 'progress': {
-              const progressData = action.data as {
-                user_id: string;
-                book_id: string;
-                chapter_id?: string;
-                progress_percent?: number;
-                total_time_seconds?: number;
-                last_read_at?: string;
-              };
-              const { error } = await supabase
-                .from('reading_progress')
-                .upsert(progressData, {
-                  onConflict: 'user_id,book_id',
-                });
-              if (!error) await deletePendingAction(action.id);
+            case 'progress':
+            case 'bookmark':
+            case 'highlight':
+            case 'reading_time': {
+              // Removals queued before operations were named are tombstones
+              const data = action.type === 'bookmark' || action.type === 'highlight'
+                ? { op: action.data.deleted ? 'delete' : 'create', ...action.data }
+                : action.data;
+              const { applied, progress } = await applySyncOperation(action.type, data, action.createdAt, action.id);
+              
+              // Another device has read since: offer to jump there
+              if (action.type === 'progress' && action.data.book_id === bookId) {
+                if (applied) {
+                  setRemoteProgress(null);
+                } else if (progress?.chapter_id) {
+                  setRemoteProgress({
+                    chapterId: progress.chapter_id,
+                    chapterPosition: progress.chapter_position,
+                    progressPercent: progress.progress_percent,
+                  });
+                }
+              }
               break;
             }
-            case 'bookmark': {
-              const bookmarkData = action.data as {
-                chapter_id: string;
-                position: number;
+            case 'preferences': {
+              const preferencesData = action.data as {
                 user_id: string;
-                note?: string;
+                theme: 'dark' | 'light' | 'sepia';
+                font_size: number;
+                line_width: 'narrow' | 'medium' | 'wide';
+                layout?: 'scroll' | 'paginated';
+                font_family?: 'serif' | 'sans' | 'dyslexic';
+                line_height?: number;
+                paragraph_spacing?: number;
+                justify?: boolean;
+                hyphenate?: boolean;
+                margins?: 'narrow' | 'medium' | 'wide';
+                updated_at: string;
               };
+              // Don't overwrite a newer change made on another device
+              const { data: current, error: currentError } = await supabase
+                .from('reader_preferences')
+                .select('updated_at')
+                .eq('user_id', preferencesData.user_id)
+                .maybeSingle();
+              if (currentError) throw currentError;
+              if (current && Date.parse(current.updated_at) >= Date.parse(preferencesData.updated_at)) break;
               const { error } = await supabase
-                .from('bookmarks')
-                .upsert(bookmarkData);
-              if (!error) await deletePendingAction(action.id);
+                .from('reader_preferences')
+                .upsert(preferencesData, {
+                  onConflict: 'user_id',
+                });
+              if (error) throw error;
               break;
             }
-            case 'highlight': {
-              const highlightData = action.data as {
-                chapter_id: string;
+            case 'audio_position': {
+              const positionData = action.data as {
                 user_id: string;
-                text_content: string;
-                start_position: number;
-                end_position: number;
-                color?: string;
-                note?: string;
+                audio_id: string;
+                position_seconds: number;
+                updated_at: string;
               };
+              // Keep a later position saved from another device
+              const { data: current, error: currentError } = await supabase
+                .from('audio_positions')
+                .select('updated_at')
+                .eq('user_id', positionData.user_id)
+                .eq('audio_id', positionData.audio_id)
+                .maybeSingle();
+              if (currentError) throw currentError;
+              if (current && Date.parse(current.updated_at) >= Date.parse(positionData.updated_at)) break;
               const { error } = await supabase
-                .from('highlights')
-                .upsert(highlightData);
-              if (!error) await deletePendingAction(action.id);
+                .from('audio_positions')
+                .upsert(positionData, {
+                  onConflict: 'user_id,audio_id',
+                });
+              if (error) throw error;
               break;
             }
           }
+          await deletePendingAction(action.id);
         } catch (err) {
           console.error('Failed to sync action:', action.id, err);
+          blocked.add(target);
+          await deferPendingAction(action.id);
         }
       }
+      
+      // Come back for whatever is still waiting
+      const remaining = await getPendingActions();
+      const nextAt = Math.min(...remaining.map(a => a.nextAttemptAt?.getTime() ?? Infinity));
+      if (Number.isFinite(nextAt) && navigator.onLine) {
+        retryTimerRef.current = setTimeout(() => syncRef.current(), Math.max(nextAt - Date.now(), 1000));
+      }
     } finally {
+      syncingRef.current = false;
       setIsSyncing(false);
     }
-  }, [isSyncing]);
+  }, [bookId]);
 
-  // Listen for online/offline events
+  useEffect(() => {
+    syncRef.current = syncPendingActions;
+  }, [syncPendingActions]);
+
+  useEffect(() => () => {
+    if (retryTimerRef.current) clearTimeout(retryTimerRef.current);
+  }, []);
+
+  // Renew offline licenses whenever the reader is online
+  const userId = user?.id;
+  useEffect(() => {
+    if (!isOnline || !userId) return;
+    renewOfflineLicenses(userId).catch(console.error);
+  }, [isOnline, userId]);
+
+  // Listen for online/offline events. Syncs run on mount, on coming back online
+  // and when a retry is due, never because of a render
   useEffect(() => {
     const handleOnline = () => {
       setIsOnline(true);
-      syncPendingActions();
+      syncRef.current();
     };
     
     const handleOffline = () => {
@@ -116,20 +281,28 @@ export function useOfflineSync(bookId?: string) {
     
     // Sync on mount if online
     if (navigator.onLine) {
-      syncPendingActions();
+      syncRef.current();
     }
     
     return () => {
       window.removeEventListener('online', handleOnline);
       window.removeEventListener('offline', handleOffline);
     };
-  }, [syncPendingActions]);
+  }, []);
 
   return {
     isOnline,
     hasCachedContent,
-    hasAudioCached: hasAudioCachedState,
+    hasAudioCached: Object.values(audioDownloads).some(d => d.status === 'cached'),
+    audioDownloads,
+    downloadAudio,
+    removeAudio,
     isSyncing,
     syncNow: syncPendingActions,
+    // Set when syncing finds the reader has read this book elsewhere since
+    remoteProgress,
+    // Offer a newer position found some other way, e.g. when the book loads
+    offerRemoteProgress: setRemoteProgress,
+    dismissRemoteProgress: () => setRemoteProgress(null),
   };
 }
@@ -26,7 +26,9 @@ export interface StripePrice {
   currency: string;
   price_type: 'subscription' | 'one_time';
   billing_interval: 'month' | 'year' | null;
-  tier: 'reader' | 'inner_circle' | 'book' | null;
+  tier: 'reader' | 'inner_circle' | 'book' | 'series' | null;
+  // Set on series bundle prices, which unlock every book in the series
+  series_id: string | null;
   features: string[];
   sort_order: number;
   is_active: boolean;
@@ -44,8 +46,7 @@ export function usePricing() {
   return useQuery({
     queryKey: ['pricing'],
     queryFn: async (): Promise<StripePrice[]> => {
-      // Type assertion needed until types are regenerated from new schema
-      const { data, error } = await (supabase as any)
+      const { data, error } = await supabase
         .from('stripe_prices')
         .select('*')
         .eq('is_active', true)
@@ -137,7 +138,8 @@ export function useCreatePrice() {
       amount_cents: number;
       price_type: 'subscription' | 'one_time';
       billing_interval?: 'month' | 'year';
-      tier?: 'reader' | 'inner_circle' | 'book';
+      tier?: 'reader' | 'inner_circle' | 'book' | 'series';
+      series_id?: string;
       features?: string[];
     }) => {
       if (!session?.access_token) {
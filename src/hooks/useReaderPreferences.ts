@@ -0,0 +1,193 @@
+import { useCallback } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { cachePreferences, getCachedPreferences, queueOfflineAction } from '@/lib/offlineStorage';
+
+export type ReaderTheme = 'dark' | 'light' | 'sepia';
+export type LineWidth = 'narrow' | 'medium' | 'wide';
+export type ReaderLayout = 'scroll' | 'paginated';
+export type ReaderFont = 'serif' | 'sans' | 'dyslexic';
+export type PageMargin = 'narrow' | 'medium' | 'wide';
+
+// How the chapter text itself is set
+export interface ReaderTypography {
+  fontFamily: ReaderFont;
+  lineHeight: number;
+  // Space after each paragraph, in em
+  paragraphSpacing: number;
+  justify: boolean;
+  hyphenate: boolean;
+  margins: PageMargin;
+}
+
+export interface ReaderPreferences extends ReaderTypography {
+  theme: ReaderTheme;
+  fontSize: number;
+  lineWidth: LineWidth;
+  layout: ReaderLayout;
+}
+
+export const DEFAULT_READER_PREFERENCES: ReaderPreferences = {
+  theme: 'dark',
+  fontSize: 18,
+  lineWidth: 'medium',
+  layout: 'scroll',
+  fontFamily: 'serif',
+  lineHeight: 1.9,
+  paragraphSpacing: 1.5,
+  justify: false,
+  hyphenate: false,
+  margins: 'medium',
+};
+
+// Match the CHECK constraints on reader_preferences
+export const MIN_FONT_SIZE = 14;
+export const MAX_FONT_SIZE = 28;
+export const MIN_LINE_HEIGHT = 1.4;
+export const MAX_LINE_HEIGHT = 2.4;
+export const MIN_PARAGRAPH_SPACING = 0;
+export const MAX_PARAGRAPH_SPACING = 3;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+export function useReaderPreferences() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ['reader-preferences', user?.id];
+
+  const { data, isLoading } = useQuery({
+    queryKey,
+    queryFn: async (): Promise<ReaderPreferences> => {
+      if (!user?.id) return DEFAULT_READER_PREFERENCES;
+
+      const cached = await getCachedPreferences(user.id);
+      const fromCache = cached
+        ? {
+          theme: cached.theme,
+          fontSize: cached.fontSize,
+          lineWidth: cached.lineWidth,
+          // Entries cached before these settings existed fall back to the defaults
+          layout: cached.layout ?? DEFAULT_READER_PREFERENCES.layout,
+          fontFamily: cached.fontFamily ?? DEFAULT_READER_PREFERENCES.fontFamily,
+          lineHeight: cached.lineHeight ?? DEFAULT_READER_PREFERENCES.lineHeight,
+          paragraphSpacing: cached.paragraphSpacing ?? DEFAULT_READER_PREFERENCES.paragraphSpacing,
+          justify: cached.justify ?? DEFAULT_READER_PREFERENCES.justify,
+          hyphenate: cached.hyphenate ?? DEFAULT_READER_PREFERENCES.hyphenate,
+          margins: cached.margins ?? DEFAULT_READER_PREFERENCES.margins,
+        }
+        : DEFAULT_READER_PREFERENCES;
+
+      if (!navigator.onLine) return fromCache;
+
+      const { data: row, error } = await supabase
+        .from('reader_preferences')
+        .select('theme, font_size, line_width, layout, font_family, line_height, paragraph_spacing, justify, hyphenate, margins, updated_at')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Failed to load reader preferences:', error);
+        return fromCache;
+      }
+
+      // Nothing saved yet (or a newer offline change is still waiting to sync)
+      if (!row || (cached && Date.parse(cached.updatedAt) > Date.parse(row.updated_at))) return fromCache;
+
+      const preferences: ReaderPreferences = {
+        theme: row.theme,
+        fontSize: row.font_size,
+        lineWidth: row.line_width,
+        layout: row.layout,
+        fontFamily: row.font_family,
+        lineHeight: Number(row.line_height),
+        paragraphSpacing: Number(row.paragraph_spacing),
+        justify: row.justify,
+        hyphenate: row.hyphenate,
+        margins: row.margins,
+      };
+      await cachePreferences({ userId: user.id, ...preferences, updatedAt: row.updated_at });
+      return preferences;
+    },
+    enabled: !!user?.id,
+    staleTime: 60000,
+  });
+
+  const preferences = data ?? DEFAULT_READER_PREFERENCES;
+
+  const savePreferences = useMutation({
+    mutationFn: async (next: ReaderPreferences) => {
+      if (!user?.id) throw new Error('Not authenticated');
+
+      const updatedAt = new Date().toISOString();
+      await cachePreferences({ userId: user.id, ...next, updatedAt });
+
+      const record = {
+        user_id: user.id,
+        theme: next.theme,
+        font_size: next.fontSize,
+        line_width: next.lineWidth,
+        layout: next.layout,
+        font_family: next.fontFamily,
+        line_height: next.lineHeight,
+        paragraph_spacing: next.paragraphSpacing,
+        justify: next.justify,
+        hyphenate: next.hyphenate,
+        margins: next.margins,
+        updated_at: updatedAt,
+      };
+
+      if (!navigator.onLine) {
+        await queueOfflineAction('preferences', record);
+        return;
+      }
+
+      const { error } = await supabase
+        .from('reader_preferences')
+        .upsert(record, { onConflict: 'user_id' });
+
+      if (error) {
+        // Keep the change and retry when the sync runs again
+        await queueOfflineAction('preferences', record);
+        throw error;
+      }
+    },
+    onMutate: (next) => {
+      queryClient.setQueryData(queryKey, next);
+    },
+    onError: (error) => {
+      console.error('Failed to save reader preferences:', error);
+    },
+  });
+
+  const { mutate } = savePreferences;
+  const updatePreferences = useCallback(
+    (changes: Partial<ReaderPreferences>) => {
+      mutate({ ...preferences, ...changes });
+    },
+    [mutate, preferences]
+  );
+
+  return {
+    preferences,
+    isLoading,
+    updatePreferences,
+    setTheme: (theme: ReaderTheme) => updatePreferences({ theme }),
+    setFontSize: (fontSize: number) =>
+      updatePreferences({ fontSize: clamp(fontSize, MIN_FONT_SIZE, MAX_FONT_SIZE) }),
+    setLineWidth: (lineWidth: LineWidth) => updatePreferences({ lineWidth }),
+    setLayout: (layout: ReaderLayout) => updatePreferences({ layout }),
+    setTypography: (changes: Partial<ReaderTypography>) =>
+      updatePreferences({
+        ...changes,
+        ...(changes.lineHeight !== undefined && {
+          lineHeight: clamp(changes.lineHeight, MIN_LINE_HEIGHT, MAX_LINE_HEIGHT),
+        }),
+        ...(changes.paragraphSpacing !== undefined && {
+          paragraphSpacing: clamp(changes.paragraphSpacing, MIN_PARAGRAPH_SPACING, MAX_PARAGRAPH_SPACING),
+        }),
+      }),
+  };
+}
@@ -1,38 +1,55 @@
 import { useMutation, useQueryClient } from '@tanstack/react-query';
-import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { cacheProgress, queueOfflineAction } from '@/lib/offlineStorage';
+import { applySyncOperation } from '@/lib/syncOperations';
 import { useCallback, useRef } from 'react';
 
+export interface ProgressUpdate {
+  chapterId: string;
+  // Character offset of the paragraph in view, in the chapter's plain text
+  chapterPosition: number;
+  chapterPercent: number;
+  // Whole-book percent, weighted by word count
+  progressPercent: number;
+}
+
 export function useReadingProgress(bookId: string | undefined) {
   const { user } = useAuth();
   const queryClient = useQueryClient();
   const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   const saveProgress = useMutation({
-    mutationFn: async ({ 
-      chapterId, 
-      scrollPosition 
-    }: { 
-      chapterId: string; 
-      scrollPosition: number;
-    }) => {
+    mutationFn: async (update: ProgressUpdate) => {
       if (!user?.id || !bookId) throw new Error('Not authenticated or no book');
-      
-      // Upsert reading progress
-      const { error } = await supabase
-        .from('reading_progress')
-        .upsert({
-          user_id: user.id,
-          book_id: bookId,
-          chapter_id: chapterId,
-          scroll_position: scrollPosition,
-          last_read_at: new Date().toISOString(),
-          user_agent: navigator.userAgent,
-        }, {
-          onConflict: 'user_id,book_id',
-        });
 
-      if (error) throw error;
+      const record = {
+        user_id: user.id,
+        book_id: bookId,
+        chapter_id: update.chapterId,
+        chapter_position: update.chapterPosition,
+        chapter_percent: update.chapterPercent,
+        progress_percent: update.progressPercent,
+        last_read_at: new Date().toISOString(),
+      };
+
+      // Reopen here next time, even without a connection
+      await cacheProgress({
+        userId: user.id,
+        bookId,
+        chapterId: record.chapter_id,
+        chapterPosition: record.chapter_position,
+        chapterPercent: record.chapter_percent,
+        progressPercent: record.progress_percent,
+        lastReadAt: record.last_read_at,
+      });
+
+      if (!navigator.onLine) {
+        await queueOfflineAction('progress', record);
+        return;
+      }
+
+      // Made when it was read, so it matches the cached copy (see fetchBookChapters)
+      await applySyncOperation('progress', record, new Date(record.last_read_at));
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['books', user?.id] });
@@ -41,13 +58,13 @@ export function useReadingProgress(bookId: string | undefined) {
 
   // Debounced save to avoid too many writes
   const debouncedSaveProgress = useCallback(
-    (chapterId: string, scrollPosition: number) => {
+    (update: ProgressUpdate) => {
       if (debounceRef.current) {
         clearTimeout(debounceRef.current);
       }
 
       debounceRef.current = setTimeout(() => {
-        saveProgress.mutate({ chapterId, scrollPosition });
+        saveProgress.mutate(update);
       }, 2000); // Save after 2 seconds of inactivity
     },
     [saveProgress]
@@ -55,11 +72,11 @@ export function useReadingProgress(bookId: string | undefined) {
 
   // Immediate save (for chapter changes)
   const saveProgressNow = useCallback(
-    (chapterId: string, scrollPosition: number) => {
+    (update: ProgressUpdate) => {
       if (debounceRef.current) {
         clearTimeout(debounceRef.current);
       }
-      saveProgress.mutate({ chapterId, scrollPosition });
+      saveProgress.mutate(update);
     },
     [saveProgress]
   );
@@ -0,0 +1,60 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  dailyTotals,
+  readingStreaks,
+  wordsPerMinute,
+  type ReadingDay,
+  type ReadingSession,
+} from '@/lib/readingStats';
+
+export interface ReadingStats {
+  sessions: Array<ReadingSession & { book_title: string | null }>;
+  days: Map<string, ReadingDay>;
+  totalSeconds: number;
+  currentStreak: number;
+  longestStreak: number;
+  // null until enough reading has been tracked to estimate
+  wordsPerMinute: number | null;
+}
+
+export function useReadingStats() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['reading-stats', user?.id],
+    queryFn: async (): Promise<ReadingStats> => {
+      if (!user?.id) throw new Error('Not authenticated');
+
+      const { data, error } = await supabase
+        .from('reading_sessions')
+        .select('book_id, session_date, seconds, words_read, books(title)')
+        .eq('user_id', user.id)
+        .order('session_date');
+
+      if (error) throw error;
+
+      const sessions = (data ?? []).map(s => ({
+        book_id: s.book_id,
+        session_date: s.session_date,
+        seconds: s.seconds,
+        words_read: s.words_read,
+        book_title: s.books?.title ?? null,
+      }));
+      const days = dailyTotals(sessions);
+      const streaks = readingStreaks(days);
+
+      return {
+        sessions,
+        days,
+        totalSeconds: sessions.reduce((sum, s) => sum + s.seconds, 0),
+        currentStreak: streaks.current,
+        longestStreak: streaks.longest,
+        wordsPerMinute: wordsPerMinute(sessions),
+      };
+    },
+    enabled: !!user?.id,
+    staleTime: 5 * 60 * 1000,
+  });
+}
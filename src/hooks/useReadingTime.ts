@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useIdleTimer } from '@/hooks/useIdleTimer';
+import { queueOfflineAction } from '@/lib/offlineStorage';
+import { toSessionDate } from '@/lib/readingStats';
+
+// A reader who hasn't scrolled, tapped or typed for this long is treated as away
+const IDLE_AFTER_MS = 60 * 1000;
+const FLUSH_EVERY_SECONDS = 30;
+// Faster than this is skimming, not reading
+const MAX_WORDS_PER_SECOND = 15;
+
+// Tracks active reading time in a book and records it per day via
+// record_reading_time, which also adds it to reading_progress.total_time_seconds.
+// Time stops counting while the reader is idle or the tab is hidden.
+export function useReadingTime(bookId: string | undefined) {
+  const { user } = useAuth();
+  const { isIdle } = useIdleTimer(IDLE_AFTER_MS);
+  const isIdleRef = useRef(isIdle);
+  const secondsRef = useRef(0);
+  const wordsRef = useRef(0);
+
+  useEffect(() => {
+    isIdleRef.current = isIdle;
+  }, [isIdle]);
+
+  useEffect(() => {
+    if (!bookId || !user?.id) return;
+
+    const flush = async () => {
+      const seconds = secondsRef.current;
+      const words = wordsRef.current;
+      secondsRef.current = 0;
+      wordsRef.current = 0;
+      if (seconds <= 0) return;
+
+      const record = {
+        book_id: bookId,
+        session_date: toSessionDate(),
+        seconds,
+        words,
+      };
+
+      if (!navigator.onLine) {
+        await queueOfflineAction('reading_time', record);
+        return;
+      }
+
+      const { error } = await supabase.rpc('record_reading_time', {
+        _book_id: record.book_id,
+        _session_date: record.session_date,
+        _seconds: record.seconds,
+        _words: record.words,
+      });
+      // Keep the time rather than lose it; useOfflineSync retries
+      if (error) await queueOfflineAction('reading_time', record);
+    };
+
+    const tick = setInterval(() => {
+      if (isIdleRef.current || document.visibilityState === 'hidden') return;
+      secondsRef.current += 1;
+      if (secondsRef.current >= FLUSH_EVERY_SECONDS) flush().catch(console.error);
+    }, 1000);
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flush().catch(console.error);
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      clearInterval(tick);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      flush().catch(console.error);
+    };
+  }, [bookId, user?.id]);
+
+  // Count words the reader has moved past, capped at a plausible reading speed
+  // for the time tracked since the last flush
+  const recordWords = useCallback((count: number) => {
+    if (count <= 0) return;
+    wordsRef.current = Math.min(wordsRef.current + count, secondsRef.current * MAX_WORDS_PER_SECOND);
+  }, []);
+
+  return { recordWords };
+}
@@ -0,0 +1,101 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { getCachedChapters } from '@/lib/offlineStorage';
+import { stripChapterMarkup } from '@/lib/chapterMarkup';
+import { locateSnippet, parseHeadline, searchChapterText, type SearchMatch, type SnippetPart } from '@/lib/search';
+
+// Shortest query worth sending
+export const MIN_QUERY_LENGTH = 2;
+
+export interface LibrarySearchResult {
+  bookId: string;
+  bookTitle: string;
+  chapterId: string;
+  chapterTitle: string;
+  snippet: SnippetPart[];
+}
+
+// Matches within one book, in reading order. Uses Postgres full-text search
+// online and the encrypted offline cache otherwise; `chapters` is the text the
+// reader has loaded, used to resolve each match to a position.
+export function useBookSearch(
+  bookId: string | undefined,
+  query: string,
+  chapters: Array<{ id: string; content: string | null }>
+) {
+  const { user } = useAuth();
+  const trimmed = query.trim();
+
+  return useQuery({
+    queryKey: ['search', bookId, user?.id, trimmed],
+    queryFn: async (): Promise<SearchMatch[]> => {
+      if (!bookId) return [];
+
+      const searchCache = async () => {
+        if (!user?.id) return [];
+        const cached = await getCachedChapters(bookId, user.id);
+        return cached
+          .sort((a, b) => a.chapterOrder - b.chapterOrder)
+          .flatMap(c => searchChapterText(c.id, c.content, trimmed));
+      };
+
+      if (!navigator.onLine) return searchCache();
+
+      const { data, error } = await supabase.rpc('search_chapters', {
+        _query: trimmed,
+        _book_id: bookId,
+      });
+
+      if (error) {
+        console.error('Search failed, falling back to offline cache:', error);
+        return searchCache();
+      }
+
+      return (data ?? []).flatMap(row => {
+        const content = chapters.find(c => c.id === row.chapter_id)?.content;
+        const plain = content ? stripChapterMarkup(content) : null;
+        const fragments = parseHeadline(row.headline);
+        // Only the title matched; point at the start of the chapter
+        if (fragments.length === 0) {
+          return [{ chapterId: row.chapter_id, snippet: [{ text: row.chapter_title, match: true }], offset: 0 }];
+        }
+        return fragments.map(snippet => ({
+          chapterId: row.chapter_id,
+          snippet,
+          offset: plain ? locateSnippet(plain, snippet) : null,
+        }));
+      });
+    },
+    enabled: !!bookId && trimmed.length >= MIN_QUERY_LENGTH,
+    staleTime: 60000,
+  });
+}
+
+// Chapters across the library that match, best first. Online only.
+export function useLibrarySearch(query: string) {
+  const { user } = useAuth();
+  const trimmed = query.trim();
+
+  return useQuery({
+    queryKey: ['search', 'library', user?.id, trimmed],
+    queryFn: async (): Promise<LibrarySearchResult[]> => {
+      const { data, error } = await supabase.rpc('search_chapters', {
+        _query: trimmed,
+        _limit: 20,
+      });
+
+      if (error) throw error;
+
+      return (data ?? []).map(row => ({
+        bookId: row.book_id,
+        bookTitle: row.book_title,
+        chapterId: row.chapter_id,
+        chapterTitle: row.chapter_title,
+        snippet: parseHeadline(row.headline)[0] ?? [],
+      }));
+    },
+    enabled: trimmed.length >= MIN_QUERY_LENGTH && navigator.onLine,
+    staleTime: 60000,
+  });
+}
@@ -0,0 +1,123 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface SeriesBundlePrice {
+  id: string;
+  display_name: string;
+  amount_cents: number;
+}
+
+export interface Series {
+  id: string;
+  title: string;
+  description: string | null;
+  cover_url: string | null;
+  is_published: boolean;
+  // Member book ids in reading order
+  bookIds: string[];
+  bundlePrice: SeriesBundlePrice | null;
+}
+
+export interface NextInSeries {
+  seriesId: string;
+  seriesTitle: string;
+  position: number;
+  book: { id: string; title: string; cover_url: string | null };
+}
+
+async function fetchSeries(publishedOnly: boolean): Promise<Series[]> {
+  let query = supabase
+    .from('series')
+    .select('id, title, description, cover_url, is_published, series_books(book_id, position)')
+    .order('title');
+
+  if (publishedOnly) {
+    query = query.eq('is_published', true);
+  }
+
+  const { data: series, error } = await query;
+  if (error) throw error;
+  if (!series || series.length === 0) return [];
+
+  const { data: prices } = await supabase
+    .from('stripe_prices')
+    .select('id, series_id, display_name, amount_cents')
+    .in('series_id', series.map(s => s.id))
+    .eq('is_active', true);
+
+  const priceMap = new Map(prices?.map(p => [p.series_id, p]) ?? []);
+
+  return series.map(s => {
+    const price = priceMap.get(s.id);
+    return {
+      id: s.id,
+      title: s.title,
+      description: s.description,
+      cover_url: s.cover_url,
+      is_published: s.is_published,
+      bookIds: [...s.series_books].sort((a, b) => a.position - b.position).map(sb => sb.book_id),
+      bundlePrice: price
+        ? { id: price.id, display_name: price.display_name, amount_cents: price.amount_cents }
+        : null,
+    };
+  });
+}
+
+// Published series with their books in order, for the Dashboard
+export function useSeriesList() {
+  return useQuery({
+    queryKey: ['series'],
+    queryFn: () => fetchSeries(true),
+    staleTime: 60000,
+  });
+}
+
+// Admin: every series, including unpublished ones
+export function useAdminSeries() {
+  return useQuery({
+    queryKey: ['admin-series'],
+    queryFn: () => fetchSeries(false),
+  });
+}
+
+// The book that follows this one in its series, if any
+export function useNextInSeries(bookId: string | undefined) {
+  return useQuery({
+    queryKey: ['next-in-series', bookId],
+    queryFn: async (): Promise<NextInSeries | null> => {
+      if (!bookId) return null;
+
+      const { data: memberships, error } = await supabase
+        .from('series_books')
+        .select('series_id, position, series(title)')
+        .eq('book_id', bookId);
+
+      if (error) throw error;
+
+      for (const membership of memberships ?? []) {
+        // Unpublished books are filtered out by RLS, so the embedded book can be null
+        const { data: following } = await supabase
+          .from('series_books')
+          .select('position, books(id, title, cover_url)')
+          .eq('series_id', membership.series_id)
+          .gt('position', membership.position)
+          .order('position')
+          .limit(5);
+
+        const next = following?.find(f => f.books);
+        if (next?.books) {
+          return {
+            seriesId: membership.series_id,
+            seriesTitle: membership.series?.title ?? '',
+            position: next.position,
+            book: next.books,
+          };
+        }
+      }
+
+      return null;
+    },
+    enabled: !!bookId,
+    staleTime: 60000,
+  });
+}
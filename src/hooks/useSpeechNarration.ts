@@ -0,0 +1,206 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+
+export type NarrationStatus = 'idle' | 'playing' | 'paused';
+
+export interface NarrationParagraph {
+  // Where the paragraph starts in the chapter's plain text
+  offset: number;
+  text: string;
+}
+
+export interface NarrationSettings {
+  voiceURI: string | null;
+  rate: number;
+  pitch: number;
+}
+
+export const MIN_NARRATION_RATE = 0.5;
+export const MAX_NARRATION_RATE = 2;
+export const MIN_NARRATION_PITCH = 0.5;
+export const MAX_NARRATION_PITCH = 1.5;
+
+// Voices differ between devices, so these stay on the device rather than in reader_preferences
+const SETTINGS_KEY = 'narration.settings';
+
+const DEFAULT_SETTINGS: NarrationSettings = { voiceURI: null, rate: 1, pitch: 1 };
+
+function loadSettings(): NarrationSettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? 'null') as Partial<NarrationSettings> | null;
+    return { ...DEFAULT_SETTINGS, ...saved };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+interface UseSpeechNarrationOptions {
+  // Identifies the chapter the paragraphs belong to
+  chapterKey: string | undefined;
+  paragraphs: NarrationParagraph[];
+  // Called as each paragraph starts, to bring it into view
+  onParagraph?: (paragraph: NarrationParagraph) => void;
+  // Called after the last paragraph; returns false when there is no next chapter
+  onChapterEnd?: () => boolean;
+}
+
+// Reads the chapter aloud with the browser's speech synthesis, one paragraph
+// per utterance so the reader can follow along and skip. When a chapter ends it
+// asks for the next one and carries on from its first paragraph.
+export function useSpeechNarration({ chapterKey, paragraphs, onParagraph, onChapterEnd }: UseSpeechNarrationOptions) {
+  const isSupported = typeof window !== 'undefined' && 'speechSynthesis' in window;
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>(() => isSupported ? window.speechSynthesis.getVoices() : []);
+  const [settings, setSettings] = useState<NarrationSettings>(loadSettings);
+  const [status, setStatus] = useState<NarrationStatus>('idle');
+  const [currentIndex, setCurrentIndex] = useState<number | null>(null);
+
+  const paragraphsRef = useRef(paragraphs);
+  const settingsRef = useRef(settings);
+  const voicesRef = useRef(voices);
+  const statusRef = useRef(status);
+  const onParagraphRef = useRef(onParagraph);
+  const onChapterEndRef = useRef(onChapterEnd);
+  // Bumped on every new utterance so events from cancelled ones are ignored
+  const utteranceIdRef = useRef(0);
+  // Set while waiting for the next chapter to load after auto-advancing
+  const continueRef = useRef(false);
+
+  useEffect(() => {
+    paragraphsRef.current = paragraphs;
+    settingsRef.current = settings;
+    voicesRef.current = voices;
+    statusRef.current = status;
+    onParagraphRef.current = onParagraph;
+    onChapterEndRef.current = onChapterEnd;
+  });
+
+  // Voices load asynchronously in most browsers
+  useEffect(() => {
+    if (!isSupported) return;
+    const synth = window.speechSynthesis;
+    const handleVoicesChanged = () => setVoices(synth.getVoices());
+    synth.addEventListener('voiceschanged', handleVoicesChanged);
+    return () => synth.removeEventListener('voiceschanged', handleVoicesChanged);
+  }, [isSupported]);
+
+  const speakFrom = useCallback(function speak(index: number) {
+    if (!isSupported) return;
+    const synth = window.speechSynthesis;
+    const id = ++utteranceIdRef.current;
+    synth.cancel();
+
+    const list = paragraphsRef.current;
+    if (index >= list.length) {
+      setCurrentIndex(null);
+      if (onChapterEndRef.current?.()) {
+        continueRef.current = true;
+        setStatus('playing');
+      } else {
+        setStatus('idle');
+      }
+      return;
+    }
+
+    const paragraph = list[index];
+    const { voiceURI, rate, pitch } = settingsRef.current;
+    const utterance = new SpeechSynthesisUtterance(paragraph.text);
+    utterance.voice = voicesRef.current.find(v => v.voiceURI === voiceURI) ?? null;
+    utterance.rate = rate;
+    utterance.pitch = pitch;
+    utterance.onstart = () => {
+      if (id === utteranceIdRef.current) onParagraphRef.current?.(paragraph);
+    };
+    utterance.onend = () => {
+      if (id === utteranceIdRef.current) speak(index + 1);
+    };
+    utterance.onerror = (e) => {
+      // Cancelling to skip or stop raises an error on the old utterance
+      if (id !== utteranceIdRef.current || e.error === 'interrupted' || e.error === 'canceled') return;
+      console.error('Narration failed:', e.error);
+      setStatus('idle');
+      setCurrentIndex(null);
+    };
+
+    setCurrentIndex(index);
+    setStatus('playing');
+    synth.speak(utterance);
+  }, [isSupported]);
+
+  // Start with the paragraph containing a plain-text offset
+  const start = useCallback((fromOffset = 0) => {
+    const list = paragraphsRef.current;
+    let index = 0;
+    list.forEach((p, i) => {
+      if (p.offset <= fromOffset) index = i;
+    });
+    continueRef.current = false;
+    speakFrom(index);
+  }, [speakFrom]);
+
+  const stop = useCallback(() => {
+    if (!isSupported) return;
+    utteranceIdRef.current++;
+    continueRef.current = false;
+    window.speechSynthesis.cancel();
+    setStatus('idle');
+    setCurrentIndex(null);
+  }, [isSupported]);
+
+  const pause = useCallback(() => {
+    if (!isSupported || statusRef.current !== 'playing') return;
+    window.speechSynthesis.pause();
+    setStatus('paused');
+  }, [isSupported]);
+
+  const resume = useCallback(() => {
+    if (!isSupported || statusRef.current !== 'paused') return;
+    window.speechSynthesis.resume();
+    setStatus('playing');
+  }, [isSupported]);
+
+  const skip = useCallback((delta: number) => {
+    if (currentIndex === null) return;
+    speakFrom(Math.max(0, currentIndex + delta));
+  }, [currentIndex, speakFrom]);
+
+  // New settings apply from the start of the paragraph being read
+  const updateSettings = useCallback((changes: Partial<NarrationSettings>) => {
+    const next = { ...settingsRef.current, ...changes };
+    settingsRef.current = next;
+    setSettings(next);
+    try {
+      localStorage.setItem(SETTINGS_KEY, JSON.stringify(next));
+    } catch {
+      // Ignore localStorage errors
+    }
+    if (statusRef.current === 'playing' && currentIndex !== null) speakFrom(currentIndex);
+  }, [currentIndex, speakFrom]);
+
+  // Carry on into the next chapter once it is showing; a chapter picked by
+  // hand while narrating is read from its start too
+  useEffect(() => {
+    if (!isSupported) return;
+    if (continueRef.current || statusRef.current === 'playing') {
+      continueRef.current = false;
+      speakFrom(0);
+    } else if (statusRef.current === 'paused') {
+      stop();
+    }
+  }, [chapterKey, isSupported, speakFrom, stop]);
+
+  // Never keep talking after the reader closes
+  useEffect(() => stop, [stop]);
+
+  return {
+    isSupported,
+    voices,
+    settings,
+    updateSettings,
+    status,
+    currentOffset: currentIndex !== null ? paragraphs[currentIndex]?.offset ?? null : null,
+    start,
+    stop,
+    pause,
+    resume,
+    skip,
+  };
+}
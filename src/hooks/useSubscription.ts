@@ -6,7 +6,7 @@ import { toast } from 'sonner';
 export function useSubscription() {
   const { session, subscriptionStatus, refreshSubscription } = useAuth();
 
-  const createCheckout = async (priceType: PriceKey, bookId?: string) => {
+  const openCheckout = async (body: { priceType?: PriceKey; bookId?: string; seriesId?: string }) => {
     if (!session?.access_token) {
       toast.error('Please sign in to continue');
       return null;
@@ -14,7 +14,7 @@ export function useSubscription() {
 
     try {
       const { data, error } = await supabase.functions.invoke('create-checkout', {
-        body: { priceType, bookId },
+        body,
         headers: { Authorization: `Bearer ${session.access_token}` },
       });
 
@@ -37,6 +37,11 @@ export function useSubscription() {
     }
   };
 
+  const createCheckout = (priceType: PriceKey, bookId?: string) => openCheckout({ priceType, bookId });
+
+  // Buys the series bundle, which unlocks every book in the series
+  const createSeriesCheckout = (seriesId: string) => openCheckout({ seriesId });
+
   const openCustomerPortal = async () => {
     if (!session?.access_token) {
       toast.error('Please sign in to continue');
@@ -74,6 +79,7 @@ export function useSubscription() {
 
   return {
     createCheckout,
+    createSeriesCheckout,
     openCustomerPortal,
     refreshSubscription,
     hasActiveSubscription,
@@ -34,6 +34,35 @@ export type Database = {
   }
   public: {
     Tables: {
+      audio_positions: {
+        Row: {
+          audio_id: string
+          position_seconds: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          audio_id: string
+          position_seconds?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          audio_id?: string
+          position_seconds?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "audio_positions_audio_id_fkey"
+            columns: ["audio_id"]
+            isOneToOne: false
+            referencedRelation: "book_audio"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       audio_purchases: {
         Row: {
           amount_cents: number | null
@@ -72,6 +101,7 @@ export type Database = {
       book_audio: {
         Row: {
           book_id: string
+          chapter_id: string | null
           created_at: string | null
           duration_seconds: number | null
           file_url: string
@@ -79,12 +109,14 @@ export type Database = {
           is_enabled: boolean | null
           price_cents: number | null
           sort_order: number | null
+          sync_map: Json | null
           title: string
           type: Database["public"]["Enums"]["audio_type"]
           updated_at: string | null
         }
         Insert: {
           book_id: string
+          chapter_id?: string | null
           created_at?: string | null
           duration_seconds?: number | null
           file_url: string
@@ -92,12 +124,14 @@ export type Database = {
           is_enabled?: boolean | null
           price_cents?: number | null
           sort_order?: number | null
+          sync_map?: Json | null
           title: string
           type: Database["public"]["Enums"]["audio_type"]
           updated_at?: string | null
         }
         Update: {
           book_id?: string
+          chapter_id?: string | null
           created_at?: string | null
           duration_seconds?: number | null
           file_url?: string
@@ -105,6 +139,7 @@ export type Database = {
           is_enabled?: boolean | null
           price_cents?: number | null
           sort_order?: number | null
+          sync_map?: Json | null
           title?: string
           type?: Database["public"]["Enums"]["audio_type"]
           updated_at?: string | null
@@ -117,6 +152,13 @@ export type Database = {
             referencedRelation: "books"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "book_audio_chapter_id_fkey"
+            columns: ["chapter_id"]
+            isOneToOne: false
+            referencedRelation: "chapters"
+            referencedColumns: ["id"]
+          },
         ]
       }
       bookmarks: {
@@ -126,6 +168,7 @@ export type Database = {
           id: string
           note: string | null
           position: number
+          updated_at: string | null
           user_id: string
         }
         Insert: {
@@ -134,6 +177,7 @@ export type Database = {
           id?: string
           note?: string | null
           position: number
+          updated_at?: string | null
           user_id: string
         }
         Update: {
@@ -142,6 +186,7 @@ export type Database = {
           id?: string
           note?: string | null
           position?: number
+          updated_at?: string | null
           user_id?: string
         }
         Relationships: [
@@ -160,6 +205,7 @@ export type Database = {
           cover_url: string | null
           created_at: string | null
           description: string | null
+          early_access_days: number
           id: string
           is_published: boolean | null
           metadata: Json | null
@@ -174,6 +220,7 @@ export type Database = {
           cover_url?: string | null
           created_at?: string | null
           description?: string | null
+          early_access_days?: number
           id?: string
           is_published?: boolean | null
           metadata?: Json | null
@@ -188,6 +235,7 @@ export type Database = {
           cover_url?: string | null
           created_at?: string | null
           description?: string | null
+          early_access_days?: number
           id?: string
           is_published?: boolean | null
           metadata?: Json | null
@@ -199,36 +247,83 @@ export type Database = {
         }
         Relationships: []
       }
+      chapter_revisions: {
+        Row: {
+          chapter_id: string
+          content: string | null
+          created_at: string | null
+          created_by: string | null
+          id: string
+          title: string
+          word_count: number | null
+          word_count_delta: number
+        }
+        Insert: {
+          chapter_id: string
+          content?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          title: string
+          word_count?: number | null
+          word_count_delta?: number
+        }
+        Update: {
+          chapter_id?: string
+          content?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          title?: string
+          word_count?: number | null
+          word_count_delta?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chapter_revisions_chapter_id_fkey"
+            columns: ["chapter_id"]
+            isOneToOne: false
+            referencedRelation: "chapters"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       chapters: {
         Row: {
+          anchor_id: string | null
           book_id: string
           chapter_order: number
           content: string | null
           created_at: string | null
           id: string
           is_preview: boolean | null
+          release_at: string | null
           title: string
           updated_at: string | null
           word_count: number | null
         }
         Insert: {
+          anchor_id?: string | null
           book_id: string
           chapter_order: number
           content?: string | null
           created_at?: string | null
           id?: string
           is_preview?: boolean | null
+          release_at?: string | null
           title: string
           updated_at?: string | null
           word_count?: number | null
         }
         Update: {
+          anchor_id?: string | null
           book_id?: string
           chapter_order?: number
           content?: string | null
           created_at?: string | null
           id?: string
           is_preview?: boolean | null
+          release_at?: string | null
           title?: string
           updated_at?: string | null
           word_count?: number | null
@@ -250,9 +345,11 @@ export type Database = {
           created_at: string | null
           end_position: number
           id: string
+          is_orphaned: boolean
           note: string | null
           start_position: number
           text_content: string | null
+          updated_at: string | null
           user_id: string
         }
         Insert: {
@@ -261,9 +358,11 @@ export type Database = {
           created_at?: string | null
           end_position: number
           id?: string
+          is_orphaned?: boolean
           note?: string | null
           start_position: number
           text_content?: string | null
+          updated_at?: string | null
           user_id: string
         }
         Update: {
@@ -272,9 +371,11 @@ export type Database = {
           created_at?: string | null
           end_position?: number
           id?: string
+          is_orphaned?: boolean
           note?: string | null
           start_position?: number
           text_content?: string | null
+          updated_at?: string | null
           user_id?: string
         }
         Relationships: [
@@ -287,6 +388,62 @@ export type Database = {
           },
         ]
       }
+      import_runs: {
+        Row: {
+          book_id: string
+          chapters_after: number
+          chapters_before: number
+          chapters_matched: number
+          created_at: string | null
+          created_by: string | null
+          id: string
+          mode: Database["public"]["Enums"]["import_mode"]
+          rolled_back_at: string | null
+          snapshot: Json
+          source_path: string | null
+          status: Database["public"]["Enums"]["import_run_status"]
+          warnings: Json
+        }
+        Insert: {
+          book_id: string
+          chapters_after?: number
+          chapters_before?: number
+          chapters_matched?: number
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          mode: Database["public"]["Enums"]["import_mode"]
+          rolled_back_at?: string | null
+          snapshot?: Json
+          source_path?: string | null
+          status?: Database["public"]["Enums"]["import_run_status"]
+          warnings?: Json
+        }
+        Update: {
+          book_id?: string
+          chapters_after?: number
+          chapters_before?: number
+          chapters_matched?: number
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          mode?: Database["public"]["Enums"]["import_mode"]
+          rolled_back_at?: string | null
+          snapshot?: Json
+          source_path?: string | null
+          status?: Database["public"]["Enums"]["import_run_status"]
+          warnings?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "import_runs_book_id_fkey"
+            columns: ["book_id"]
+            isOneToOne: false
+            referencedRelation: "books"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       inquiries: {
         Row: {
           created_at: string | null
@@ -323,6 +480,41 @@ export type Database = {
         }
         Relationships: []
       }
+      offline_licenses: {
+        Row: {
+          book_id: string
+          device_id: string
+          expires_at: string
+          id: string
+          issued_at: string
+          user_id: string
+        }
+        Insert: {
+          book_id: string
+          device_id: string
+          expires_at: string
+          id?: string
+          issued_at?: string
+          user_id: string
+        }
+        Update: {
+          book_id?: string
+          device_id?: string
+          expires_at?: string
+          id?: string
+          issued_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "offline_licenses_book_id_fkey"
+            columns: ["book_id"]
+            isOneToOne: false
+            referencedRelation: "books"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           avatar_url: string | null
@@ -335,6 +527,9 @@ export type Database = {
           referral_credits: number | null
           referred_by: string | null
           stripe_customer_id: string | null
+          subscription_end: string | null
+          subscription_interval: string | null
+          subscription_tier: Database["public"]["Enums"]["subscription_tier"]
           updated_at: string | null
           user_id: string
         }
@@ -349,6 +544,9 @@ export type Database = {
           referral_credits?: number | null
           referred_by?: string | null
           stripe_customer_id?: string | null
+          subscription_end?: string | null
+          subscription_interval?: string | null
+          subscription_tier?: Database["public"]["Enums"]["subscription_tier"]
           updated_at?: string | null
           user_id: string
         }
@@ -363,6 +561,9 @@ export type Database = {
           referral_credits?: number | null
           referred_by?: string | null
           stripe_customer_id?: string | null
+          subscription_end?: string | null
+          subscription_interval?: string | null
+          subscription_tier?: Database["public"]["Enums"]["subscription_tier"]
           updated_at?: string | null
           user_id?: string
         }
@@ -411,10 +612,57 @@ export type Database = {
           },
         ]
       }
+      reader_preferences: {
+        Row: {
+          font_family: Database["public"]["Enums"]["reader_font"]
+          font_size: number
+          hyphenate: boolean
+          justify: boolean
+          layout: Database["public"]["Enums"]["reader_layout"]
+          line_height: number
+          line_width: Database["public"]["Enums"]["line_width"]
+          margins: Database["public"]["Enums"]["page_margin"]
+          paragraph_spacing: number
+          theme: Database["public"]["Enums"]["reader_theme"]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          font_family?: Database["public"]["Enums"]["reader_font"]
+          font_size?: number
+          hyphenate?: boolean
+          justify?: boolean
+          layout?: Database["public"]["Enums"]["reader_layout"]
+          line_height?: number
+          line_width?: Database["public"]["Enums"]["line_width"]
+          margins?: Database["public"]["Enums"]["page_margin"]
+          paragraph_spacing?: number
+          theme?: Database["public"]["Enums"]["reader_theme"]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          font_family?: Database["public"]["Enums"]["reader_font"]
+          font_size?: number
+          hyphenate?: boolean
+          justify?: boolean
+          layout?: Database["public"]["Enums"]["reader_layout"]
+          line_height?: number
+          line_width?: Database["public"]["Enums"]["line_width"]
+          margins?: Database["public"]["Enums"]["page_margin"]
+          paragraph_spacing?: number
+          theme?: Database["public"]["Enums"]["reader_theme"]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       reading_progress: {
         Row: {
           book_id: string
           chapter_id: string | null
+          chapter_percent: number
+          chapter_position: number
           id: string
           last_read_at: string | null
           progress_percent: number | null
@@ -425,6 +673,8 @@ export type Database = {
         Insert: {
           book_id: string
           chapter_id?: string | null
+          chapter_percent?: number
+          chapter_position?: number
           id?: string
           last_read_at?: string | null
           progress_percent?: number | null
@@ -435,6 +685,8 @@ export type Database = {
         Update: {
           book_id?: string
           chapter_id?: string | null
+          chapter_percent?: number
+          chapter_position?: number
           id?: string
           last_read_at?: string | null
           progress_percent?: number | null
@@ -459,6 +711,44 @@ export type Database = {
           },
         ]
       }
+      reading_sessions: {
+        Row: {
+          book_id: string
+          id: string
+          seconds: number
+          session_date: string
+          updated_at: string | null
+          user_id: string
+          words_read: number
+        }
+        Insert: {
+          book_id: string
+          id?: string
+          seconds?: number
+          session_date: string
+          updated_at?: string | null
+          user_id: string
+          words_read?: number
+        }
+        Update: {
+          book_id?: string
+          id?: string
+          seconds?: number
+          session_date?: string
+          updated_at?: string | null
+          user_id?: string
+          words_read?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reading_sessions_book_id_fkey"
+            columns: ["book_id"]
+            isOneToOne: false
+            referencedRelation: "books"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       referrals: {
         Row: {
           created_at: string | null
@@ -501,6 +791,161 @@ export type Database = {
           },
         ]
       }
+      series: {
+        Row: {
+          cover_url: string | null
+          created_at: string | null
+          description: string | null
+          id: string
+          is_published: boolean
+          title: string
+          updated_at: string | null
+        }
+        Insert: {
+          cover_url?: string | null
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          is_published?: boolean
+          title: string
+          updated_at?: string | null
+        }
+        Update: {
+          cover_url?: string | null
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          is_published?: boolean
+          title?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      series_books: {
+        Row: {
+          book_id: string
+          created_at: string | null
+          position: number
+          series_id: string
+        }
+        Insert: {
+          book_id: string
+          created_at?: string | null
+          position: number
+          series_id: string
+        }
+        Update: {
+          book_id?: string
+          created_at?: string | null
+          position?: number
+          series_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "series_books_book_id_fkey"
+            columns: ["book_id"]
+            isOneToOne: false
+            referencedRelation: "books"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "series_books_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "series"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stripe_prices: {
+        Row: {
+          amount_cents: number
+          billing_interval: Database["public"]["Enums"]["billing_interval"] | null
+          created_at: string | null
+          currency: string
+          description: string | null
+          display_name: string
+          features: string[]
+          id: string
+          is_active: boolean
+          price_key: string
+          price_type: Database["public"]["Enums"]["price_type"]
+          series_id: string | null
+          sort_order: number
+          stripe_price_id: string
+          stripe_product_id: string
+          tier: Database["public"]["Enums"]["price_tier"] | null
+          updated_at: string | null
+        }
+        Insert: {
+          amount_cents: number
+          billing_interval?: Database["public"]["Enums"]["billing_interval"] | null
+          created_at?: string | null
+          currency?: string
+          description?: string | null
+          display_name: string
+          features?: string[]
+          id?: string
+          is_active?: boolean
+          price_key: string
+          price_type: Database["public"]["Enums"]["price_type"]
+          series_id?: string | null
+          sort_order?: number
+          stripe_price_id: string
+          stripe_product_id: string
+          tier?: Database["public"]["Enums"]["price_tier"] | null
+          updated_at?: string | null
+        }
+        Update: {
+          amount_cents?: number
+          billing_interval?: Database["public"]["Enums"]["billing_interval"] | null
+          created_at?: string | null
+          currency?: string
+          description?: string | null
+          display_name?: string
+          features?: string[]
+          id?: string
+          is_active?: boolean
+          price_key?: string
+          price_type?: Database["public"]["Enums"]["price_type"]
+          series_id?: string | null
+          sort_order?: number
+          stripe_price_id?: string
+          stripe_product_id?: string
+          tier?: Database["public"]["Enums"]["price_tier"] | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stripe_prices_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "series"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sync_operations: {
+        Row: {
+          applied_at: string
+          id: string
+          kind: Database["public"]["Enums"]["sync_operation_kind"]
+          user_id: string
+        }
+        Insert: {
+          applied_at?: string
+          id: string
+          kind: Database["public"]["Enums"]["sync_operation_kind"]
+          user_id: string
+        }
+        Update: {
+          applied_at?: string
+          id?: string
+          kind?: Database["public"]["Enums"]["sync_operation_kind"]
+          user_id?: string
+        }
+        Relationships: []
+      }
       user_roles: {
         Row: {
           created_at: string | null
@@ -527,6 +972,41 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      apply_sync_operation: {
+        Args: {
+          _at: string
+          _data: Json
+          _id?: string
+          _kind: Database["public"]["Enums"]["sync_operation_kind"]
+        }
+        Returns: Json
+      }
+      can_read_chapter: {
+        Args: {
+          _book_id: string
+          _is_preview: boolean
+        }
+        Returns: boolean
+      }
+      chapter_search_vector: {
+        Args: {
+          _content: string
+          _title: string
+        }
+        Returns: unknown
+      }
+      get_upcoming_chapters: {
+        Args: {
+          _book_id: string
+        }
+        Returns: {
+          chapter_order: number
+          early_access_at: string
+          id: string
+          release_at: string
+          title: string
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -534,12 +1014,84 @@ export type Database = {
         }
         Returns: boolean
       }
+      import_book_chapters: {
+        Args: {
+          _book_id: string
+          _bookmark_updates?: Json
+          _chapters: Json
+          _created_by?: string
+          _highlight_updates?: Json
+          _mode: Database["public"]["Enums"]["import_mode"]
+          _source_path?: string
+          _warnings?: Json
+        }
+        Returns: string
+      }
+      is_chapter_released: {
+        Args: {
+          _book_id: string
+          _release_at: string
+        }
+        Returns: boolean
+      }
+      record_reading_time: {
+        Args: {
+          _book_id: string
+          _seconds: number
+          _session_date: string
+          _words?: number
+        }
+        Returns: undefined
+      }
+      restore_chapter_revision: {
+        Args: {
+          _bookmark_updates?: Json
+          _created_by?: string
+          _highlight_updates?: Json
+          _revision_id: string
+        }
+        Returns: undefined
+      }
+      rollback_import_run: {
+        Args: {
+          _run_id: string
+        }
+        Returns: undefined
+      }
+      search_chapters: {
+        Args: {
+          _book_id?: string
+          _limit?: number
+          _query: string
+        }
+        Returns: {
+          book_id: string
+          book_title: string
+          chapter_id: string
+          chapter_order: number
+          chapter_title: string
+          headline: string
+          rank: number
+        }[]
+      }
     }
     Enums: {
       app_role: "admin" | "user"
       audio_type: "audiobook" | "soundtrack"
+      billing_interval: "month" | "year"
+      import_mode: "add" | "replace"
+      import_run_status: "completed" | "rolled_back"
       inquiry_status: "unread" | "read" | "replied" | "resolved"
+      line_width: "narrow" | "medium" | "wide"
+      page_margin: "narrow" | "medium" | "wide"
+      price_tier: "reader" | "inner_circle" | "book" | "series"
+      price_type: "subscription" | "one_time"
+      reader_font: "serif" | "sans" | "dyslexic"
+      reader_layout: "scroll" | "paginated"
+      reader_theme: "dark" | "light" | "sepia"
       referral_status: "pending" | "credited" | "expired"
+      subscription_tier: "none" | "reader" | "inner_circle"
+      sync_operation_kind: "progress" | "bookmark" | "highlight" | "reading_time"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -672,8 +1224,20 @@ export const Constants = {
     Enums: {
       app_role: ["admin", "user"],
       audio_type: ["audiobook", "soundtrack"],
+      billing_interval: ["month", "year"],
+      import_mode: ["add", "replace"],
+      import_run_status: ["completed", "rolled_back"],
       inquiry_status: ["unread", "read", "replied", "resolved"],
+      line_width: ["narrow", "medium", "wide"],
+      page_margin: ["narrow", "medium", "wide"],
+      price_tier: ["reader", "inner_circle", "book", "series"],
+      price_type: ["subscription", "one_time"],
+      reader_font: ["serif", "sans", "dyslexic"],
+      reader_layout: ["scroll", "paginated"],
+      reader_theme: ["dark", "light", "sepia"],
       referral_status: ["pending", "credited", "expired"],
+      subscription_tier: ["none", "reader", "inner_circle"],
+      sync_operation_kind: ["progress", "bookmark", "highlight", "reading_time"],
     },
   },
 } as const
@@ -0,0 +1,64 @@
+// Audio downloaded for offline listening
+//
+// The service worker in public/sw.js fetches files into Cache Storage and serves
+// them (range requests included) when the network is gone. The page asks it for
+// downloads and hears back about progress; lookups and removals go straight to
+// Cache Storage.
+
+export const AUDIO_CACHE_NAME = 'crater-audio-v1';
+
+export type AudioType = 'audiobook' | 'soundtrack';
+
+export type AudioCacheMessage =
+  | { type: 'audio-progress'; id: string; bookId: string; loaded: number; total: number }
+  | { type: 'audio-cached'; id: string; bookId: string; audioType: AudioType; url: string; size: number }
+  | { type: 'audio-error'; id: string; bookId: string; message: string };
+
+const isSupported = () => 'serviceWorker' in navigator && 'caches' in window;
+
+// Signed storage URLs carry a token that changes between visits, so files are
+// cached under their bare path. Keep in step with audioCacheKey in public/sw.js
+export function audioCacheKey(url: string): string {
+  const parsed = new URL(url, window.location.href);
+  return parsed.origin + parsed.pathname;
+}
+
+// Ask the service worker to download a file; progress arrives as messages
+export async function downloadAudioFile(
+  id: string,
+  bookId: string,
+  audioType: AudioType,
+  url: string
+): Promise<void> {
+  if (!isSupported()) throw new Error('Offline audio is not supported in this browser');
+  const registration = await navigator.serviceWorker.ready;
+  registration.active?.postMessage({ type: 'cache-audio', id, bookId, audioType, url });
+}
+
+export async function isAudioFileCached(url: string): Promise<boolean> {
+  if (!isSupported()) return false;
+  const cache = await caches.open(AUDIO_CACHE_NAME);
+  return !!(await cache.match(audioCacheKey(url)));
+}
+
+export async function removeAudioFile(url: string): Promise<void> {
+  if (!isSupported()) return;
+  const cache = await caches.open(AUDIO_CACHE_NAME);
+  await cache.delete(audioCacheKey(url));
+}
+
+export async function clearAudioFiles(): Promise<void> {
+  if (!isSupported()) return;
+  await caches.delete(AUDIO_CACHE_NAME);
+}
+
+// Listen for download updates from the service worker
+export function subscribeToAudioCache(listener: (message: AudioCacheMessage) => void): () => void {
+  if (!isSupported()) return () => {};
+  const handleMessage = (event: MessageEvent) => {
+    const message = event.data as AudioCacheMessage | null;
+    if (message?.type?.startsWith('audio-')) listener(message);
+  };
+  navigator.serviceWorker.addEventListener('message', handleMessage);
+  return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+}
@@ -0,0 +1,162 @@
+// Audiobook read-along
+//
+// A sync map ties moments in an audiobook track to places in the chapter it
+// narrates: [{ time, offset }] in time order, where `offset` is in the chapter's
+// plain text (the coordinate space bookmarks and highlights use). Admins upload
+// alignment files from a forced-alignment tool in one of two formats:
+//   - JSON: an array of fragments, or { fragments: [...] } as aeneas writes it,
+//     each with a `begin` time and optionally its `text` (or `lines`)
+//   - SMIL, as in EPUB media overlays: <par> elements with an <audio clipBegin>
+// Fragments that carry their text are found in the chapter; the rest are
+// matched to its paragraphs in order. SMIL points at paragraphs by element id
+// (<text src="chapter.xhtml#p12">), which chapters stored as markup don't have,
+// so a file without text is only accepted with one fragment per paragraph.
+
+export interface SyncPoint {
+  time: number;
+  offset: number;
+}
+
+interface SyncFragment {
+  begin: number;
+  text: string | null;
+}
+
+// Seconds from "12.5", "12.5s", "500ms", "1:02.5" or "0:01:02.500"
+export function parseClockValue(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) && value >= 0 ? value : null;
+  if (typeof value !== 'string') return null;
+
+  const trimmed = value.trim();
+  const unit = trimmed.match(/^([\d.]+)(ms|s)?$/);
+  if (unit) {
+    const amount = parseFloat(unit[1]);
+    if (!Number.isFinite(amount)) return null;
+    return unit[2] === 'ms' ? amount / 1000 : amount;
+  }
+
+  const parts = trimmed.split(':');
+  if (parts.length < 2 || parts.length > 3 || parts.some(p => !/^[\d.]+$/.test(p))) return null;
+  return parts.reduce((total, part) => total * 60 + parseFloat(part), 0);
+}
+
+function parseJsonFragments(source: string): SyncFragment[] {
+  const data: unknown = JSON.parse(source);
+  const list = Array.isArray(data)
+    ? data
+    : (data as { fragments?: unknown })?.fragments;
+  if (!Array.isArray(list)) throw new Error('Expected an array of fragments');
+
+  return list.flatMap((item): SyncFragment[] => {
+    const fragment = item as { begin?: unknown; time?: unknown; text?: unknown; lines?: unknown };
+    const begin = parseClockValue(fragment.begin ?? fragment.time);
+    if (begin === null) return [];
+    const text = typeof fragment.text === 'string'
+      ? fragment.text
+      : Array.isArray(fragment.lines) ? fragment.lines.filter(l => typeof l === 'string').join(' ') : null;
+    return [{ begin, text: text?.trim() || null }];
+  });
+}
+
+function parseSmilFragments(source: string): SyncFragment[] {
+  const doc = new DOMParser().parseFromString(source, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('The SMIL file is not valid XML');
+
+  return Array.from(doc.getElementsByTagNameNS('*', 'par')).flatMap((par): SyncFragment[] => {
+    const audio = par.getElementsByTagNameNS('*', 'audio')[0];
+    const begin = parseClockValue(audio?.getAttribute('clipBegin') ?? audio?.getAttribute('clip-begin'));
+    return begin === null ? [] : [{ begin, text: null }];
+  });
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Where a fragment's opening words appear in the chapter, at or after `from`
+function findFragment(plainText: string, text: string, from: number): number {
+  const words = text.split(/\s+/).filter(Boolean).slice(0, 8).map(escapeRegExp);
+  if (words.length === 0) return -1;
+  const pattern = new RegExp(words.join('\\s+'), 'g');
+  pattern.lastIndex = from;
+  return pattern.exec(plainText)?.index ?? -1;
+}
+
+// Turn an uploaded alignment file into a sync map for a chapter. `paragraphOffsets`
+// are where the chapter's text paragraphs start, for fragments without text.
+export function parseSyncMap(
+  source: string,
+  fileName: string,
+  plainText: string,
+  paragraphOffsets: number[]
+): SyncPoint[] {
+  const isSmil = /\.(smil|xml)$/i.test(fileName) || source.trimStart().startsWith('<');
+  const fragments = isSmil ? parseSmilFragments(source) : parseJsonFragments(source);
+
+  if (fragments.some(f => !f.text) && fragments.length !== paragraphOffsets.length) {
+    throw new Error(
+      `The file has ${fragments.length} timings but the chapter has ${paragraphOffsets.length} paragraphs`
+    );
+  }
+
+  let cursor = 0;
+  const points = fragments.flatMap((fragment, index): SyncPoint[] => {
+    if (fragment.text) {
+      const offset = findFragment(plainText, fragment.text, cursor);
+      if (offset < 0) return [];
+      cursor = offset + 1;
+      return [{ time: fragment.begin, offset }];
+    }
+    const offset = paragraphOffsets[index];
+    return offset === undefined ? [] : [{ time: fragment.begin, offset }];
+  });
+
+  if (points.length === 0) throw new Error('No timings in the file matched the chapter text');
+  return points.sort((a, b) => a.time - b.time);
+}
+
+// A sync map as stored in book_audio.sync_map, or null if it isn't one
+export function toSyncMap(value: unknown): SyncPoint[] | null {
+  if (!Array.isArray(value)) return null;
+  const points = value.filter((p): p is SyncPoint =>
+    typeof p?.time === 'number' && typeof p?.offset === 'number'
+  );
+  return points.length > 0 ? points : null;
+}
+
+// The place in the chapter being narrated at `time`. Without a sync map the
+// narrator is assumed to keep an even pace through the text.
+export function offsetAtTime(
+  syncMap: SyncPoint[] | null,
+  time: number,
+  duration: number,
+  textLength: number
+): number {
+  if (!syncMap) {
+    return duration > 0 ? Math.round(textLength * Math.min(1, time / duration)) : 0;
+  }
+  let offset = 0;
+  for (const point of syncMap) {
+    if (point.time > time) break;
+    offset = point.offset;
+  }
+  return offset;
+}
+
+// When the narrator reaches a place in the chapter; the inverse of offsetAtTime
+export function timeAtOffset(
+  syncMap: SyncPoint[] | null,
+  offset: number,
+  duration: number,
+  textLength: number
+): number {
+  if (!syncMap) {
+    return textLength > 0 && duration > 0 ? duration * Math.min(1, offset / textLength) : 0;
+  }
+  let time = 0;
+  for (const point of syncMap) {
+    if (point.offset > offset) break;
+    time = point.time;
+  }
+  return time;
+}
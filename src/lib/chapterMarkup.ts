@@ -0,0 +1,116 @@
+// Chapter content markup
+//
+// Chapters are stored as plain text with a small set of brace tags, produced by
+// parse-manuscript and rendered by the reader without any HTML:
+//   - Paragraphs are separated by a blank line
+//   - A paragraph of `* * *` is a scene break
+//   - `{center}` or `{right}` at the start of a paragraph sets its alignment
+//   - `{i}…{/i}`, `{b}…{/b}` and `{sc}…{/sc}` mark italic, bold and small-caps runs
+// Plain-text chapters contain no tags and render exactly as before.
+
+export type ParagraphAlign = 'left' | 'center' | 'right';
+
+export interface MarkupRun {
+  text: string;
+  italic: boolean;
+  bold: boolean;
+  smallCaps: boolean;
+}
+
+export type MarkupBlock =
+  | { type: 'paragraph'; align: ParagraphAlign; runs: MarkupRun[] }
+  | { type: 'sceneBreak' };
+
+const sceneBreakRegex = /^\s*\*\s*\*\s*\*\s*$/;
+const alignRegex = /^\{(center|right)\}/;
+const inlineTagRegex = /\{(\/?)(i|b|sc)\}/g;
+
+function parseRuns(text: string): MarkupRun[] {
+  const runs: MarkupRun[] = [];
+  const state = { i: false, b: false, sc: false };
+  let lastIndex = 0;
+
+  const push = (chunk: string) => {
+    if (!chunk) return;
+    const previous = runs[runs.length - 1];
+    if (previous && previous.italic === state.i && previous.bold === state.b && previous.smallCaps === state.sc) {
+      previous.text += chunk;
+    } else {
+      runs.push({ text: chunk, italic: state.i, bold: state.b, smallCaps: state.sc });
+    }
+  };
+
+  for (const match of text.matchAll(inlineTagRegex)) {
+    push(text.slice(lastIndex, match.index));
+    state[match[2] as 'i' | 'b' | 'sc'] = match[1] !== '/';
+    lastIndex = match.index! + match[0].length;
+  }
+  push(text.slice(lastIndex));
+
+  return runs;
+}
+
+// Split chapter content into renderable blocks
+export function parseChapterMarkup(content: string | null): MarkupBlock[] {
+  if (!content) return [];
+
+  const paragraphs = content.split(/\r?\n\s*\r?\n/).filter(p => p.trim());
+  const source = paragraphs.length > 0 ? paragraphs : [content];
+
+  return source.map((paragraph): MarkupBlock => {
+    if (sceneBreakRegex.test(paragraph)) return { type: 'sceneBreak' };
+
+    const alignMatch = paragraph.trim().match(alignRegex);
+    const body = alignMatch ? paragraph.trim().slice(alignMatch[0].length) : paragraph;
+    return {
+      type: 'paragraph',
+      align: (alignMatch?.[1] as ParagraphAlign) ?? 'left',
+      runs: parseRuns(body),
+    };
+  });
+}
+
+// Text of a block with all markup removed
+export function blockText(block: MarkupBlock): string {
+  return block.type === 'paragraph' ? block.runs.map(r => r.text).join('') : '';
+}
+
+// Remove all markup from content, keeping paragraph breaks
+export function stripChapterMarkup(content: string): string {
+  return content
+    .replace(/^[ \t]*\{(center|right)\}/gm, '')
+    .replace(inlineTagRegex, '');
+}
+
+// Where each block's text starts within stripChapterMarkup(content), the
+// coordinate space highlight positions are stored in. Scene breaks get the
+// offset of the text that follows them.
+export function blockOffsets(content: string | null, blocks: MarkupBlock[]): number[] {
+  if (!content) return [];
+
+  const plain = stripChapterMarkup(content);
+  let cursor = 0;
+
+  return blocks.map(block => {
+    const text = blockText(block);
+    if (!text) return cursor;
+    const start = plain.indexOf(text, cursor);
+    if (start < 0) return cursor;
+    cursor = start + text.length;
+    return start;
+  });
+}
+
+// A short passage of plain text around an offset, cut at word boundaries
+export function excerptAt(content: string | null, offset: number, maxLength = 160): string {
+  if (!content) return '';
+
+  const plain = stripChapterMarkup(content);
+  const start = Math.max(0, Math.min(offset, plain.length) - Math.floor(maxLength / 4));
+  const end = Math.min(plain.length, start + maxLength);
+
+  let excerpt = plain.slice(start, end).replace(/\s+/g, ' ');
+  if (start > 0) excerpt = '…' + excerpt.replace(/^\S*\s/, '');
+  if (end < plain.length) excerpt = excerpt.replace(/\s\S*$/, '') + '…';
+  return excerpt.trim();
+}
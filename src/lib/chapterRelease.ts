@@ -0,0 +1,46 @@
+// Scheduled chapter releases
+//
+// A chapter with a release_at in the future stays hidden until that moment.
+// When a book sets early_access_days, Inner Circle subscribers can read it that
+// many days sooner. The same rule is enforced by the chapters RLS policy through
+// is_chapter_released(); this copy lets the client hide chapters it already has
+// (for example from the offline cache) and label early-access ones.
+
+import { format, subDays } from 'date-fns';
+
+export interface ReleaseAccess {
+  isAdmin: boolean;
+  isInnerCircle: boolean;
+  earlyAccessDays: number;
+}
+
+// When Inner Circle subscribers can read a chapter, or null without early access
+export function getEarlyAccessDate(releaseAt: string, earlyAccessDays: number): Date | null {
+  return earlyAccessDays > 0 ? subDays(new Date(releaseAt), earlyAccessDays) : null;
+}
+
+export function isChapterReleased(
+  releaseAt: string | null,
+  access: ReleaseAccess,
+  now: Date = new Date()
+): boolean {
+  if (!releaseAt || access.isAdmin) return true;
+  if (new Date(releaseAt) <= now) return true;
+  if (!access.isInnerCircle) return false;
+  const earlyAccess = getEarlyAccessDate(releaseAt, access.earlyAccessDays);
+  return !!earlyAccess && earlyAccess <= now;
+}
+
+// Released for this reader, but not yet for everyone
+export function isEarlyAccessChapter(releaseAt: string | null, now: Date = new Date()): boolean {
+  return !!releaseAt && new Date(releaseAt) > now;
+}
+
+// Convert between stored timestamps and <input type="datetime-local"> values
+export function toDateTimeInputValue(releaseAt: string | null): string {
+  return releaseAt ? format(new Date(releaseAt), "yyyy-MM-dd'T'HH:mm") : '';
+}
+
+export function fromDateTimeInputValue(value: string): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
@@ -0,0 +1,70 @@
+// Reader highlights
+//
+// Highlight positions are character offsets into the chapter's plain text
+// (stripChapterMarkup), the same space parse-manuscript re-anchors them in on
+// re-import. Rendered paragraphs carry their starting offset in data-offset so a
+// DOM selection can be mapped back onto the plain text.
+
+export type HighlightColor = 'yellow' | 'green' | 'blue' | 'pink';
+
+export const HIGHLIGHT_COLORS: HighlightColor[] = ['yellow', 'green', 'blue', 'pink'];
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+// Background for highlighted text, readable on the dark, light and sepia themes
+export function getHighlightClasses(color: string | null): string {
+  switch (color) {
+    case 'green':
+      return 'bg-green-400/30';
+    case 'blue':
+      return 'bg-sky-400/30';
+    case 'pink':
+      return 'bg-pink-400/30';
+    default:
+      return 'bg-yellow-300/40';
+  }
+}
+
+// Solid swatch for the color palette and annotation list
+export function getSwatchClasses(color: string | null): string {
+  switch (color) {
+    case 'green':
+      return 'bg-green-400';
+    case 'blue':
+      return 'bg-sky-400';
+    case 'pink':
+      return 'bg-pink-400';
+    default:
+      return 'bg-yellow-300';
+  }
+}
+
+// Offset of a DOM point within the chapter's plain text, or null outside a paragraph
+function pointOffset(node: Node, offset: number): number | null {
+  const element = node instanceof Element ? node : node.parentElement;
+  const paragraph = element?.closest<HTMLElement>('[data-offset]');
+  if (!paragraph) return null;
+
+  const range = document.createRange();
+  range.setStart(paragraph, 0);
+  range.setEnd(node, offset);
+  return Number(paragraph.dataset.offset) + range.toString().length;
+}
+
+// Map the current selection onto the plain text, trimming surrounding whitespace
+export function getSelectionRange(selection: Selection | null, plainText: string): TextRange | null {
+  if (!selection || selection.isCollapsed || selection.rangeCount === 0) return null;
+
+  const range = selection.getRangeAt(0);
+  let start = pointOffset(range.startContainer, range.startOffset);
+  let end = pointOffset(range.endContainer, range.endOffset);
+  if (start === null || end === null) return null;
+
+  while (start < end && /\s/.test(plainText[start])) start++;
+  while (end > start && /\s/.test(plainText[end - 1])) end--;
+
+  return end > start ? { start, end } : null;
+}
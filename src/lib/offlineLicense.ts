@@ -0,0 +1,70 @@
+// Licenses for reading books offline
+//
+// The offline-license edge function hands out a book's content key to readers
+// who can read it, along with an expiry. The key is wrapped with this device's
+// non-extractable key as soon as it arrives (see saveLicense), and cached
+// chapters can only be decrypted while the license is current. Licenses are
+// renewed whenever the reader is online; a reader who has lost access gets
+// their copies removed.
+
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  getDeviceId,
+  getLicense,
+  getLicenses,
+  removeDownload,
+  removeLicense,
+  saveLicense,
+} from '@/lib/offlineStorage';
+
+// Licenses with less than this left are renewed while online
+const RENEWAL_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+const needsRenewal = (expiresAt: string) =>
+  new Date(expiresAt).getTime() - Date.now() < RENEWAL_WINDOW_MS;
+
+// Ask the server for a book's content key on this device. Resolves false when
+// the reader has no access to the book
+export async function requestOfflineLicense(bookId: string, userId: string): Promise<boolean> {
+  const deviceId = await getDeviceId();
+  const { data, error } = await supabase.functions.invoke<{ contentKey: string; expiresAt: string }>(
+    'offline-license',
+    { body: { bookId, deviceId } }
+  );
+
+  if (error) {
+    if (error instanceof FunctionsHttpError && error.context.status === 403) return false;
+    throw error;
+  }
+
+  const rawKey = Uint8Array.from(atob(data.contentKey), c => c.charCodeAt(0));
+  await saveLicense(bookId, userId, rawKey, data.expiresAt);
+  return true;
+}
+
+// Make sure the device holds a license with time left on it before caching
+// chapters, asking the server only when it doesn't
+export async function ensureOfflineLicense(bookId: string, userId: string): Promise<boolean> {
+  const license = await getLicense(bookId, userId);
+  if (license && !needsRenewal(license.expiresAt)) return true;
+  return requestOfflineLicense(bookId, userId);
+}
+
+// Renew licenses close to expiring. Books the reader can no longer read are
+// removed from the device along with their license
+export async function renewOfflineLicenses(userId: string): Promise<void> {
+  const licenses = await getLicenses(userId);
+  for (const license of licenses) {
+    if (!needsRenewal(license.expiresAt)) continue;
+    try {
+      const renewed = await requestOfflineLicense(license.bookId, userId);
+      if (!renewed) {
+        await removeDownload(license.bookId, userId);
+        await removeLicense(license.bookId, userId);
+      }
+    } catch (error) {
+      console.error('Failed to renew offline license:', (error as Error).message);
+    }
+  }
+}
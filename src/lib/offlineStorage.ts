@@ -1,27 +1,45 @@
 import { openDB, DBSchema, IDBPDatabase } from 'idb';
 import { encryptContent, decryptContent } from '@/hooks/useContentProtection';
+import { clearAudioFiles, downloadAudioFile, isAudioFileCached, removeAudioFile, type AudioType } from '@/lib/audioCache';
+import type { SyncPoint } from '@/lib/audioSync';
+
+// Share of the storage quota past which the least recently read downloads are evicted
+export const STORAGE_EVICTION_RATIO = 0.8;
+
+// Delays between attempts to sync a queued action double from the first up to the most
+const SYNC_RETRY_BASE_MS = 5 * 1000;
+const SYNC_RETRY_MAX_MS = 10 * 60 * 1000;
 
 interface CraterDB extends DBSchema {
   chapters: {
-    key: string;
+    key: [string, string];
     value: {
+      // Each reader's copy is encrypted with their own content key
+      userId: string;
       id: string;
       bookId: string;
       content: string; // Encrypted content
       title: string;
       chapterOrder: number;
+      // Missing on entries cached before it was recorded
+      wordCount?: number | null;
       cachedAt: Date;
       encrypted: boolean;
     };
-    indexes: { 'by-book': string };
+    indexes: { 'by-reader-book': [string, string] };
   };
   pendingSync: {
     key: string;
     value: {
+      // Client-generated, so the server can tell a retry from a new change
       id: string;
-      type: 'progress' | 'bookmark' | 'highlight';
+      type: 'progress' | 'bookmark' | 'highlight' | 'preferences' | 'reading_time' | 'audio_position';
       data: Record<string, unknown>;
+      // When the change was made; the server merges by it
       createdAt: Date;
+      // Failed syncs so far, and when to try again. Missing until the first failure
+      attempts?: number;
+      nextAttemptAt?: Date;
     };
   };
   audioCache: {
@@ -29,59 +47,102 @@ interface CraterDB extends DBSchema {
     value: {
       id: string;
       bookId: string;
-      type: 'audiobook' | 'soundtrack';
+      type: AudioType;
       url: string;
+      // Track details, so downloaded audio plays without reaching the server.
+      // Missing on entries recorded before downloads were real
+      name?: string;
+      chapterId?: string | null;
+      durationSeconds?: number | null;
+      syncMap?: SyncPoint[] | null;
+      sortOrder?: number;
+      // Bytes in Cache Storage, once the service worker has finished
+      size?: number;
       cachedAt: Date;
     };
     indexes: { 'by-book': string };
   };
-  userSession: {
+  downloads: {
+    key: [string, string];
+    value: {
+      userId: string;
+      bookId: string;
+      title: string;
+      coverUrl: string | null;
+      chapterCount: number;
+      audioCount: number;
+      downloadedAt: Date;
+      // Eviction removes the least recently read books first
+      lastReadAt: Date;
+    };
+  };
+  device: {
     key: string;
     value: {
       id: string;
-      oderId: string;
-      deviceFingerprint: string;
+      // Names this device to the server when it asks for licenses
+      deviceId: string;
+      // Wraps content keys; generated here and never exportable
+      key: CryptoKey;
       createdAt: Date;
     };
   };
+  licenses: {
+    key: [string, string];
+    value: {
+      bookId: string;
+      userId: string;
+      // The book's content key from the server, wrapped with the device key
+      wrappedKey: ArrayBuffer;
+      iv: Uint8Array<ArrayBuffer>;
+      expiresAt: string;
+      renewedAt: Date;
+    };
+  };
+  progress: {
+    key: [string, string];
+    value: {
+      userId: string;
+      bookId: string;
+      // Where the reader last was in the book, so it reopens there offline
+      chapterId: string | null;
+      chapterPosition: number;
+      chapterPercent: number;
+      progressPercent: number | null;
+      lastReadAt: string | null;
+    };
+  };
+  preferences: {
+    key: string;
+    value: {
+      userId: string;
+      theme: 'dark' | 'light' | 'sepia';
+      fontSize: number;
+      lineWidth: 'narrow' | 'medium' | 'wide';
+      // Missing on entries cached before these settings existed
+      layout?: 'scroll' | 'paginated';
+      fontFamily?: 'serif' | 'sans' | 'dyslexic';
+      lineHeight?: number;
+      paragraphSpacing?: number;
+      justify?: boolean;
+      hyphenate?: boolean;
+      margins?: 'narrow' | 'medium' | 'wide';
+      updatedAt: string;
+    };
+  };
 }
 
 let db: IDBPDatabase<CraterDB> | null = null;
 
-// Generate a device-specific fingerprint for encryption
-async function getDeviceFingerprint(): Promise<string> {
-  const components = [
-    navigator.userAgent,
-    navigator.language,
-    screen.width,
-    screen.height,
-    screen.colorDepth,
-    new Date().getTimezoneOffset(),
-  ];
-  
-  const data = components.join('|');
-  const encoder = new TextEncoder();
-  const hash = await crypto.subtle.digest('SHA-256', encoder.encode(data));
-  return Array.from(new Uint8Array(hash))
-    .map(b => b.toString(16).padStart(2, '0'))
-    .join('');
-}
-
-// Generate encryption key from user ID + device fingerprint
-async function getEncryptionKey(userId: string): Promise<string> {
-  const fingerprint = await getDeviceFingerprint();
-  return `${userId}:${fingerprint}:crater-mythos-secure`;
-}
-
 export async function initOfflineDB(): Promise<IDBPDatabase<CraterDB>> {
   if (db) return db;
   
-  db = await openDB<CraterDB>('crater-mythos', 2, {
-    upgrade(database, oldVersion) {
-      // Chapters store
+  db = await openDB<CraterDB>('crater-mythos', 8, {
+    async upgrade(database, oldVersion, _newVersion, transaction) {
+      // Chapters store, one copy per reader
       if (!database.objectStoreNames.contains('chapters')) {
-        const chaptersStore = database.createObjectStore('chapters', { keyPath: 'id' });
-        chaptersStore.createIndex('by-book', 'bookId');
+        const chaptersStore = database.createObjectStore('chapters', { keyPath: ['userId', 'id'] });
+        chaptersStore.createIndex('by-reader-book', ['userId', 'bookId']);
       }
       
       // Pending sync store
@@ -95,9 +156,77 @@ export async function initOfflineDB(): Promise<IDBPDatabase<CraterDB>> {
         audioStore.createIndex('by-book', 'bookId');
       }
       
-      // User session store (for verifying decryption rights)
-      if (!database.objectStoreNames.contains('userSession')) {
-        database.createObjectStore('userSession', { keyPath: 'id' });
+      // Reader preferences store (last known settings per user)
+      if (!database.objectStoreNames.contains('preferences')) {
+        database.createObjectStore('preferences', { keyPath: 'userId' });
+      }
+      
+      // Books each reader downloaded for offline reading from the dashboard
+      if (!database.objectStoreNames.contains('downloads')) {
+        database.createObjectStore('downloads', { keyPath: ['userId', 'bookId'] });
+      }
+      
+      // This device's wrapping key
+      if (!database.objectStoreNames.contains('device')) {
+        database.createObjectStore('device', { keyPath: 'id' });
+      }
+      
+      // Offline licenses, one per reader and book
+      if (!database.objectStoreNames.contains('licenses')) {
+        database.createObjectStore('licenses', { keyPath: ['userId', 'bookId'] });
+      }
+      
+      // Last known reading position per reader and book
+      if (!database.objectStoreNames.contains('progress')) {
+        database.createObjectStore('progress', { keyPath: ['userId', 'bookId'] });
+      }
+      
+      // Before version 5 chapters were encrypted with a key built from the user
+      // ID and a browser fingerprint; they can't be read with licensed keys
+      if (oldVersion > 0 && oldVersion < 5) {
+        transaction.objectStore('chapters').clear();
+        transaction.objectStore('downloads').clear();
+        if (database.objectStoreNames.contains('userSession' as never)) {
+          database.deleteObjectStore('userSession' as never);
+        }
+      }
+      
+      // Before version 7 licenses were keyed by book alone, so a second reader
+      // on the device replaced the first one's license; keep the ones there are
+      if (oldVersion >= 5 && oldVersion < 7) {
+        const licenses = await transaction.objectStore('licenses').getAll();
+        database.deleteObjectStore('licenses');
+        const store = database.createObjectStore('licenses', { keyPath: ['userId', 'bookId'] });
+        for (const license of licenses) {
+          await store.put(license);
+        }
+      }
+      
+      // Before version 8 cached chapters and downloads were shared by every
+      // reader on the device, though each reader's copy is encrypted with their
+      // own key. They go to the reader holding the book's license, and are
+      // dropped when more than one does
+      if (oldVersion > 0 && oldVersion < 8) {
+        const owners = new Map<string, string | null>();
+        for (const license of await transaction.objectStore('licenses').getAll()) {
+          owners.set(license.bookId, owners.has(license.bookId) ? null : license.userId);
+        }
+        const chapters = await transaction.objectStore('chapters').getAll();
+        const downloads = await transaction.objectStore('downloads').getAll();
+        database.deleteObjectStore('chapters');
+        database.deleteObjectStore('downloads');
+        
+        const chaptersStore = database.createObjectStore('chapters', { keyPath: ['userId', 'id'] });
+        chaptersStore.createIndex('by-reader-book', ['userId', 'bookId']);
+        const downloadsStore = database.createObjectStore('downloads', { keyPath: ['userId', 'bookId'] });
+        for (const chapter of chapters) {
+          const userId = owners.get(chapter.bookId);
+          if (userId) await chaptersStore.put({ ...chapter, userId });
+        }
+        for (const download of downloads) {
+          const userId = owners.get(download.bookId);
+          if (userId) await downloadsStore.put({ ...download, userId });
+        }
       }
     },
   });
@@ -105,6 +234,102 @@ export async function initOfflineDB(): Promise<IDBPDatabase<CraterDB>> {
   return db;
 }
 
+// This device's wrapping key, created on first use
+async function getDeviceKey(): Promise<CraterDB['device']['value']> {
+  const database = await initOfflineDB();
+  const existing = await database.get('device', 'current');
+  if (existing) return existing;
+  
+  const device = {
+    id: 'current',
+    deviceId: crypto.randomUUID(),
+    key: await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['wrapKey', 'unwrapKey']),
+    createdAt: new Date(),
+  };
+  try {
+    await database.add('device', device);
+    return device;
+  } catch {
+    // Another caller created it first; licenses must all use the same key
+    return (await database.get('device', 'current'))!;
+  }
+}
+
+export async function getDeviceId(): Promise<string> {
+  return (await getDeviceKey()).deviceId;
+}
+
+// Ties a wrapped key to its reader, book and expiry, so editing any of them
+// in storage makes the key unusable
+function licenseData(bookId: string, userId: string, expiresAt: string): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(`${userId}:${bookId}:${expiresAt}`);
+}
+
+// Store a content key issued by the server, wrapped with this device's key
+export async function saveLicense(
+  bookId: string,
+  userId: string,
+  rawKey: Uint8Array<ArrayBuffer>,
+  expiresAt: string
+): Promise<void> {
+  const database = await initOfflineDB();
+  const { key: deviceKey } = await getDeviceKey();
+  const contentKey = await crypto.subtle.importKey('raw', rawKey, 'AES-GCM', true, ['encrypt', 'decrypt']);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const wrappedKey = await crypto.subtle.wrapKey('raw', contentKey, deviceKey, {
+    name: 'AES-GCM',
+    iv,
+    additionalData: licenseData(bookId, userId, expiresAt),
+  });
+  await database.put('licenses', { bookId, userId, wrappedKey, iv, expiresAt, renewedAt: new Date() });
+}
+
+export async function getLicense(
+  bookId: string,
+  userId: string
+): Promise<CraterDB['licenses']['value'] | undefined> {
+  const database = await initOfflineDB();
+  return database.get('licenses', [userId, bookId]);
+}
+
+export async function getLicenses(userId: string): Promise<CraterDB['licenses']['value'][]> {
+  const database = await initOfflineDB();
+  return (await database.getAll('licenses')).filter(l => l.userId === userId);
+}
+
+export async function removeLicense(bookId: string, userId: string): Promise<void> {
+  const database = await initOfflineDB();
+  await database.delete('licenses', [userId, bookId]);
+}
+
+function isLicenseCurrent(
+  license: CraterDB['licenses']['value'] | undefined
+): license is CraterDB['licenses']['value'] {
+  return !!license && new Date(license.expiresAt).getTime() > Date.now();
+}
+
+// The book's content key, while this device holds a current license for it
+async function getContentKey(bookId: string, userId: string): Promise<CryptoKey | null> {
+  const license = await getLicense(bookId, userId);
+  if (!isLicenseCurrent(license)) return null;
+  
+  const { key: deviceKey } = await getDeviceKey();
+  try {
+    return await crypto.subtle.unwrapKey(
+      'raw',
+      license.wrappedKey,
+      deviceKey,
+      { name: 'AES-GCM', iv: license.iv, additionalData: licenseData(bookId, userId, license.expiresAt) },
+      'AES-GCM',
+      false,
+      ['encrypt', 'decrypt']
+    );
+  } catch (error) {
+    console.warn('Offline license could not be opened:', (error as Error).message);
+    return null;
+  }
+}
+
 // Cache chapters for offline reading with encryption
 export async function cacheChapters(
   chapters: Array<{
@@ -113,29 +338,26 @@ export async function cacheChapters(
     content: string | null;
     title: string;
     chapter_order: number;
+    word_count: number | null;
   }>,
-  userId: string
+  userId: string,
+  onProgress?: (done: number, total: number) => void
 ): Promise<void> {
-  if (!userId) {
+  if (!userId || chapters.length === 0) {
     console.warn('Cannot cache chapters without user ID');
     return;
   }
   
   const database = await initOfflineDB();
-  const encryptionKey = await getEncryptionKey(userId);
-  const fingerprint = await getDeviceFingerprint();
+  const encryptionKey = await getContentKey(chapters[0].book_id, userId);
+  if (!encryptionKey) {
+    console.warn('No offline license for this book - chapters not cached');
+    return;
+  }
   
   // Pre-encrypt all content BEFORE starting the transaction
   // This avoids the "transaction has finished" error
-  const encryptedChapters: Array<{
-    id: string;
-    bookId: string;
-    content: string;
-    title: string;
-    chapterOrder: number;
-    cachedAt: Date;
-    encrypted: boolean;
-  }> = [];
+  const encryptedChapters: CraterDB['chapters']['value'][] = [];
   
   for (const chapter of chapters) {
     try {
@@ -144,17 +366,20 @@ export async function cacheChapters(
         : '';
       
       encryptedChapters.push({
+        userId,
         id: chapter.id,
         bookId: chapter.book_id,
         content: encryptedContent,
         title: chapter.title,
         chapterOrder: chapter.chapter_order,
+        wordCount: chapter.word_count,
         cachedAt: new Date(),
         encrypted: true,
       });
     } catch (error) {
       console.error('Failed to encrypt chapter:', error);
     }
+    onProgress?.(encryptedChapters.length, chapters.length);
   }
   
   // Now write all encrypted data in a single synchronous transaction
@@ -163,14 +388,6 @@ export async function cacheChapters(
     tx.store.put(chapter);
   }
   await tx.done;
-  
-  // Store the user session for verification
-  await database.put('userSession', {
-    id: 'current',
-    oderId: userId,
-    deviceFingerprint: fingerprint,
-    createdAt: new Date(),
-  });
 }
 
 // Get cached chapters for a book (with decryption)
@@ -183,6 +400,7 @@ export async function getCachedChapters(
   content: string;
   title: string;
   chapterOrder: number;
+  wordCount: number | null;
   cachedAt: Date;
 }>> {
   if (!userId) {
@@ -191,22 +409,15 @@ export async function getCachedChapters(
   
   const database = await initOfflineDB();
   
-  // Verify user session matches
-  const session = await database.get('userSession', 'current');
-  if (!session || session.oderId !== userId) {
-    console.warn('User session mismatch - cached content unavailable for this user');
+  // Without a current license the book stays locked until the reader is
+  // back online to renew it
+  const encryptionKey = await getContentKey(bookId, userId);
+  if (!encryptionKey) {
+    console.warn('No current offline license - cached content unavailable');
     return [];
   }
   
-  // Verify device fingerprint
-  const currentFingerprint = await getDeviceFingerprint();
-  if (session.deviceFingerprint !== currentFingerprint) {
-    console.warn('Device fingerprint changed - cached content unavailable');
-    return [];
-  }
-  
-  const encryptedChapters = await database.getAllFromIndex('chapters', 'by-book', bookId);
-  const encryptionKey = await getEncryptionKey(userId);
+  const encryptedChapters = await database.getAllFromIndex('chapters', 'by-reader-book', [userId, bookId]);
   const decryptedChapters = [];
   
   for (const chapter of encryptedChapters) {
@@ -221,11 +432,11 @@ export async function getCachedChapters(
         content: decryptedContent,
         title: chapter.title,
         chapterOrder: chapter.chapterOrder,
+        wordCount: chapter.wordCount ?? null,
         cachedAt: chapter.cachedAt,
       });
     } catch (error) {
       console.error('Failed to decrypt chapter:', error);
-      // Content was cached with different user/device - skip it
     }
   }
   
@@ -237,35 +448,88 @@ export async function hasBookCached(bookId: string, userId: string): Promise<boo
   if (!userId) return false;
   
   const database = await initOfflineDB();
-  const session = await database.get('userSession', 'current');
   
-  // Quick check - if no session or wrong user, return false without decryption attempt
-  if (!session || session.oderId !== userId) {
+  // Quick check - no current license for this user means nothing readable
+  if (!isLicenseCurrent(await getLicense(bookId, userId))) {
     return false;
   }
   
-  const chapters = await database.getAllFromIndex('chapters', 'by-book', bookId);
-  return chapters.length > 0;
+  return (await database.countFromIndex('chapters', 'by-reader-book', [userId, bookId])) > 0;
+}
+
+// Cache reader preferences so the reader opens with them while offline
+export async function cachePreferences(
+  preferences: CraterDB['preferences']['value']
+): Promise<void> {
+  const database = await initOfflineDB();
+  await database.put('preferences', preferences);
+}
+
+// Get the last known reader preferences for a user
+export async function getCachedPreferences(
+  userId: string
+): Promise<CraterDB['preferences']['value'] | undefined> {
+  if (!userId) return undefined;
+  
+  const database = await initOfflineDB();
+  return database.get('preferences', userId);
+}
+
+// Cache the reader's place in a book so it reopens there while offline
+export async function cacheProgress(
+  progress: CraterDB['progress']['value']
+): Promise<void> {
+  const database = await initOfflineDB();
+  await database.put('progress', progress);
+}
+
+// Get the last known place in a book for a user
+export async function getCachedProgress(
+  bookId: string,
+  userId: string
+): Promise<CraterDB['progress']['value'] | undefined> {
+  if (!userId) return undefined;
+  
+  const database = await initOfflineDB();
+  return database.get('progress', [userId, bookId]);
 }
 
 // Queue offline actions for sync
 export async function queueOfflineAction(
-  type: 'progress' | 'bookmark' | 'highlight',
+  type: 'progress' | 'bookmark' | 'highlight' | 'preferences' | 'reading_time' | 'audio_position',
   data: Record<string, unknown>
 ): Promise<void> {
   const database = await initOfflineDB();
   await database.put('pendingSync', {
-    id: `${type}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    id: crypto.randomUUID(),
     type,
     data,
     createdAt: new Date(),
   });
 }
 
-// Get all pending sync actions
+// Get all pending sync actions, in the order they were made
 export async function getPendingActions(): Promise<CraterDB['pendingSync']['value'][]> {
   const database = await initOfflineDB();
-  return database.getAll('pendingSync');
+  const actions = await database.getAll('pendingSync');
+  return actions.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+}
+
+// Put off a pending action that failed to sync, backing off exponentially
+export async function deferPendingAction(id: string): Promise<void> {
+  const database = await initOfflineDB();
+  const action = await database.get('pendingSync', id);
+  if (!action) return;
+  
+  const attempts = (action.attempts ?? 0) + 1;
+  const delay = Math.min(SYNC_RETRY_BASE_MS * 2 ** (attempts - 1), SYNC_RETRY_MAX_MS);
+  // Jitter, so devices that reconnect together don't retry in step
+  const jittered = delay / 2 + Math.random() * (delay / 2);
+  await database.put('pendingSync', {
+    ...action,
+    attempts,
+    nextAttemptAt: new Date(Date.now() + jittered),
+  });
 }
 
 // Delete a pending action after successful sync
@@ -274,28 +538,138 @@ export async function deletePendingAction(id: string): Promise<void> {
   await database.delete('pendingSync', id);
 }
 
-// Cache audio file reference
-export async function cacheAudioRef(
-  id: string,
+// Record a track and ask the service worker to download it
+export async function queueAudioDownload(
   bookId: string,
-  type: 'audiobook' | 'soundtrack',
-  url: string
+  type: AudioType,
+  track: {
+    id: string;
+    name: string;
+    url: string;
+    chapterId: string | null;
+    durationSeconds: number | null;
+    syncMap: SyncPoint[] | null;
+  },
+  sortOrder: number
 ): Promise<void> {
   const database = await initOfflineDB();
   await database.put('audioCache', {
-    id,
+    id: track.id,
     bookId,
     type,
-    url,
+    url: track.url,
+    name: track.name,
+    chapterId: track.chapterId,
+    durationSeconds: track.durationSeconds,
+    syncMap: track.syncMap,
+    sortOrder,
     cachedAt: new Date(),
   });
+  await downloadAudioFile(track.id, bookId, type, track.url);
 }
 
-// Check if audio is cached for a book
-export async function hasAudioCached(bookId: string): Promise<boolean> {
+// Note the size once the service worker has the whole file
+export async function markAudioCached(id: string, size: number): Promise<void> {
   const database = await initOfflineDB();
+  const audio = await database.get('audioCache', id);
+  if (!audio) return;
+  await database.put('audioCache', { ...audio, size, cachedAt: new Date() });
+}
+
+// A book's finished audio downloads whose bytes are still in Cache Storage.
+// Records of files the browser has since cleared are dropped
+async function presentAudio(bookId: string): Promise<CraterDB['audioCache']['value'][]> {
+  const database = await initOfflineDB();
+  const audio = (await database.getAllFromIndex('audioCache', 'by-book', bookId))
+    .filter(a => a.size !== undefined);
+  const present = await Promise.all(audio.map(a => isAudioFileCached(a.url)));
+  for (const [index, a] of audio.entries()) {
+    if (!present[index]) await database.delete('audioCache', a.id);
+  }
+  return audio.filter((_, index) => present[index]);
+}
+
+// Audio downloaded for a book, in the book's order
+export async function getCachedAudio(bookId: string): Promise<CraterDB['audioCache']['value'][]> {
+  const audio = await presentAudio(bookId);
+  return audio.sort((a, b) => (a.sortOrder ?? 0) - (b.sortOrder ?? 0));
+}
+
+// Delete a downloaded audio file and its record
+export async function removeCachedAudio(id: string): Promise<void> {
+  const database = await initOfflineDB();
+  const audio = await database.get('audioCache', id);
+  if (audio) await removeAudioFile(audio.url);
+  await database.delete('audioCache', id);
+}
+
+// Record a book downloaded from the dashboard
+export async function saveDownload(download: CraterDB['downloads']['value']): Promise<void> {
+  const database = await initOfflineDB();
+  await database.put('downloads', download);
+}
+
+// A reader's downloaded books, most recently read first, with the space each takes
+export async function getDownloads(userId: string): Promise<Array<CraterDB['downloads']['value'] & { size: number }>> {
+  const database = await initOfflineDB();
+  const downloads = (await database.getAll('downloads')).filter(d => d.userId === userId);
+  const withSizes = await Promise.all(downloads.map(async (download) => {
+    const chapters = await database.getAllFromIndex('chapters', 'by-reader-book', [userId, download.bookId]);
+    const audio = await presentAudio(download.bookId);
+    // Encrypted chapter text is stored as UTF-16
+    const size = chapters.reduce((sum, c) => sum + c.content.length * 2, 0)
+      + audio.reduce((sum, a) => sum + (a.size ?? 0), 0);
+    return { ...download, size };
+  }));
+  return withSizes.sort((a, b) => b.lastReadAt.getTime() - a.lastReadAt.getTime());
+}
+
+// Note that a downloaded book was opened, so it is kept over ones left unread
+export async function touchDownload(bookId: string, userId: string): Promise<void> {
+  const database = await initOfflineDB();
+  const download = await database.get('downloads', [userId, bookId]);
+  if (!download) return;
+  await database.put('downloads', { ...download, lastReadAt: new Date() });
+}
+
+// Delete a reader's downloaded book: their chapters and record, and the audio
+// once no other reader on the device has the book
+export async function removeDownload(bookId: string, userId: string): Promise<void> {
+  const database = await initOfflineDB();
+  const chapters = await database.getAllFromIndex('chapters', 'by-reader-book', [userId, bookId]);
+  const tx = database.transaction('chapters', 'readwrite');
+  for (const chapter of chapters) {
+    tx.store.delete([userId, chapter.id]);
+  }
+  await tx.done;
+
+  await database.delete('downloads', [userId, bookId]);
+
+  const stillDownloaded = (await database.getAll('downloads')).some(d => d.bookId === bookId);
+  if (stillDownloaded) return;
   const audio = await database.getAllFromIndex('audioCache', 'by-book', bookId);
-  return audio.length > 0;
+  for (const a of audio) {
+    await removeCachedAudio(a.id);
+  }
+}
+
+// Remove a reader's least recently read downloads while storage is nearly full,
+// keeping `keepBookId`. Returns the titles removed.
+export async function evictDownloads(userId: string, keepBookId?: string): Promise<string[]> {
+  if (!navigator.storage?.estimate) return [];
+  const database = await initOfflineDB();
+  const candidates = (await database.getAll('downloads'))
+    .filter(d => d.userId === userId && d.bookId !== keepBookId)
+    .sort((a, b) => a.lastReadAt.getTime() - b.lastReadAt.getTime());
+
+  const evicted: string[] = [];
+  for (const download of candidates) {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    if (quota === 0 || usage / quota < STORAGE_EVICTION_RATIO) break;
+    await removeDownload(download.bookId, userId);
+    evicted.push(download.title);
+  }
+  return evicted;
 }
 
 // Clear all cached data (for logout)
@@ -310,33 +684,44 @@ export async function clearAllCache(): Promise<void> {
   await tx2.store.clear();
   await tx2.done;
   
-  const tx3 = database.transaction('userSession', 'readwrite');
+  const tx3 = database.transaction('licenses', 'readwrite');
   await tx3.store.clear();
   await tx3.done;
+  
+  const tx4 = database.transaction('downloads', 'readwrite');
+  await tx4.store.clear();
+  await tx4.done;
+  
+  const tx5 = database.transaction('progress', 'readwrite');
+  await tx5.store.clear();
+  await tx5.done;
+
+  await clearAudioFiles();
 }
 
-// Clear old cache (older than 7 days)
+// Clear old cache (older than 7 days); books downloaded on purpose are kept
 export async function clearOldCache(): Promise<void> {
   const database = await initOfflineDB();
   const sevenDaysAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+  const downloads = await database.getAll('downloads');
+  const downloaded = new Set(downloads.map(d => `${d.userId}:${d.bookId}`));
+  const downloadedBooks = new Set(downloads.map(d => d.bookId));
   
   // Clear old chapters
   const chapters = await database.getAll('chapters');
   const chaptersTx = database.transaction('chapters', 'readwrite');
   for (const chapter of chapters) {
-    if (chapter.cachedAt < sevenDaysAgo) {
-      chaptersTx.store.delete(chapter.id);
+    if (chapter.cachedAt < sevenDaysAgo && !downloaded.has(`${chapter.userId}:${chapter.bookId}`)) {
+      chaptersTx.store.delete([chapter.userId, chapter.id]);
     }
   }
   await chaptersTx.done;
   
-  // Clear old audio
+  // Clear old audio, bytes included, unless any reader downloaded the book
   const audio = await database.getAll('audioCache');
-  const audioTx = database.transaction('audioCache', 'readwrite');
   for (const a of audio) {
-    if (a.cachedAt < sevenDaysAgo) {
-      audioTx.store.delete(a.id);
+    if (a.cachedAt < sevenDaysAgo && !downloadedBooks.has(a.bookId)) {
+      await removeCachedAudio(a.id);
     }
   }
-  await audioTx.done;
 }
@@ -0,0 +1,114 @@
+// Reading position in the rendered chapter
+//
+// Paragraphs rendered by ChapterBlock carry data-offset, their starting
+// character offset in the chapter's plain text. Bookmarks store that offset so
+// the reader can return to the paragraph even when font size or width differ.
+
+// Space taken by the fixed reader header
+const HEADER_OFFSET = 96;
+
+function renderedParagraphs(root: ParentNode = document): HTMLElement[] {
+  return Array.from(root.querySelectorAll<HTMLElement>('[data-offset]'));
+}
+
+// Offset of the first paragraph still visible below the header
+export function getVisibleTextOffset(): number {
+  const paragraph = renderedParagraphs().find(p => p.getBoundingClientRect().bottom > HEADER_OFFSET);
+  return paragraph ? Number(paragraph.dataset.offset) : 0;
+}
+
+// Scroll so the paragraph containing the offset sits just below the header.
+// Returns false while the chapter isn't rendered yet.
+export function scrollToTextOffset(offset: number, behavior: ScrollBehavior = 'smooth'): boolean {
+  const paragraphs = renderedParagraphs();
+  if (paragraphs.length === 0) return false;
+
+  const target = [...paragraphs].reverse().find(p => Number(p.dataset.offset) <= offset) ?? paragraphs[0];
+  const top = target.getBoundingClientRect().top + window.scrollY - HEADER_OFFSET;
+  window.scrollTo({ top: Math.max(0, top), behavior });
+  return true;
+}
+
+// How far through the rendered chapter the reader has scrolled, from 0 to 1.
+// A chapter that fits on one screen counts as read.
+export function getScrollFraction(): number {
+  const scrollable = document.documentElement.scrollHeight - window.innerHeight;
+  if (scrollable <= 0) return 1;
+  return Math.min(1, Math.max(0, window.scrollY / scrollable));
+}
+
+// Paginated layout
+//
+// Pages are the CSS columns of a container, `stride` pixels apart (page width
+// plus column gap). Positions are measured against the container itself so
+// they hold while it is translated to show another page.
+
+// Page an element starts on
+export function getPageOfElement(container: HTMLElement, element: Element, stride: number): number {
+  const left = element.getBoundingClientRect().left - container.getBoundingClientRect().left;
+  return Math.max(0, Math.floor((left + 1) / stride));
+}
+
+// Page holding the paragraph that contains the offset
+export function getPageOfTextOffset(container: HTMLElement, offset: number, stride: number): number {
+  const paragraphs = renderedParagraphs(container);
+  const target = [...paragraphs].reverse().find(p => Number(p.dataset.offset) <= offset) ?? paragraphs[0];
+  return target ? getPageOfElement(container, target, stride) : 0;
+}
+
+// Offset of the first paragraph with any text on the page, including one
+// carried over from the page before
+export function getPageTextOffset(container: HTMLElement, page: number, stride: number): number {
+  const origin = container.getBoundingClientRect().left;
+  const pageStart = page * stride;
+  const pageEnd = pageStart + stride;
+  const paragraph = renderedParagraphs(container).find(p =>
+    Array.from(p.getClientRects()).some(rect => {
+      const left = rect.left - origin;
+      return left + rect.width > pageStart && left < pageEnd;
+    })
+  );
+  return paragraph ? Number(paragraph.dataset.offset) : 0;
+}
+
+// Chapter word counts, with chapters lacking a count given the average of the
+// others so they still carry weight
+function chapterWordCounts(chapters: Array<{ id: string; word_count: number | null }>): number[] {
+  const counted = chapters.filter(c => c.word_count);
+  const fallback = counted.length > 0
+    ? counted.reduce((sum, c) => sum + (c.word_count ?? 0), 0) / counted.length
+    : 1;
+  return chapters.map(c => c.word_count || fallback);
+}
+
+// Whole-book percent, with each chapter weighted by its word count
+export function bookProgressPercent(
+  chapters: Array<{ id: string; word_count: number | null }>,
+  chapterId: string,
+  chapterFraction: number
+): number {
+  const index = chapters.findIndex(c => c.id === chapterId);
+  if (index < 0) return 0;
+
+  const weights = chapterWordCounts(chapters);
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  const read = weights.slice(0, index).reduce((sum, w) => sum + w, 0) + weights[index] * chapterFraction;
+
+  return Math.min(100, Math.round((read / total) * 1000) / 10);
+}
+
+// Words left in the current chapter and in the rest of the book
+export function wordsRemaining(
+  chapters: Array<{ id: string; word_count: number | null }>,
+  chapterId: string,
+  chapterFraction: number
+): { chapter: number; book: number } {
+  const index = chapters.findIndex(c => c.id === chapterId);
+  if (index < 0) return { chapter: 0, book: 0 };
+
+  const weights = chapterWordCounts(chapters);
+  const chapter = weights[index] * (1 - chapterFraction);
+  const book = chapter + weights.slice(index + 1).reduce((sum, w) => sum + w, 0);
+
+  return { chapter: Math.round(chapter), book: Math.round(book) };
+}
@@ -0,0 +1,91 @@
+import { differenceInCalendarDays, format, parseISO, subDays } from 'date-fns';
+
+// Reading stats derived from per-day reading sessions
+//
+// Session dates are the reader's local calendar day (yyyy-MM-dd), so streaks
+// follow their own midnight rather than UTC.
+
+// Typical adult reading speed, used until there's enough of the reader's own history
+export const DEFAULT_WORDS_PER_MINUTE = 230;
+
+// Below this much tracked time a words-per-minute estimate is mostly noise
+const MIN_SECONDS_FOR_WPM = 5 * 60;
+
+export interface ReadingSession {
+  book_id: string;
+  session_date: string;
+  seconds: number;
+  words_read: number;
+}
+
+export interface ReadingDay {
+  date: string;
+  seconds: number;
+  words: number;
+}
+
+export function toSessionDate(date: Date = new Date()): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+// Totals per calendar day, across books
+export function dailyTotals(sessions: ReadingSession[]): Map<string, ReadingDay> {
+  const days = new Map<string, ReadingDay>();
+  for (const session of sessions) {
+    const day = days.get(session.session_date) ?? { date: session.session_date, seconds: 0, words: 0 };
+    day.seconds += session.seconds;
+    day.words += session.words_read;
+    days.set(session.session_date, day);
+  }
+  return days;
+}
+
+// The last `count` days up to today, oldest first, including days without reading
+export function recentDays(days: Map<string, ReadingDay>, count: number, today: Date = new Date()): ReadingDay[] {
+  return Array.from({ length: count }, (_, i) => {
+    const date = toSessionDate(subDays(today, count - 1 - i));
+    return days.get(date) ?? { date, seconds: 0, words: 0 };
+  });
+}
+
+// Consecutive reading days. The current streak survives until the end of the
+// day after the last reading day, so it isn't lost before the reader opens a book today.
+export function readingStreaks(days: Map<string, ReadingDay>, today: Date = new Date()): { current: number; longest: number } {
+  const dates = [...days.values()]
+    .filter(d => d.seconds > 0)
+    .map(d => d.date)
+    .sort();
+
+  let longest = 0;
+  let run = 0;
+  let previous: string | null = null;
+  for (const date of dates) {
+    run = previous && differenceInCalendarDays(parseISO(date), parseISO(previous)) === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = date;
+  }
+
+  const sinceLast = previous ? differenceInCalendarDays(today, parseISO(previous)) : Infinity;
+  return { current: sinceLast <= 1 ? run : 0, longest };
+}
+
+// The reader's own pace, or null until enough reading has been tracked
+export function wordsPerMinute(sessions: ReadingSession[]): number | null {
+  const counted = sessions.filter(s => s.words_read > 0);
+  const seconds = counted.reduce((sum, s) => sum + s.seconds, 0);
+  if (seconds < MIN_SECONDS_FOR_WPM) return null;
+
+  const words = counted.reduce((sum, s) => sum + s.words_read, 0);
+  return Math.round(words / (seconds / 60));
+}
+
+// "45 min", "2 h 5 min", or "<1 min"
+export function formatDuration(seconds: number): string {
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 1) return '<1 min';
+  if (minutes < 60) return `${minutes} min`;
+
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest > 0 ? `${hours} h ${rest} min` : `${hours} h`;
+}
@@ -0,0 +1,104 @@
+import { stripChapterMarkup } from '@/lib/chapterMarkup';
+
+// Full-text search results
+//
+// Online, search_chapters returns ts_headline fragments with matches wrapped
+// in <mark></mark> and fragments joined by <frag>. Offline, the same shape is
+// built here from the decrypted chapter cache. Either way each match resolves
+// to a character offset in the chapter's plain text so the reader can jump to it.
+
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchMatch {
+  chapterId: string;
+  snippet: SnippetPart[];
+  // Offset of the match in stripChapterMarkup(content), or null when the chapter
+  // text isn't at hand to resolve it
+  offset: number | null;
+}
+
+const MAX_MATCHES_PER_CHAPTER = 5;
+const SNIPPET_CONTEXT = 60;
+
+// Split a ts_headline result into its fragments
+export function parseHeadline(headline: string): SnippetPart[][] {
+  return headline
+    .split('<frag>')
+    .map(fragment => fragment
+      .split(/(<mark>.*?<\/mark>)/)
+      .filter(Boolean)
+      .map(part => part.startsWith('<mark>')
+        ? { text: part.slice(6, -7), match: true }
+        : { text: part, match: false }))
+    .filter(parts => parts.some(p => p.match));
+}
+
+// Where a fragment's first match sits in the chapter's plain text
+export function locateSnippet(plainText: string, snippet: SnippetPart[]): number | null {
+  const fragment = snippet.map(p => p.text).join('');
+  const before = snippet.slice(0, snippet.findIndex(p => p.match)).map(p => p.text).join('');
+  const start = plainText.indexOf(fragment);
+  if (start >= 0) return start + before.length;
+
+  // Fall back to the first place the matched word appears
+  const word = snippet.find(p => p.match)?.text;
+  if (!word) return null;
+  const index = plainText.toLowerCase().indexOf(word.toLowerCase());
+  return index >= 0 ? index : null;
+}
+
+// Query words, lowercased, for matching without the server
+export function searchTerms(query: string): string[] {
+  return query
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}']+/u)
+    .filter(term => term.length > 1);
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Search a chapter's text without the server. Every term has to appear in the
+// chapter; words starting with a term count as a match, so "wander" finds
+// "wandering" the way stemming would.
+export function searchChapterText(chapterId: string, content: string | null, query: string): SearchMatch[] {
+  const terms = searchTerms(query);
+  if (!content || terms.length === 0) return [];
+
+  const plain = stripChapterMarkup(content);
+  const lower = plain.toLowerCase();
+  if (!terms.every(term => lower.includes(term))) return [];
+
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${terms.map(escapeRegex).join('|')})[\\p{L}\\p{N}']*`, 'giu');
+  const matches: SearchMatch[] = [];
+  let lastEnd = -1;
+
+  for (const match of plain.matchAll(pattern)) {
+    const index = match.index ?? 0;
+    // Matches close together share one snippet
+    if (index < lastEnd) continue;
+    if (matches.length >= MAX_MATCHES_PER_CHAPTER) break;
+
+    const start = Math.max(0, index - SNIPPET_CONTEXT);
+    const end = Math.min(plain.length, index + match[0].length + SNIPPET_CONTEXT);
+    const before = plain.slice(start, index).replace(/\s+/g, ' ').replace(start > 0 ? /^\S*\s/ : /^/, '');
+    const after = plain.slice(index + match[0].length, end).replace(/\s+/g, ' ').replace(end < plain.length ? /\s\S*$/ : /$/, '');
+
+    matches.push({
+      chapterId,
+      snippet: [
+        { text: (start > 0 ? '…' : '') + before, match: false },
+        { text: match[0], match: true },
+        { text: after + (end < plain.length ? '…' : ''), match: false },
+      ],
+      offset: index,
+    });
+    lastEnd = end;
+  }
+
+  return matches;
+}
@@ -0,0 +1,10 @@
+// The service worker in public/sw.js caches the app shell so the app installs
+// and opens offline, and keeps downloaded audio (see audioCache.ts)
+export function registerServiceWorker(): void {
+  if (!('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((error) => {
+      console.error('Service worker registration failed:', error);
+    });
+  });
+}
@@ -0,0 +1,39 @@
+// Changes merged by the server
+//
+// Reading progress, bookmarks, highlights and reading time are all written
+// through the server's merge (apply_sync_operation), whether the change is made
+// online or replayed from the offline queue by useOfflineSync. The latest
+// position wins, and an edit never overwrites a newer one made on another
+// device.
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Json } from '@/integrations/supabase/types';
+
+export type SyncOperationKind = Database['public']['Enums']['sync_operation_kind'];
+
+export interface SyncOperationResult {
+  applied: boolean;
+  // The change's id was seen before, so it was skipped
+  duplicate?: boolean;
+  // For progress that wasn't applied: the newer position the server has
+  progress?: { chapter_id: string | null; chapter_position: number; progress_percent: number } | null;
+}
+
+// Apply one change made at `at`. Changes replayed from the offline queue pass
+// their `id`, so a retry of one already applied is skipped; changes made online
+// aren't retried and leave it out, so the server keeps no record of them
+export async function applySyncOperation(
+  kind: SyncOperationKind,
+  data: Record<string, unknown>,
+  at: Date = new Date(),
+  id?: string
+): Promise<SyncOperationResult> {
+  const { data: result, error } = await supabase.rpc('apply_sync_operation', {
+    _id: id,
+    _kind: kind,
+    _data: data as Json,
+    _at: at.toISOString(),
+  });
+  if (error) throw error;
+  return result as unknown as SyncOperationResult;
+}
@@ -0,0 +1,35 @@
+import type { CSSProperties } from 'react';
+import type { PageMargin, ReaderFont, ReaderTypography } from '@/hooks/useReaderPreferences';
+import type { ParagraphAlign } from '@/lib/chapterMarkup';
+
+// Typefaces are loaded in main.tsx via @fontsource
+export function getFontStack(font: ReaderFont): string {
+  switch (font) {
+    case 'sans':
+      return "'Inter', system-ui, sans-serif";
+    case 'dyslexic':
+      return "'OpenDyslexic', 'Comic Sans MS', sans-serif";
+    default:
+      return "'EB Garamond', Georgia, serif";
+  }
+}
+
+export function getMarginClass(margins: PageMargin): string {
+  switch (margins) {
+    case 'narrow': return 'px-3';
+    case 'wide': return 'px-12';
+    default: return 'px-6';
+  }
+}
+
+// Inline style for a paragraph. Justification only applies to paragraphs the
+// manuscript leaves left-aligned, so centred and right-aligned text keeps its place.
+export function getParagraphStyle(typography: ReaderTypography, align: ParagraphAlign): CSSProperties {
+  return {
+    fontFamily: getFontStack(typography.fontFamily),
+    lineHeight: typography.lineHeight,
+    marginBottom: `${typography.paragraphSpacing}em`,
+    textAlign: align === 'left' && typography.justify ? 'justify' : align,
+    hyphens: typography.hyphenate ? 'auto' : 'manual',
+  };
+}
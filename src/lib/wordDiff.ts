@@ -0,0 +1,128 @@
+// Word-level diff
+//
+// Text is split into word and whitespace tokens and compared with Myers' O(ND)
+// algorithm, after trimming the tokens both sides share at the start and end.
+// When two versions differ by more than MAX_EDITS tokens, the changed middle is
+// reported as one deletion and one insertion instead.
+
+export type DiffOpType = 'equal' | 'insert' | 'delete';
+
+export interface DiffOp {
+  type: DiffOpType;
+  text: string;
+}
+
+const MAX_EDITS = 2000;
+
+function tokenize(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) ?? [];
+}
+
+function pushOp(ops: DiffOp[], type: DiffOpType, text: string) {
+  if (!text) return;
+  const last = ops[ops.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    ops.push({ type, text });
+  }
+}
+
+// Shortest edit script between two token lists, or null past maxEdits
+function myers(a: string[], b: string[], maxEdits: number): { type: DiffOpType; token: string }[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, maxEdits);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds v for k in [-d-1, d+1] as it was before round d
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(trace, a, b);
+      }
+    }
+  }
+
+  return null;
+}
+
+function backtrack(trace: Int32Array[], a: string[], b: string[]) {
+  const steps: { type: DiffOpType; token: string }[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d > 0; d--) {
+    const vd = trace[d];
+    const at = (k: number) => vd[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      steps.push({ type: 'equal', token: a[x - 1] });
+      x--;
+      y--;
+    }
+    if (x === prevX) {
+      steps.push({ type: 'insert', token: b[prevY] });
+    } else {
+      steps.push({ type: 'delete', token: a[prevX] });
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  while (x > 0 && y > 0) {
+    steps.push({ type: 'equal', token: a[x - 1] });
+    x--;
+    y--;
+  }
+
+  return steps.reverse();
+}
+
+// Diff two texts word by word
+export function diffWords(before: string, after: string): DiffOp[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const ops: DiffOp[] = [];
+  pushOp(ops, 'equal', a.slice(0, start).join(''));
+
+  const middleA = a.slice(start, endA);
+  const middleB = b.slice(start, endB);
+  const steps = myers(middleA, middleB, MAX_EDITS);
+  if (steps) {
+    for (const step of steps) pushOp(ops, step.type, step.token);
+  } else {
+    pushOp(ops, 'delete', middleA.join(''));
+    pushOp(ops, 'insert', middleB.join(''));
+  }
+
+  pushOp(ops, 'equal', a.slice(endA).join(''));
+  return ops;
+}
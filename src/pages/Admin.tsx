@@ -13,6 +13,7 @@ import { CouponModal } from '@/components/admin/CouponModal';
 import { ReaderDetailsModal } from '@/components/admin/ReaderDetailsModal';
 import { EmailInbox } from '@/components/admin/EmailInbox';
 import { PricingManager } from '@/components/admin/PricingManager';
+import { SeriesManager } from '@/components/admin/SeriesManager';
 import { Button } from '@/components/ui/button';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { Sheet, SheetContent, SheetTrigger } from '@/components/ui/sheet';
@@ -493,13 +494,13 @@ function BooksTab() {
     if (files.length === 0) return;
     
     const file = files[0];
-    const validExtensions = ['.docx', '.txt', '.md'];
+    const validExtensions = ['.docx', '.epub', '.pdf', '.txt', '.md'];
     const hasValidExt = validExtensions.some(ext => file.name.toLowerCase().endsWith(ext));
     
     if (!hasValidExt) {
       toast({ 
         title: 'Invalid file type', 
-        description: 'Please upload a DOCX, TXT, or MD file.', 
+        description: 'Please upload a DOCX, EPUB, PDF, TXT, or MD file.', 
         variant: 'destructive' 
       });
       return;
@@ -590,6 +591,8 @@ function BooksTab() {
         ))}
       </div>
 
+      <SeriesManager />
+
       {/* Drag-and-drop upload section */}
       <div 
         className={`mt-8 p-6 md:p-8 border-2 border-dashed rounded-lg text-center transition-colors ${
@@ -605,12 +608,12 @@ function BooksTab() {
         <Upload className={`w-10 md:w-12 h-10 md:h-12 mx-auto mb-4 ${isDragging ? 'text-primary' : 'text-muted-foreground'}`} />
         <h4 className="font-serif mb-2">Upload New Content</h4>
         <p className="text-sm text-muted-foreground mb-4">
-          Drag and drop your DOCX, TXT, or MD file here
+          Drag and drop your DOCX, EPUB, PDF, TXT, or MD file here
         </p>
         <input
           ref={fileInputRef}
           type="file"
-          accept=".docx,.txt,.md"
+          accept=".docx,.epub,.pdf,.txt,.md"
           onChange={handleFileUpload}
           className="hidden"
         />
@@ -3,9 +3,14 @@ import { useNavigate, useSearchParams } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { useAuth } from '@/contexts/AuthContext';
 import { useBooks, BookWithProgress } from '@/hooks/useBooks';
+import { useSeriesList, Series } from '@/hooks/useSeries';
 import { useSubscription } from '@/hooks/useSubscription';
+import { useReaderPreferences, MAX_FONT_SIZE, MIN_FONT_SIZE } from '@/hooks/useReaderPreferences';
+import { useLibrarySearch, MIN_QUERY_LENGTH } from '@/hooks/useSearch';
+import { useOfflineDownloads, type DownloadProgress, type OfflineDownload } from '@/hooks/useOfflineDownloads';
 import { PriceKey } from '@/hooks/usePricing';
 import { SubscriptionModal, BookPurchaseModal } from '@/components/reader/PurchaseModals';
+import { SnippetText } from '@/components/reader/SearchPanel';
 import { toast } from 'sonner';
 import { 
   BookOpen, 
@@ -19,9 +24,19 @@ import {
   Lock,
   CreditCard,
   Loader2,
-  Trash2
+  Trash2,
+  Layers,
+  Minus,
+  Plus,
+  Search,
+  Download,
+  CheckCircle2,
+  HardDrive
 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
 import { supabase } from '@/integrations/supabase/client';
+import { excerptAt } from '@/lib/chapterMarkup';
+import { formatBytes } from '@/lib/utils';
 
 interface DogEar {
   id: string;
@@ -29,13 +44,16 @@ interface DogEar {
   bookTitle: string;
   chapter: string;
   excerpt: string;
+  note: string | null;
   chapterId: string;
 }
 
 export default function Dashboard() {
   const { user, profile, logout, refreshSubscription } = useAuth();
   const { data: books, isLoading: booksLoading } = useBooks();
+  const { data: seriesList } = useSeriesList();
   const { createCheckout, openCustomerPortal, hasActiveSubscription, subscriptionTier, isInnerCircle } = useSubscription();
+  const { preferences, setTheme, setFontSize, setLineWidth, setLayout, setTypography } = useReaderPreferences();
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
   const [copiedReferral, setCopiedReferral] = useState(false);
@@ -43,6 +61,16 @@ export default function Dashboard() {
   const [showSubscriptionModal, setShowSubscriptionModal] = useState(false);
   const [showBookPurchaseModal, setShowBookPurchaseModal] = useState<string | null>(null);
   const [isCheckingOut, setIsCheckingOut] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const { data: textMatches = [], isFetching: isSearchingText } = useLibrarySearch(debouncedSearch);
+  const { downloads, progress: downloadProgress, storage, downloadBook, removeDownload } = useOfflineDownloads();
+
+  // Search the text once typing pauses
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setDebouncedSearch(searchQuery), 300);
+    return () => clearTimeout(timeoutId);
+  }, [searchQuery]);
 
   // Handle success/cancel URL params
   useEffect(() => {
@@ -71,10 +99,12 @@ export default function Dashboard() {
         .select(`
           id,
           chapter_id,
+          position,
           note,
           chapters (
             title,
             content,
+            book_id,
             books (title)
           )
         `)
@@ -83,20 +113,13 @@ export default function Dashboard() {
         .limit(5);
 
       if (data) {
-        // Also get the book_id from chapters
-        const { data: chaptersData } = await supabase
-          .from('chapters')
-          .select('id, book_id')
-          .in('id', data.map(b => b.chapter_id));
-
-        const bookIdMap = new Map(chaptersData?.map(c => [c.id, c.book_id]) || []);
-
         setDogEars(data.map(b => ({
           id: b.id,
-          bookId: bookIdMap.get(b.chapter_id) || '',
-          bookTitle: (b.chapters as any)?.books?.title ?? 'Unknown',
-          chapter: (b.chapters as any)?.title ?? 'Unknown Chapter',
-          excerpt: b.note || ((b.chapters as any)?.content?.substring(0, 100) + '...') || '',
+          bookId: b.chapters?.book_id ?? '',
+          bookTitle: b.chapters?.books?.title ?? 'Unknown',
+          chapter: b.chapters?.title ?? 'Unknown Chapter',
+          excerpt: excerptAt(b.chapters?.content ?? null, b.position),
+          note: b.note,
           chapterId: b.chapter_id,
         })));
       }
@@ -133,6 +156,12 @@ export default function Dashboard() {
 
   const currentBook = books?.find(b => b.progress > 0 && b.progress < 100);
 
+  const searchTerm = searchQuery.trim().toLowerCase();
+  const isSearching = searchTerm.length > 0;
+  const visibleBooks = isSearching
+    ? books?.filter(b => b.title.toLowerCase().includes(searchTerm) || b.author.toLowerCase().includes(searchTerm))
+    : books;
+
   return (
     <div className="min-h-screen bg-background text-foreground">
       {/* Header */}
@@ -140,6 +169,12 @@ export default function Dashboard() {
         <div className="max-w-4xl mx-auto flex justify-between items-center">
           <h1 className="display-text text-lg text-primary">The Crater Mythos</h1>
           <div className="flex items-center gap-4">
+            <button
+              onClick={() => navigate('/stats')}
+              className="text-sm text-muted-foreground hover:text-foreground transition-colors"
+            >
+              Stats
+            </button>
             <span className="text-sm text-muted-foreground font-serif">{profile?.name || user?.email}</span>
             <button 
               onClick={logout}
@@ -233,33 +268,152 @@ export default function Dashboard() {
           animate={{ opacity: 1, y: 0 }}
           transition={{ delay: 0.1 }}
         >
-          <h2 className="text-lg font-serif mb-4 flex items-center gap-2">
-            <BookOpen className="w-5 h-5 text-primary" />
-            Your Library
-          </h2>
+          <div className="mb-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <h2 className="text-lg font-serif flex items-center gap-2">
+              <BookOpen className="w-5 h-5 text-primary" />
+              Your Library
+            </h2>
+            <div className="relative sm:w-64">
+              <Search className="absolute left-3 top-2.5 w-4 h-4 text-muted-foreground" />
+              <input
+                type="search"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                placeholder="Search titles and text"
+                className="w-full pl-9 pr-3 py-2 bg-card border border-border rounded text-sm focus:outline-none focus:ring-1 focus:ring-primary"
+                aria-label="Search the library"
+              />
+            </div>
+          </div>
           {booksLoading ? (
             <div className="flex items-center justify-center py-8">
               <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
             </div>
-          ) : books && books.length > 0 ? (
+          ) : visibleBooks && visibleBooks.length > 0 ? (
             <div className="grid gap-4">
-              {books.map((book) => (
+              {visibleBooks.map((book) => (
                 <BookCard
                   key={book.id}
                   book={book}
+                  downloaded={downloads.some(d => d.bookId === book.id)}
+                  downloadProgress={downloadProgress[book.id]}
                   onRead={() => navigate('/reader/' + book.id)}
                   onPreview={() => navigate('/reader/' + book.id)}
                   onPurchase={() => setShowBookPurchaseModal(book.id)}
+                  onDownload={() => downloadBook(book)}
                 />
               ))}
             </div>
+          ) : isSearching ? (
+            <p className="text-sm text-muted-foreground">No titles match "{searchQuery.trim()}".</p>
           ) : (
             <div className="p-8 bg-card border border-border rounded-lg text-center">
               <p className="text-muted-foreground">No books available yet. Check back soon!</p>
             </div>
           )}
+
+          {/* Matches inside the books */}
+          {debouncedSearch.trim().length >= MIN_QUERY_LENGTH && (
+            <div className="mt-6">
+              <h3 className="text-sm text-muted-foreground mb-3 flex items-center gap-2">
+                In the text
+                {isSearchingText && <Loader2 className="w-3 h-3 animate-spin" />}
+              </h3>
+              {!navigator.onLine ? (
+                <p className="text-sm text-muted-foreground">Searching inside books needs a connection. Open a saved book to search it offline.</p>
+              ) : textMatches.length > 0 ? (
+                <div className="grid gap-3">
+                  {textMatches.map((match) => (
+                    <button
+                      key={match.chapterId}
+                      onClick={() => navigate(`/reader/${match.bookId}?search=${encodeURIComponent(debouncedSearch.trim())}`)}
+                      className="p-4 bg-card border border-border rounded-lg text-left hover:border-primary/50 transition-colors"
+                    >
+                      <p className="text-xs text-muted-foreground mb-1">{match.bookTitle} · {match.chapterTitle}</p>
+                      {match.snippet.length > 0 && (
+                        <p className="font-serif text-sm line-clamp-2">
+                          <SnippetText parts={match.snippet} />
+                        </p>
+                      )}
+                    </button>
+                  ))}
+                </div>
+              ) : !isSearchingText && (
+                <p className="text-sm text-muted-foreground">No passages match.</p>
+              )}
+            </div>
+          )}
         </motion.section>
 
+        {/* Offline downloads */}
+        {(downloads.length > 0 || Object.keys(downloadProgress).length > 0) && (
+          <motion.section
+            className="mb-12"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.12 }}
+          >
+            <h2 className="text-lg font-serif mb-4 flex items-center gap-2">
+              <HardDrive className="w-5 h-5 text-primary" />
+              Offline Downloads
+            </h2>
+            {storage && storage.quota > 0 && (
+              <div className="mb-4">
+                <div className="flex justify-between text-sm text-muted-foreground mb-1">
+                  <span>Storage used</span>
+                  <span>{formatBytes(storage.usage)} of {formatBytes(storage.quota)}</span>
+                </div>
+                <div className="h-1 bg-muted rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-primary transition-all"
+                    style={{ width: `${Math.min(100, (storage.usage / storage.quota) * 100)}%` }}
+                  />
+                </div>
+              </div>
+            )}
+            <div className="space-y-3">
+              {downloads.map((download) => (
+                <DownloadCard
+                  key={download.bookId}
+                  download={download}
+                  onRemove={async () => {
+                    await removeDownload(download.bookId);
+                    toast.success(`Removed ${download.title} from this device`);
+                  }}
+                />
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground mt-3">
+              When space runs low, the books you read least recently are removed first.
+            </p>
+          </motion.section>
+        )}
+
+        {/* Series */}
+        {seriesList && seriesList.length > 0 && (
+          <motion.section
+            className="mb-12"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.15 }}
+          >
+            <h2 className="text-lg font-serif mb-4 flex items-center gap-2">
+              <Layers className="w-5 h-5 text-primary" />
+              Series
+            </h2>
+            <div className="grid md:grid-cols-2 gap-4">
+              {seriesList.map((series) => (
+                <SeriesCard
+                  key={series.id}
+                  series={series}
+                  books={books ?? []}
+                  onOpen={() => navigate('/series/' + series.id)}
+                />
+              ))}
+            </div>
+          </motion.section>
+        )}
+
         {/* Audio section */}
         <motion.section 
           className="mb-12"
@@ -304,7 +458,7 @@ export default function Dashboard() {
                 <DogEarCard 
                   key={dogEar.id} 
                   dogEar={dogEar} 
-                  onNavigate={() => navigate(`/reader/${dogEar.bookId}`)}
+                  onNavigate={() => navigate(`/reader/${dogEar.bookId}?bookmark=${dogEar.id}`)}
                   onDelete={async () => {
                     await supabase.from('bookmarks').delete().eq('id', dogEar.id);
                     setDogEars(prev => prev.filter(d => d.id !== dogEar.id));
@@ -363,9 +517,52 @@ export default function Dashboard() {
               <h3 className="font-serif">Preferences</h3>
             </div>
             <div className="space-y-3">
-              <PreferenceItem label="Reading theme" value="Dark" />
-              <PreferenceItem label="Font size" value="18px" />
-              <PreferenceItem label="Line width" value="Medium" />
+              <PreferenceChoice
+                label="Reading theme"
+                options={['dark', 'light', 'sepia'] as const}
+                value={preferences.theme}
+                onChange={setTheme}
+              />
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-muted-foreground">Font size</span>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => setFontSize(preferences.fontSize - 2)}
+                    disabled={preferences.fontSize <= MIN_FONT_SIZE}
+                    className="p-1 text-muted-foreground hover:text-foreground disabled:opacity-30 transition-colors"
+                    aria-label="Decrease font size"
+                  >
+                    <Minus className="w-3 h-3" />
+                  </button>
+                  <span className="text-foreground w-10 text-center">{preferences.fontSize}px</span>
+                  <button
+                    onClick={() => setFontSize(preferences.fontSize + 2)}
+                    disabled={preferences.fontSize >= MAX_FONT_SIZE}
+                    className="p-1 text-muted-foreground hover:text-foreground disabled:opacity-30 transition-colors"
+                    aria-label="Increase font size"
+                  >
+                    <Plus className="w-3 h-3" />
+                  </button>
+                </div>
+              </div>
+              <PreferenceChoice
+                label="Line width"
+                options={['narrow', 'medium', 'wide'] as const}
+                value={preferences.lineWidth}
+                onChange={setLineWidth}
+              />
+              <PreferenceChoice
+                label="Typeface"
+                options={['serif', 'sans', 'dyslexic'] as const}
+                value={preferences.fontFamily}
+                onChange={(fontFamily) => setTypography({ fontFamily })}
+              />
+              <PreferenceChoice
+                label="Layout"
+                options={['scroll', 'paginated'] as const}
+                value={preferences.layout}
+                onChange={setLayout}
+              />
               <PreferenceItem 
                 label="Subscription" 
                 value={hasActiveSubscription ? (isInnerCircle ? 'Inner Circle' : 'Reader') : 'None'} 
@@ -408,14 +605,20 @@ export default function Dashboard() {
 
 function BookCard({
   book,
+  downloaded,
+  downloadProgress,
   onRead,
   onPreview,
-  onPurchase
+  onPurchase,
+  onDownload
 }: {
   book: BookWithProgress;
+  downloaded: boolean;
+  downloadProgress?: DownloadProgress;
   onRead: () => void;
   onPreview: () => void;
   onPurchase: () => void;
+  onDownload: () => void;
 }) {
   return (
     <div className="p-4 bg-card border border-border rounded-lg flex items-center justify-between">
@@ -429,7 +632,11 @@ function BookCard({
         )}
         <div>
           <h3 className="font-serif">{book.title}</h3>
-          {book.owned ? (
+          {downloadProgress ? (
+            <p className="text-sm text-muted-foreground" role="status">
+              {describeDownload(downloadProgress)}
+            </p>
+          ) : book.owned ? (
             book.progress > 0 && (
               <p className="text-sm text-muted-foreground">{book.progress}% complete</p>
             )
@@ -441,12 +648,29 @@ function BookCard({
         </div>
       </div>
       {book.owned ? (
-        <button
-          onClick={onRead}
-          className="px-4 py-2 bg-primary text-primary-foreground rounded text-sm transition-colors hover:bg-primary/90"
-        >
-          Read
-        </button>
+        <div className="flex items-center gap-2">
+          {downloadProgress ? (
+            <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" aria-hidden="true" />
+          ) : downloaded ? (
+            <CheckCircle2 className="w-4 h-4 text-primary" aria-label="Downloaded for offline reading" />
+          ) : (
+            <button
+              onClick={onDownload}
+              disabled={!navigator.onLine}
+              className="p-2 rounded text-muted-foreground hover:text-foreground hover:bg-muted transition-colors disabled:opacity-30"
+              aria-label={`Download ${book.title} for offline reading`}
+              title="Download for offline"
+            >
+              <Download className="w-4 h-4" />
+            </button>
+          )}
+          <button
+            onClick={onRead}
+            className="px-4 py-2 bg-primary text-primary-foreground rounded text-sm transition-colors hover:bg-primary/90"
+          >
+            Read
+          </button>
+        </div>
       ) : (
         <div className="flex items-center gap-2">
           <button
@@ -467,6 +691,95 @@ function BookCard({
   );
 }
 
+// "Chapters 4 of 12", then "Audio 35%" once the chapters are saved
+function describeDownload(progress: DownloadProgress): string {
+  if (progress.chaptersTotal === 0 || progress.chaptersDone < progress.chaptersTotal) {
+    return progress.chaptersTotal > 0
+      ? `Saving chapters ${progress.chaptersDone} of ${progress.chaptersTotal}`
+      : 'Preparing download…';
+  }
+  if (progress.audioTotal > 0) {
+    return `Saving audio ${Math.round((progress.audioLoaded / progress.audioTotal) * 100)}%`;
+  }
+  return 'Saving audio…';
+}
+
+function DownloadCard({
+  download,
+  onRemove
+}: {
+  download: OfflineDownload;
+  onRemove: () => void;
+}) {
+  return (
+    <div className="p-4 bg-card border border-border rounded-lg flex items-center justify-between gap-4">
+      <div className="min-w-0">
+        <h3 className="font-serif truncate">{download.title}</h3>
+        <p className="text-sm text-muted-foreground">
+          {download.chapterCount} {download.chapterCount === 1 ? 'chapter' : 'chapters'}
+          {download.audioCount > 0 && ` · ${download.audioCount} audio ${download.audioCount === 1 ? 'track' : 'tracks'}`}
+          {` · ${formatBytes(download.size)}`}
+        </p>
+        <p className="text-xs text-muted-foreground">
+          Last read {formatDistanceToNow(download.lastReadAt, { addSuffix: true })}
+        </p>
+      </div>
+      <button
+        onClick={onRemove}
+        className="p-2 text-muted-foreground hover:text-destructive transition-colors"
+        aria-label={`Remove ${download.title} from this device`}
+        title="Remove download"
+      >
+        <Trash2 className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
+
+function SeriesCard({
+  series,
+  books,
+  onOpen
+}: {
+  series: Series;
+  books: BookWithProgress[];
+  onOpen: () => void;
+}) {
+  const volumes = series.bookIds
+    .map(id => books.find(b => b.id === id))
+    .filter((book): book is BookWithProgress => !!book);
+  const finished = volumes.filter(b => b.progress >= 100).length;
+
+  return (
+    <button
+      onClick={onOpen}
+      className="p-4 bg-card border border-border rounded-lg text-left hover:border-primary/50 transition-colors group"
+    >
+      <div className="flex items-center justify-between mb-3">
+        <div className="min-w-0">
+          <h3 className="font-serif truncate">{series.title}</h3>
+          <p className="text-sm text-muted-foreground">
+            {volumes.length} {volumes.length === 1 ? 'book' : 'books'}
+            {finished > 0 && ` · ${finished} finished`}
+          </p>
+        </div>
+        <ChevronRight className="w-4 h-4 text-muted-foreground opacity-0 group-hover:opacity-100 transition-opacity" />
+      </div>
+      <div className="flex gap-2">
+        {volumes.slice(0, 5).map((book) => (
+          book.cover_url ? (
+            <img key={book.id} src={book.cover_url} alt={book.title} className="w-10 h-14 object-cover rounded" />
+          ) : (
+            <div key={book.id} className="w-10 h-14 bg-muted rounded flex items-center justify-center">
+              <BookOpen className="w-4 h-4 text-muted-foreground" />
+            </div>
+          )
+        ))}
+      </div>
+    </button>
+  );
+}
+
 function AudioCard({ 
   title, 
   description, 
@@ -528,7 +841,10 @@ function DogEarCard({
           <ChevronRight className="w-4 h-4 text-muted-foreground opacity-0 group-hover:opacity-100 transition-opacity" />
         </div>
       </div>
-      <p className="text-sm font-serif italic text-foreground/80 line-clamp-2">{dogEar.excerpt}</p>
+      <p className="text-sm font-serif italic text-foreground/80 line-clamp-3">{dogEar.excerpt}</p>
+      {dogEar.note && (
+        <p className="text-sm text-muted-foreground mt-2">{dogEar.note}</p>
+      )}
     </div>
   );
 }
@@ -541,3 +857,37 @@ function PreferenceItem({ label, value }: { label: string; value: string }) {
     </div>
   );
 }
+
+function PreferenceChoice<T extends string>({
+  label,
+  options,
+  value,
+  onChange,
+}: {
+  label: string;
+  options: readonly T[];
+  value: T;
+  onChange: (value: T) => void;
+}) {
+  return (
+    <div className="flex items-center justify-between text-sm">
+      <span className="text-muted-foreground">{label}</span>
+      <div className="flex gap-1">
+        {options.map((option) => (
+          <button
+            key={option}
+            onClick={() => onChange(option)}
+            className={`px-2 py-0.5 rounded text-xs capitalize transition-colors ${
+              value === option
+                ? 'bg-primary text-primary-foreground'
+                : 'text-muted-foreground hover:text-foreground'
+            }`}
+            aria-pressed={value === option}
+          >
+            {option}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,18 +1,43 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
-import { useNavigate, useParams } from 'react-router-dom';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useIdleTimer } from '@/hooks/useIdleTimer';
 import { useSwipeGesture } from '@/hooks/useSwipeGesture';
 import { useBookChapters } from '@/hooks/useBooks';
-import { useReadingProgress } from '@/hooks/useReadingProgress';
-import { useBookmarkMutations } from '@/hooks/useBookmarks';
+import { useNextInSeries } from '@/hooks/useSeries';
+import { useReadingProgress, type ProgressUpdate } from '@/hooks/useReadingProgress';
+import { useBookBookmarks, useBookmarkMutations, type BookBookmark } from '@/hooks/useBookmarks';
+import { useBookHighlights, useHighlightMutations, type BookHighlight } from '@/hooks/useHighlights';
 import { useSubscription } from '@/hooks/useSubscription';
 import { useOfflineSync } from '@/hooks/useOfflineSync';
+import { useReaderPreferences } from '@/hooks/useReaderPreferences';
+import { useReadingTime } from '@/hooks/useReadingTime';
+import { useReadingStats } from '@/hooks/useReadingStats';
 import { useAudioPlayer } from '@/hooks/useAudioPlayer';
+import { useSpeechNarration, type NarrationParagraph } from '@/hooks/useSpeechNarration';
 import { useBookAudio } from '@/hooks/useBookAudio';
+import { useAudioPositions } from '@/hooks/useAudioPositions';
 import { useContentProtection } from '@/hooks/useContentProtection';
 import { useAuth } from '@/contexts/AuthContext';
-import { cacheChapters } from '@/lib/offlineStorage';
+import { cacheChapters, touchDownload } from '@/lib/offlineStorage';
+import { ensureOfflineLicense } from '@/lib/offlineLicense';
+import { blockOffsets, blockText, excerptAt, parseChapterMarkup, stripChapterMarkup } from '@/lib/chapterMarkup';
+import {
+  bookProgressPercent,
+  getPageOfElement,
+  getPageOfTextOffset,
+  getPageTextOffset,
+  getScrollFraction,
+  getVisibleTextOffset,
+  scrollToTextOffset,
+  wordsRemaining,
+} from '@/lib/readingPosition';
+import { DEFAULT_WORDS_PER_MINUTE, formatDuration } from '@/lib/readingStats';
+import { offsetAtTime, timeAtOffset } from '@/lib/audioSync';
+import { getMarginClass } from '@/lib/typography';
+import { getSelectionRange, type HighlightColor, type TextRange } from '@/lib/highlights';
+import type { SearchMatch } from '@/lib/search';
+import { isEarlyAccessChapter } from '@/lib/chapterRelease';
 import { PriceKey } from '@/hooks/usePricing';
 import { Loader2 } from 'lucide-react';
 import { 
@@ -24,23 +49,54 @@ import {
   Maximize,
   Eye,
   EyeOff,
+  Highlighter,
+  Search,
 } from 'lucide-react';
 
 // Extracted components
 import { SettingsPanel } from '@/components/reader/SettingsPanel';
 import { PaywallModal } from '@/components/reader/PaywallModal';
+import { UpcomingChapterNotice } from '@/components/reader/UpcomingChapterNotice';
+import { NextBookNotice } from '@/components/reader/NextBookNotice';
+import { RemoteProgressPrompt } from '@/components/reader/RemoteProgressPrompt';
+import { ChapterBlock } from '@/components/reader/ChapterBlock';
+import { HighlightToolbar } from '@/components/reader/HighlightToolbar';
+import { BookmarkPopover } from '@/components/reader/BookmarkPopover';
+import { AnnotationsDrawer } from '@/components/reader/AnnotationsDrawer';
+import { PaginatedView, type PageLayout } from '@/components/reader/PaginatedView';
+import { SearchPanel } from '@/components/reader/SearchPanel';
+import { NarrationBar, NarrationControls } from '@/components/reader/NarrationControls';
+import { AudiobookBar } from '@/components/reader/AudiobookBar';
+import { AudioDownloadControls } from '@/components/reader/AudioDownloadControls';
 import { SubscriptionModal, BookPurchaseModal, AudioPurchaseModal } from '@/components/reader/PurchaseModals';
 
 export default function Reader() {
   const { bookId } = useParams();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const openBookmarkId = searchParams.get('bookmark');
   const navigate = useNavigate();
   const { user, isAdmin } = useAuth();
   const { isIdle } = useIdleTimer(3000);
   const { data: bookData, isLoading } = useBookChapters(bookId);
+  const { data: nextInSeries } = useNextInSeries(bookId);
   const { saveProgress, saveProgressNow } = useReadingProgress(bookId);
-  const { addBookmark, removeBookmark } = useBookmarkMutations(bookId);
+  const { recordWords } = useReadingTime(bookId);
+  const { data: readingStats } = useReadingStats();
+  const { data: bookmarks = [] } = useBookBookmarks(bookId);
+  const { addBookmark, updateBookmark, removeBookmark } = useBookmarkMutations(bookId);
+  const { data: highlights = [] } = useBookHighlights(bookId);
+  const { addHighlight, updateHighlight, removeHighlight } = useHighlightMutations(bookId);
   const { createCheckout, isInnerCircle } = useSubscription();
-  const { isOnline, hasCachedContent, hasAudioCached } = useOfflineSync(bookId);
+  const {
+    isOnline,
+    hasCachedContent,
+    audioDownloads,
+    downloadAudio,
+    removeAudio,
+    remoteProgress,
+    offerRemoteProgress,
+    dismissRemoteProgress,
+  } = useOfflineSync(bookId);
   
   // Content protection - prevents copying, printing, screenshots
   const { isWindowBlurred } = useContentProtection(true);
@@ -48,14 +104,41 @@ export default function Reader() {
   // Reading state
   const [currentChapter, setCurrentChapter] = useState(0);
   const [pureMode, setPureMode] = useState(false);
-  const [theme, setTheme] = useState<'dark' | 'light' | 'sepia'>('dark');
-  const [fontSize, setFontSize] = useState(18);
-  const [lineWidth, setLineWidth] = useState<'narrow' | 'medium' | 'wide'>('medium');
+  const {
+    preferences,
+    setTheme,
+    setFontSize,
+    setLineWidth,
+    setLayout,
+    setTypography,
+  } = useReaderPreferences();
+  const { theme, fontSize, lineWidth, layout } = preferences;
+  const paginated = layout === 'paginated';
   const [showSettings, setShowSettings] = useState(false);
-  const [dogEars, setDogEars] = useState<string[]>([]);
+  const [bookmarkSpot, setBookmarkSpot] = useState<number | null>(null);
+  const [scrollToOffset, setScrollToOffset] = useState<number | null>(null);
+  const resumedBookRef = useRef<string | undefined>(undefined);
+  const [chapterFraction, setChapterFraction] = useState(0);
+  const readOffsetRef = useRef<{ chapterId: string; offset: number } | null>(null);
+
+  // Paginated layout state
+  const [page, setPage] = useState(0);
+  const [pageLayout, setPageLayout] = useState<PageLayout>({ pageCount: 1, stride: 0 });
+  const pagesRef = useRef<HTMLDivElement>(null);
+  const mainRef = useRef<HTMLElement>(null);
   const [controlsVisible, setControlsVisible] = useState(true);
   const [readerPreviewMode, setReaderPreviewMode] = useState(false); // Admin toggle to simulate reader experience
 
+  // Highlight state
+  const [textSelection, setTextSelection] = useState<{ range: TextRange; anchor: DOMRect } | null>(null);
+  const [activeHighlight, setActiveHighlight] = useState<{ id: string; anchor: DOMRect } | null>(null);
+  const [showAnnotations, setShowAnnotations] = useState(false);
+  const [scrollToHighlightId, setScrollToHighlightId] = useState<string | null>(null);
+
+  // Search state; ?search=<query> (from the Dashboard) opens the panel with it
+  const [initialSearch] = useState(() => searchParams.get('search') ?? '');
+  const [showSearch, setShowSearch] = useState(() => !!searchParams.get('search'));
+
   // Audio state
   const [audiobookMode, setAudiobookMode] = useState(false);
   const soundtrackRef = useRef<HTMLAudioElement | null>(null);
@@ -84,47 +167,165 @@ export default function Reader() {
   const [showAudioPurchaseModal, setShowAudioPurchaseModal] = useState<'audiobook' | 'soundtrack' | null>(null);
   const [isCheckingOut, setIsCheckingOut] = useState(false);
 
-  // Resume from saved progress
+  // Start from the top when moving on to another book, e.g. the next in a series
   useEffect(() => {
-    if (bookData?.progress?.chapter_id && bookData.chapters) {
-      const savedIndex = bookData.chapters.findIndex(c => c.id === bookData.progress?.chapter_id);
-      if (savedIndex >= 0) {
-        setCurrentChapter(savedIndex);
-      }
+    setCurrentChapter(0);
+  }, [bookId]);
+
+  // Resume at the paragraph the reader left off, once per book, unless opening a bookmark
+  useEffect(() => {
+    if (!bookData?.chapters || resumedBookRef.current === bookId) return;
+    resumedBookRef.current = bookId;
+    if (openBookmarkId || !bookData.progress?.chapter_id) return;
+
+    const savedIndex = bookData.chapters.findIndex(c => c.id === bookData.progress?.chapter_id);
+    if (savedIndex >= 0) {
+      setCurrentChapter(savedIndex);
+      setScrollToOffset(bookData.progress.chapter_position);
     }
-  }, [bookData?.progress, bookData?.chapters]);
+    // Read since on another device
+    if (bookData.remoteProgress) offerRemoteProgress(bookData.remoteProgress);
+  }, [bookId, bookData?.progress, bookData?.remoteProgress, bookData?.chapters, openBookmarkId, offerRemoteProgress]);
 
-  // Load bookmarks
+  // Open a bookmark passed as ?bookmark=<id>, e.g. from the Dashboard
   useEffect(() => {
-    if (bookData?.bookmarks) {
-      setDogEars(bookData.bookmarks);
+    if (!openBookmarkId || !bookData?.chapters) return;
+    const bookmark = bookmarks.find(b => b.id === openBookmarkId);
+    if (!bookmark) return;
+
+    const index = bookData.chapters.findIndex(c => c.id === bookmark.chapter_id);
+    if (index >= 0) {
+      setCurrentChapter(index);
+      setScrollToOffset(bookmark.position);
     }
-  }, [bookData?.bookmarks]);
+    setSearchParams({}, { replace: true });
+  }, [openBookmarkId, bookmarks, bookData?.chapters, setSearchParams]);
+
+  useEffect(() => {
+    if (searchParams.has('search')) setSearchParams({}, { replace: true });
+  }, [searchParams, setSearchParams]);
 
-  // Cache chapters for offline reading (encrypted with user ID)
+  // Scroll (or turn) to a bookmarked paragraph once its chapter has rendered
   useEffect(() => {
-    if (bookData?.chapters && bookData.chapters.length > 0 && user?.id) {
-      cacheChapters(
-        bookData.chapters.map(c => ({
-          id: c.id,
-          book_id: bookId || '',
-          content: c.content,
-          title: c.title,
-          chapter_order: c.chapter_order,
-        })),
-        user.id
-      ).catch(console.error);
+    if (scrollToOffset === null) return;
+    if (paginated) {
+      if (!pagesRef.current || !pageLayout.stride) return;
+      setPage(getPageOfTextOffset(pagesRef.current, scrollToOffset, pageLayout.stride));
+      setScrollToOffset(null);
+      return;
+    }
+    if (scrollToTextOffset(scrollToOffset)) {
+      setScrollToOffset(null);
+    }
+  }, [scrollToOffset, currentChapter, bookData?.chapters, paginated, pageLayout, preferences]);
+
+  // Bring a highlight picked from the annotations drawer into view
+  useEffect(() => {
+    if (!scrollToHighlightId) return;
+    const mark = document.querySelector(`[data-highlight-id="${scrollToHighlightId}"]`);
+    if (!mark) return;
+    if (paginated) {
+      if (!pagesRef.current || !pageLayout.stride) return;
+      setPage(getPageOfElement(pagesRef.current, mark, pageLayout.stride));
+    } else {
+      mark.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    }
+    setScrollToHighlightId(null);
+  }, [scrollToHighlightId, currentChapter, highlights, paginated, pageLayout]);
+
+  // Downloaded books that get read are the last to be evicted
+  useEffect(() => {
+    const userId = user?.id;
+    if (bookId && userId) touchDownload(bookId, userId).catch(console.error);
+  }, [bookId, user?.id]);
+
+  // Cache chapters for offline reading (encrypted with the book's licensed key).
+  // Only readers with access get a license, so previews aren't cached
+  useEffect(() => {
+    const userId = user?.id;
+    if (bookData?.chapters && bookData.chapters.length > 0 && bookData.owned && userId && bookId && !bookData.offline) {
+      const chapters = bookData.chapters;
+      ensureOfflineLicense(bookId, userId)
+        .then(licensed => licensed && cacheChapters(
+          chapters.map(c => ({
+            id: c.id,
+            book_id: bookId,
+            content: c.content,
+            title: c.title,
+            chapter_order: c.chapter_order,
+            word_count: c.word_count,
+          })),
+          userId
+        ))
+        .catch(console.error);
+    }
+  }, [bookData?.chapters, bookData?.owned, bookData?.offline, bookId, user?.id]);
+
+  const buildProgress = useCallback((chapterId: string, chapterPosition: number, fraction: number): ProgressUpdate => ({
+    chapterId,
+    chapterPosition,
+    chapterPercent: Math.round(fraction * 1000) / 10,
+    progressPercent: bookProgressPercent(bookData?.chapterWeights ?? [], chapterId, fraction),
+  }), [bookData?.chapterWeights]);
+
+  // Save the paragraph in view and how far through the chapter the reader is,
+  // and count the words moved past for the reading-speed estimate
+  const recordPosition = useCallback((
+    chapter: { id: string; content: string | null },
+    offset: number,
+    fraction: number
+  ) => {
+    saveProgress(buildProgress(chapter.id, offset, fraction));
+    setChapterFraction(Math.round(fraction * 100) / 100);
+
+    const last = readOffsetRef.current;
+    if (last?.chapterId === chapter.id && offset > last.offset && chapter.content) {
+      const passed = stripChapterMarkup(chapter.content).slice(last.offset, offset);
+      recordWords(passed.split(/\s+/).filter(Boolean).length);
     }
-  }, [bookData?.chapters, bookId, user?.id]);
+    if (last?.chapterId !== chapter.id || offset > last.offset) {
+      readOffsetRef.current = { chapterId: chapter.id, offset };
+    }
+  }, [buildProgress, saveProgress, recordWords]);
 
-  // Save progress on chapter change
   useEffect(() => {
-    if (bookData?.chapters && bookData.chapters[currentChapter]) {
-      const chapter = bookData.chapters[currentChapter];
-      const progress = (currentChapter + 1) / bookData.chapters.length;
-      saveProgress(chapter.id, progress);
+    const chapter = bookData?.chapters?.[currentChapter];
+    if (!chapter || paginated) return;
+
+    const handleScroll = () => {
+      recordPosition(chapter, getVisibleTextOffset(), getScrollFraction());
+    };
+    window.addEventListener('scroll', handleScroll, { passive: true });
+    return () => window.removeEventListener('scroll', handleScroll);
+  }, [currentChapter, bookData?.chapters, paginated, recordPosition]);
+
+  // Where the reader is in the chapter, in either layout
+  const currentTextOffset = useCallback(() => {
+    if (paginated && pagesRef.current && pageLayout.stride) {
+      return getPageTextOffset(pagesRef.current, page, pageLayout.stride);
     }
-  }, [currentChapter, bookData?.chapters, saveProgress]);
+    return getVisibleTextOffset();
+  }, [paginated, page, pageLayout.stride]);
+
+  const currentFraction = useCallback(() => {
+    if (!paginated) return getScrollFraction();
+    return pageLayout.pageCount > 1 ? Math.min(1, page / (pageLayout.pageCount - 1)) : 1;
+  }, [paginated, page, pageLayout.pageCount]);
+
+  // Typography and layout changes move the text; stay on the same paragraph
+  const keepPlace = <T,>(apply: (value: T) => void) => (value: T) => {
+    setScrollToOffset(currentTextOffset());
+    apply(value);
+  };
+
+  // Recount pages after layout, keeping the page (or the last page, when
+  // arriving from the next chapter) in range
+  const handlePageLayout = useCallback((next: PageLayout) => {
+    setPageLayout(current =>
+      current.pageCount === next.pageCount && current.stride === next.stride ? current : next
+    );
+    setPage(current => Math.min(current, next.pageCount - 1));
+  }, []);
 
   // Pure Mode: stop soundtrack when entering
   const enterPureMode = useCallback(() => {
@@ -146,37 +347,32 @@ export default function Reader() {
     return () => window.removeEventListener('keydown', handleKeydown);
   }, [pureMode]);
 
-  const handleTap = useCallback(() => {
-    if (window.innerWidth < 768) {
-      setControlsVisible(prev => !prev);
-    }
-  }, []);
-
   const showControls = !pureMode && (controlsVisible || !isIdle);
 
-  const toggleBookmark = () => {
-    const chapter = bookData?.chapters?.[currentChapter];
-    if (!chapter) return;
-
-    if (dogEars.includes(chapter.id)) {
-      removeBookmark.mutate({ chapterId: chapter.id });
-      setDogEars(prev => prev.filter(id => id !== chapter.id));
-    } else {
-      addBookmark.mutate({ chapterId: chapter.id, position: 0 });
-      setDogEars(prev => [...prev, chapter.id]);
-    }
+  // Bookmark the paragraph at the top of the screen (or page)
+  const openBookmarkPopover = () => {
+    setBookmarkSpot(bookmarkSpot === null ? currentTextOffset() : null);
   };
 
   const handleChapterChange = useCallback((newIndex: number) => {
     const chapter = bookData?.chapters?.[currentChapter];
+    const nextChapter = bookData?.chapters?.[newIndex];
     if (chapter) {
-      const progress = (currentChapter + 1) / (bookData?.chapters?.length || 1);
-      saveProgressNow(chapter.id, progress);
+      saveProgressNow(buildProgress(chapter.id, currentTextOffset(), currentFraction()));
+    }
+    // The new chapter opens at its first paragraph
+    if (nextChapter) {
+      saveProgress(buildProgress(nextChapter.id, 0, 0));
     }
     setCurrentChapter(newIndex);
+    setChapterFraction(0);
+    setPage(0);
+    setTextSelection(null);
+    setActiveHighlight(null);
+    setBookmarkSpot(null);
     // Scroll to top when changing chapters
     window.scrollTo({ top: 0, behavior: 'auto' });
-  }, [bookData?.chapters, currentChapter, saveProgressNow]);
+  }, [bookData?.chapters, currentChapter, saveProgress, saveProgressNow, buildProgress, currentTextOffset, currentFraction]);
 
   // Swipe gesture handlers
   const goToNextChapter = useCallback(() => {
@@ -191,9 +387,169 @@ export default function Reader() {
     }
   }, [currentChapter, handleChapterChange]);
 
+  // Page turns; past either edge of the chapter they move to the next or previous one
+  const turnToPage = useCallback((target: number) => {
+    const chapter = bookData?.chapters?.[currentChapter];
+    if (!chapter || !pagesRef.current) return;
+    setPage(target);
+    const fraction = pageLayout.pageCount > 1 ? target / (pageLayout.pageCount - 1) : 1;
+    recordPosition(chapter, getPageTextOffset(pagesRef.current, target, pageLayout.stride), fraction);
+  }, [bookData?.chapters, currentChapter, pageLayout, recordPosition]);
+
+  const goToNextPage = useCallback(() => {
+    if (page < pageLayout.pageCount - 1) {
+      turnToPage(page + 1);
+    } else {
+      goToNextChapter();
+    }
+  }, [page, pageLayout.pageCount, turnToPage, goToNextChapter]);
+
+  const goToPrevPage = useCallback(() => {
+    if (page > 0) {
+      turnToPage(page - 1);
+    } else if (currentChapter > 0) {
+      goToPrevChapter();
+      // Land on the last page once the previous chapter is laid out
+      setPage(Number.MAX_SAFE_INTEGER);
+    }
+  }, [page, currentChapter, turnToPage, goToPrevChapter]);
+
+  // Arrow and page keys turn pages
+  useEffect(() => {
+    if (!paginated) return;
+    const handleKeydown = (e: KeyboardEvent) => {
+      if ((e.target as HTMLElement).closest('input, textarea')) return;
+      if (e.key === 'ArrowRight' || e.key === 'PageDown') {
+        goToNextPage();
+      } else if (e.key === 'ArrowLeft' || e.key === 'PageUp') {
+        goToPrevPage();
+      }
+    };
+    window.addEventListener('keydown', handleKeydown);
+    return () => window.removeEventListener('keydown', handleKeydown);
+  }, [paginated, goToNextPage, goToPrevPage]);
+
+  // In paginated mode the outer thirds of the page turn it; elsewhere (and on
+  // the middle third) a tap on mobile toggles the controls
+  const handleTap = useCallback((e: React.MouseEvent) => {
+    const target = e.target as HTMLElement;
+    if (
+      paginated
+      && mainRef.current?.contains(target)
+      && !target.closest('button, a, input, textarea, mark')
+      && !window.getSelection()?.toString()
+    ) {
+      const zone = e.clientX / window.innerWidth;
+      if (zone < 0.3) {
+        goToPrevPage();
+        return;
+      }
+      if (zone > 0.7) {
+        goToNextPage();
+        return;
+      }
+    }
+    if (window.innerWidth < 768) {
+      setControlsVisible(prev => !prev);
+    }
+  }, [paginated, goToNextPage, goToPrevPage]);
+
+  // The chapter's text paragraphs, which read-aloud and the audiobook follow along
+  const followContent = bookData?.chapters?.[currentChapter]?.content ?? null;
+  const followParagraphs = useMemo((): NarrationParagraph[] => {
+    const blocks = parseChapterMarkup(followContent);
+    const offsets = blockOffsets(followContent, blocks);
+    return blocks
+      .map((block, index) => ({ offset: offsets[index], text: blockText(block) }))
+      .filter(p => p.text.trim());
+  }, [followContent]);
+  const followTextLength = useMemo(
+    () => (followContent ? stripChapterMarkup(followContent).length : 0),
+    [followContent]
+  );
+
+  // Keep the paragraph being read in view; turning pages records progress as reading does
+  const followParagraph = useCallback((offset: number) => {
+    if (paginated && pagesRef.current && pageLayout.stride) {
+      const target = getPageOfTextOffset(pagesRef.current, offset, pageLayout.stride);
+      if (target !== page) turnToPage(target);
+      return;
+    }
+    setScrollToOffset(offset);
+  }, [paginated, page, pageLayout.stride, turnToPage]);
+
+  // Read-aloud narration, for books without a recorded audiobook
+  const handleNarrationChapterEnd = useCallback(() => {
+    if (!bookData?.chapters || currentChapter >= bookData.chapters.length - 1) return false;
+    handleChapterChange(currentChapter + 1);
+    return true;
+  }, [bookData?.chapters, currentChapter, handleChapterChange]);
+
+  const narration = useSpeechNarration({
+    chapterKey: bookData?.chapters?.[currentChapter]?.id,
+    paragraphs: followParagraphs,
+    onParagraph: (paragraph) => followParagraph(paragraph.offset),
+    onChapterEnd: handleNarrationChapterEnd,
+  });
+
+  // Audiobook read-along: tracks linked to a chapter carry on into the next
+  // chapter's track, turning the page with them
+  const handleAudiobookEnded = useCallback((trackId: string) => {
+    const chapterList = bookData?.chapters ?? [];
+    const chapterId = audiobookTracks.find(t => t.id === trackId)?.chapterId;
+    const index = chapterList.findIndex(c => c.id === chapterId);
+    const next = chapterList[index + 1];
+    if (index < 0 || !next || !audiobookTracks.some(t => t.chapterId === next.id)) return false;
+    handleChapterChange(index + 1);
+    return true;
+  }, [bookData?.chapters, audiobookTracks, handleChapterChange]);
+
+  const audiobookTrackIds = useMemo(() => audiobookTracks.map(t => t.id), [audiobookTracks]);
+  const { positions: audiobookPositions, savePosition: saveAudiobookPosition } = useAudioPositions(bookId, audiobookTrackIds);
+
+  const audiobook = useAudioPlayer({
+    tracks: audiobookTracks,
+    onEnded: handleAudiobookEnded,
+    onSavePosition: saveAudiobookPosition,
+    mediaSession: {
+      onPreviousTrack: goToPrevChapter,
+      onNextTrack: goToNextChapter,
+    },
+    playbackRateKey: 'audiobook.playbackRate',
+  });
+  const { changeTrack: changeAudiobookTrack, currentTrackId: audiobookTrackId } = audiobook;
+  const currentChapterKey = bookData?.chapters?.[currentChapter]?.id;
+
+  // Play the track for a chapter opened while listening
+  useEffect(() => {
+    if (!audiobookMode) return;
+    const track = audiobookTracks.find(t => t.chapterId === currentChapterKey);
+    if (track && track.id !== audiobookTrackId) changeAudiobookTrack(track.id);
+  }, [audiobookMode, audiobookTracks, currentChapterKey, audiobookTrackId, changeAudiobookTrack]);
+
+  // The paragraph the narrator is on, when the track playing belongs to this chapter
+  const listeningTrack = audiobookMode && currentChapterKey && audiobook.currentTrack?.chapterId === currentChapterKey
+    ? audiobook.currentTrack
+    : undefined;
+  const narratedOffset = listeningTrack
+    ? offsetAtTime(
+      listeningTrack.syncMap,
+      audiobook.currentTime,
+      listeningTrack.durationSeconds ?? audiobook.duration,
+      followTextLength
+    )
+    : null;
+  const listeningOffset = narratedOffset === null
+    ? null
+    : (followParagraphs.filter(p => p.offset <= narratedOffset).pop() ?? followParagraphs[0])?.offset ?? null;
+
+  useEffect(() => {
+    if (listeningOffset !== null) followParagraph(listeningOffset);
+  }, [listeningOffset, followParagraph]);
+
   const swipeHandlers = useSwipeGesture({
-    onSwipeLeft: goToNextChapter,
-    onSwipeRight: goToPrevChapter,
+    onSwipeLeft: paginated ? goToNextPage : goToNextChapter,
+    onSwipeRight: paginated ? goToPrevPage : goToPrevChapter,
     threshold: 75,
     allowedTime: 400,
   });
@@ -256,6 +612,12 @@ export default function Reader() {
   const effectiveIsInnerCircle = readerPreviewMode ? false : isInnerCircle;
   const ownsAudiobook = bookData?.owned && effectiveHasAudio;
   const ownsSoundtrack = effectiveIsInnerCircle || ownsAudiobook;
+  const canNarrate = !isAudioLoading && audiobookTracks.length === 0;
+  // Audio the reader may save to the device
+  const offlineAudioTracks = [
+    ...(ownsAudiobook ? audiobookTracks.map(t => ({ ...t, type: 'audiobook' as const })) : []),
+    ...(ownsSoundtrack ? soundtrackTracks.map(t => ({ ...t, type: 'soundtrack' as const })) : []),
+  ];
 
   if (isLoading) {
     return (
@@ -296,16 +658,217 @@ export default function Reader() {
   const chapters = bookData.chapters;
   const chapter = chapters[currentChapter];
   const currentChapterId = chapter?.id;
-  const isBookmarked = currentChapterId ? dogEars.includes(currentChapterId) : false;
+  const chapterBookmarks = bookmarks.filter(b => b.chapter_id === currentChapterId);
+  const isBookmarked = chapterBookmarks.length > 0;
+  const spotBookmark = bookmarkSpot !== null ? chapterBookmarks.find(b => b.position === bookmarkSpot) : undefined;
   const isAtPaywall = !bookData.owned && currentChapter >= chapters.length - 1 && chapters.length < (bookData.allChaptersCount || 0);
+  const upcomingChapters = bookData.upcomingChapters ?? [];
+  const isCaughtUp = bookData.owned && currentChapter === chapters.length - 1 && upcomingChapters.length > 0;
+  const isFinished = bookData.owned && currentChapter === chapters.length - 1 && upcomingChapters.length === 0;
 
-  const parseContent = (content: string | null) => {
-    if (!content) return [];
-    const paragraphs = content.split(/\n\n|\r\n\r\n/).filter(p => p.trim());
-    return paragraphs.length > 0 ? paragraphs : [content];
-  };
+  const parseContent = (content: string | null) => parseChapterMarkup(content);
 
   const paragraphs = parseContent(chapter?.content);
+  const plainText = chapter?.content ? stripChapterMarkup(chapter.content) : '';
+  const paragraphOffsets = blockOffsets(chapter?.content ?? null, paragraphs);
+  const chapterHighlights = highlights
+    .filter(h => h.chapter_id === currentChapterId && !h.is_orphaned)
+    .map(h => ({ id: h.id, start: h.start_position, end: h.end_position, color: h.color }));
+  const selectedHighlight = activeHighlight ? highlights.find(h => h.id === activeHighlight.id) : undefined;
+
+  // Time left at the reader's own pace, once it's known
+  const pace = readingStats?.wordsPerMinute ?? DEFAULT_WORDS_PER_MINUTE;
+  const remaining = currentChapterId
+    ? wordsRemaining(bookData.chapterWeights ?? [], currentChapterId, chapterFraction)
+    : null;
+
+  // Offer the color palette once the reader finishes selecting a passage
+  const handleSelectionEnd = () => {
+    const selection = window.getSelection();
+    const range = getSelectionRange(selection, plainText);
+    if (!range || !selection) return;
+    setActiveHighlight(null);
+    setTextSelection({ range, anchor: selection.getRangeAt(0).getBoundingClientRect() });
+  };
+
+  const handleCreateHighlight = (color: HighlightColor) => {
+    if (!textSelection || !chapter) return;
+    const { range, anchor } = textSelection;
+    addHighlight.mutate(
+      { chapterId: chapter.id, start: range.start, end: range.end, text: plainText.slice(range.start, range.end), color },
+      { onSuccess: (highlight) => setActiveHighlight({ id: highlight.id, anchor }) }
+    );
+    window.getSelection()?.removeAllRanges();
+    setTextSelection(null);
+  };
+
+  const handleSaveBookmark = (note: string) => {
+    if (bookmarkSpot === null || !chapter) return;
+    if (spotBookmark) {
+      updateBookmark.mutate({ bookmark: spotBookmark, note });
+    } else {
+      addBookmark.mutate({ chapterId: chapter.id, position: bookmarkSpot, note });
+    }
+    setBookmarkSpot(null);
+  };
+
+  const handleOpenBookmark = (bookmark: BookBookmark) => {
+    const index = chapters.findIndex(c => c.id === bookmark.chapter_id);
+    if (index < 0) return;
+    setShowAnnotations(false);
+    if (index !== currentChapter) handleChapterChange(index);
+    setScrollToOffset(bookmark.position);
+  };
+
+  const remoteChapterIndex = remoteProgress ? chapters.findIndex(c => c.id === remoteProgress.chapterId) : -1;
+  const handleJumpToRemoteProgress = () => {
+    if (!remoteProgress || remoteChapterIndex < 0) return;
+    if (remoteChapterIndex !== currentChapter) handleChapterChange(remoteChapterIndex);
+    setScrollToOffset(remoteProgress.chapterPosition);
+    dismissRemoteProgress();
+  };
+
+  const handleSelectAnnotation = (highlight: BookHighlight) => {
+    const index = chapters.findIndex(c => c.id === highlight.chapter_id);
+    if (index < 0) return;
+    setShowAnnotations(false);
+    if (index !== currentChapter) handleChapterChange(index);
+    setScrollToHighlightId(highlight.id);
+  };
+
+  // Listening picks up from the paragraph being read, and reading from the one
+  // being narrated, since following along keeps it in view
+  const handleAudiobookMode = (listen: boolean) => {
+    setAudiobookMode(listen);
+    if (!listen) {
+      audiobook.pause();
+      return;
+    }
+    const track = audiobookTracks.find(t => t.chapterId === chapter?.id) ?? audiobookTracks[0];
+    if (!track) return;
+    // The saved position wins unless the reader has since moved on in the text
+    const saved = audiobookPositions[track.id] ?? 0;
+    const duration = track.durationSeconds ?? 0;
+    const readingAt = timeAtOffset(track.syncMap, currentTextOffset(), duration, plainText.length);
+    const savedParagraph = offsetAtTime(track.syncMap, saved, duration, plainText.length);
+    const readingParagraph = currentTextOffset();
+    const sameParagraph = followParagraphs.every(p => (p.offset <= savedParagraph) === (p.offset <= readingParagraph));
+    const startAt = track.chapterId !== chapter?.id || sameParagraph ? saved : readingAt;
+    changeAudiobookTrack(track.id, startAt);
+    audiobook.play();
+  };
+
+  // Jump the narrator back or on by a paragraph
+  const skipAudiobookParagraph = (delta: number) => {
+    if (!listeningTrack || listeningOffset === null) return;
+    const index = followParagraphs.findIndex(p => p.offset === listeningOffset);
+    const target = followParagraphs[Math.max(0, Math.min(followParagraphs.length - 1, index + delta))];
+    audiobook.seek(timeAtOffset(
+      listeningTrack.syncMap,
+      target.offset,
+      listeningTrack.durationSeconds ?? audiobook.duration,
+      plainText.length
+    ));
+  };
+
+  const handleSelectSearchMatch = (match: SearchMatch) => {
+    const index = chapters.findIndex(c => c.id === match.chapterId);
+    if (index < 0) return;
+    setShowSearch(false);
+    if (index !== currentChapter) handleChapterChange(index);
+    setScrollToOffset(match.offset ?? 0);
+  };
+
+  const shownPage = Math.min(page, pageLayout.pageCount - 1);
+  const typographyKey = [
+    preferences.fontFamily,
+    preferences.lineHeight,
+    preferences.paragraphSpacing,
+    preferences.justify,
+    preferences.hyphenate,
+    preferences.margins,
+  ].join('-');
+
+  // Title, text and end-of-chapter notices; laid out as pages in paginated mode
+  const chapterBody = (
+    <>
+      {/* Chapter title */}
+      <motion.h1
+        key={currentChapter}
+        className="text-2xl md:text-3xl font-display text-center mb-12 tracking-wide"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+      >
+        {chapter?.title}
+      </motion.h1>
+      {isEarlyAccessChapter(chapter?.release_at ?? null) && (
+        <p className="-mt-8 mb-12 text-center text-xs uppercase tracking-widest text-primary">
+          Early access
+        </p>
+      )}
+
+      {/* Paragraphs - the only selectable text, for highlighting */}
+      <div
+        className="select-text"
+        onMouseUp={handleSelectionEnd}
+        onTouchEnd={() => setTimeout(handleSelectionEnd, 300)}
+      >
+        {paragraphs.map((block, index) => (
+          <ChapterBlock
+            key={index}
+            block={block}
+            index={index}
+            fontSize={fontSize}
+            typography={preferences}
+            offset={paragraphOffsets[index]}
+            highlights={chapterHighlights}
+            bookmarked={chapterBookmarks.some(b => b.position === paragraphOffsets[index])}
+            speaking={block.type === 'paragraph' && (listeningOffset ?? narration.currentOffset) === paragraphOffsets[index]}
+            onHighlightClick={(id, anchor) => {
+              setTextSelection(null);
+              setActiveHighlight({ id, anchor });
+            }}
+          />
+        ))}
+      </div>
+
+      {/* Next scheduled chapter */}
+      {isCaughtUp && (
+        <UpcomingChapterNotice
+          theme={theme}
+          nextChapter={upcomingChapters[0]}
+          remainingCount={upcomingChapters.length}
+          isInnerCircle={effectiveIsInnerCircle}
+        />
+      )}
+
+      {/* Series handoff */}
+      {isFinished && nextInSeries && (
+        <NextBookNotice
+          theme={theme}
+          next={nextInSeries}
+          onContinue={() => {
+            saveProgressNow({
+              chapterId: chapter.id,
+              chapterPosition: currentTextOffset(),
+              chapterPercent: 100,
+              progressPercent: 100,
+            });
+            navigate(`/reader/${nextInSeries.book.id}`);
+          }}
+        />
+      )}
+
+      {/* Paywall */}
+      {isAtPaywall && (
+        <PaywallModal
+          theme={theme}
+          onPurchase={() => setShowBookPurchaseModal(true)}
+          onSubscribe={() => setShowSubscriptionModal(true)}
+        />
+      )}
+    </>
+  );
 
   return (
     <div 
@@ -354,9 +917,16 @@ export default function Reader() {
                 <Home className="w-5 h-5 text-muted-foreground" />
               </button>
 
-              <span className="text-sm text-muted-foreground font-serif">
-                {chapter?.title}
-              </span>
+              <div className="text-center min-w-0">
+                <span className="block text-sm text-muted-foreground font-serif truncate">
+                  {chapter?.title}
+                </span>
+                {remaining && remaining.book > 0 && (
+                  <span className="block text-xs text-muted-foreground/70">
+                    {formatDuration((remaining.chapter / pace) * 60)} left in chapter · {formatDuration((remaining.book / pace) * 60)} in book
+                  </span>
+                )}
+              </div>
 
               <div className="flex items-center gap-2">
                 {/* Admin preview toggle */}
@@ -375,6 +945,20 @@ export default function Reader() {
                     {readerPreviewMode ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
                   </button>
                 )}
+                <button
+                  onClick={(e) => { e.stopPropagation(); setShowSearch(true); }}
+                  className="p-2 hover:bg-muted rounded transition-colors focus:outline-none focus:ring-2 focus:ring-primary"
+                  aria-label="Search this book"
+                >
+                  <Search className="w-5 h-5 text-muted-foreground" />
+                </button>
+                <button
+                  onClick={(e) => { e.stopPropagation(); setShowAnnotations(true); }}
+                  className="p-2 hover:bg-muted rounded transition-colors focus:outline-none focus:ring-2 focus:ring-primary"
+                  aria-label="Open annotations"
+                >
+                  <Highlighter className="w-5 h-5 text-muted-foreground" />
+                </button>
                 <button
                   onClick={(e) => { e.stopPropagation(); setShowSettings(!showSettings); }}
                   className="p-2 hover:bg-muted rounded transition-colors focus:outline-none focus:ring-2 focus:ring-primary"
@@ -404,12 +988,28 @@ export default function Reader() {
             theme={theme}
             setTheme={setTheme}
             fontSize={fontSize}
-            setFontSize={setFontSize}
+            setFontSize={keepPlace(setFontSize)}
             lineWidth={lineWidth}
-            setLineWidth={setLineWidth}
+            setLineWidth={keepPlace(setLineWidth)}
+            layout={layout}
+            setLayout={keepPlace(setLayout)}
+            typography={preferences}
+            setTypography={keepPlace(setTypography)}
             audiobookMode={audiobookMode}
-            setAudiobookMode={setAudiobookMode}
+            setAudiobookMode={handleAudiobookMode}
             ownsAudiobook={ownsAudiobook || false}
+            narrationControls={canNarrate ? (
+              <NarrationControls
+                theme={theme}
+                isSupported={narration.isSupported}
+                status={narration.status}
+                voices={narration.voices}
+                settings={narration.settings}
+                onSettingsChange={narration.updateSettings}
+                onStart={() => narration.start(currentTextOffset())}
+                onStop={narration.stop}
+              />
+            ) : undefined}
             ownsSoundtrack={ownsSoundtrack}
             soundtrackPlaying={soundtrackPlaying}
             soundtrackVolume={soundtrackVolume}
@@ -421,7 +1021,16 @@ export default function Reader() {
             onPurchaseAudiobook={() => setShowAudioPurchaseModal('audiobook')}
             onPurchaseSoundtrack={() => setShowAudioPurchaseModal('soundtrack')}
             isOnline={isOnline}
-            audioCached={hasAudioCached}
+            audioCached={soundtrackTracks.some(t => audioDownloads[t.id]?.status === 'cached')}
+            audioDownloadControls={offlineAudioTracks.length > 0 ? (
+              <AudioDownloadControls
+                theme={theme}
+                downloads={offlineAudioTracks.map(t => audioDownloads[t.id])}
+                isOnline={isOnline}
+                onDownload={() => downloadAudio(offlineAudioTracks)}
+                onRemove={() => removeAudio(offlineAudioTracks.map(t => t.id))}
+              />
+            ) : undefined}
             onClose={() => setShowSettings(false)}
             currentTime={currentTime}
             duration={duration}
@@ -440,7 +1049,7 @@ export default function Reader() {
           >
             <span className="text-xs text-muted-foreground">Exit Pure Mode</span>
           </button>
-          {audiobookMode && (
+          {(audiobookMode || narration.status === 'playing') && (
             <div className="sr-only" aria-live="polite">
               Audiobook playing in pure mode. Press Escape to exit.
             </div>
@@ -450,7 +1059,8 @@ export default function Reader() {
 
       {/* Main content */}
       <main 
-        className={`min-h-screen px-6 py-24 mx-auto ${getLineWidthClass()}`}
+        ref={mainRef}
+        className={`${paginated ? 'h-screen overflow-hidden flex flex-col pt-24 pb-20' : 'min-h-screen py-24'} ${getMarginClass(preferences.margins)} mx-auto ${getLineWidthClass()}`}
         style={{ fontSize: `${fontSize}px` }}
       >
         {/* Dog ear indicator */}
@@ -461,39 +1071,145 @@ export default function Reader() {
           </div>
         )}
 
-        {/* Chapter title */}
-        <motion.h1
-          key={currentChapter}
-          className="text-2xl md:text-3xl font-display text-center mb-12 tracking-wide"
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-        >
-          {chapter?.title}
-        </motion.h1>
+        {paginated ? (
+          <>
+            <div className="flex-1 min-h-0">
+              <PaginatedView
+                key={currentChapterId}
+                page={shownPage}
+                stride={pageLayout.stride}
+                layoutKey={`${currentChapterId}-${fontSize}-${lineWidth}-${typographyKey}`}
+                contentRef={pagesRef}
+                onLayout={handlePageLayout}
+              >
+                {chapterBody}
+              </PaginatedView>
+            </div>
+            <p className="pt-4 text-center text-xs text-muted-foreground" aria-live="polite">
+              Page {shownPage + 1} of {pageLayout.pageCount} in chapter
+            </p>
+          </>
+        ) : chapterBody}
+      </main>
 
-        {/* Paragraphs */}
-        {paragraphs.map((para, index) => (
-          <motion.p
-            key={index}
-            className="reading-text mb-6 leading-relaxed"
-            initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
-            transition={{ delay: index * 0.05 }}
-            style={{ fontSize: `${fontSize}px`, lineHeight: 1.9 }}
-          >
-            {para}
-          </motion.p>
-        ))}
+      {/* Highlight palette for a new selection */}
+      <AnimatePresence>
+        {textSelection && (
+          <HighlightToolbar
+            theme={theme}
+            anchor={textSelection.anchor}
+            onColor={handleCreateHighlight}
+            onClose={() => setTextSelection(null)}
+          />
+        )}
+      </AnimatePresence>
 
-        {/* Paywall */}
-        {isAtPaywall && (
-          <PaywallModal
+      {/* Editing an existing highlight */}
+      <AnimatePresence>
+        {activeHighlight && selectedHighlight && (
+          <HighlightToolbar
+            key={activeHighlight.id}
             theme={theme}
-            onPurchase={() => setShowBookPurchaseModal(true)}
-            onSubscribe={() => setShowSubscriptionModal(true)}
+            anchor={activeHighlight.anchor}
+            color={selectedHighlight.color}
+            note={selectedHighlight.note}
+            onColor={(color) => updateHighlight.mutate({ highlight: selectedHighlight, changes: { color } })}
+            onSaveNote={(note) => updateHighlight.mutate({ highlight: selectedHighlight, changes: { note: note || null } })}
+            onDelete={() => {
+              removeHighlight.mutate({ id: selectedHighlight.id });
+              setActiveHighlight(null);
+            }}
+            onClose={() => setActiveHighlight(null)}
           />
         )}
-      </main>
+      </AnimatePresence>
+
+      {/* Newer progress synced from another device */}
+      <AnimatePresence>
+        {remoteProgress && remoteChapterIndex >= 0 && (
+          <RemoteProgressPrompt
+            theme={theme}
+            chapterTitle={chapters[remoteChapterIndex].title}
+            progressPercent={remoteProgress.progressPercent}
+            onJump={handleJumpToRemoteProgress}
+            onDismiss={dismissRemoteProgress}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Bookmark the current spot */}
+      <AnimatePresence>
+        {bookmarkSpot !== null && (
+          <BookmarkPopover
+            key={bookmarkSpot}
+            theme={theme}
+            bookmark={spotBookmark}
+            excerpt={excerptAt(chapter?.content ?? null, bookmarkSpot, 120)}
+            onSave={handleSaveBookmark}
+            onRemove={() => {
+              if (spotBookmark) removeBookmark.mutate({ id: spotBookmark.id });
+              setBookmarkSpot(null);
+            }}
+            onClose={() => setBookmarkSpot(null)}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnnotationsDrawer
+        open={showAnnotations}
+        onOpenChange={setShowAnnotations}
+        theme={theme}
+        highlights={highlights}
+        bookmarks={bookmarks}
+        chapters={chapters}
+        onSelect={handleSelectAnnotation}
+        onOpenBookmark={handleOpenBookmark}
+        onDeleteBookmark={(bookmark) => removeBookmark.mutate({ id: bookmark.id })}
+        onDelete={(highlight) => removeHighlight.mutate({ id: highlight.id })}
+      />
+
+      <SearchPanel
+        open={showSearch}
+        onOpenChange={setShowSearch}
+        theme={theme}
+        bookId={bookId}
+        isOnline={isOnline}
+        initialQuery={initialSearch}
+        chapters={chapters}
+        onSelect={handleSelectSearchMatch}
+      />
+
+      {/* Read-aloud and audiobook transport */}
+      <AnimatePresence>
+        {narration.status !== 'idle' && !pureMode && (
+          <NarrationBar
+            key="narration"
+            theme={theme}
+            label="Read aloud"
+            status={narration.status}
+            onPause={narration.pause}
+            onResume={narration.resume}
+            onSkip={narration.skip}
+            onStop={narration.stop}
+          />
+        )}
+        {audiobookMode && !pureMode && (
+          <AudiobookBar
+            key="audiobook"
+            theme={theme}
+            isPlaying={audiobook.isPlaying}
+            onPlayPause={audiobook.togglePlayPause}
+            onSkipSeconds={audiobook.skip}
+            onSkipParagraph={listeningTrack ? skipAudiobookParagraph : undefined}
+            playbackRate={audiobook.playbackRate}
+            onPlaybackRateChange={audiobook.setPlaybackRate}
+            sleepSetting={audiobook.sleepTimer}
+            sleepRemaining={audiobook.sleepRemaining}
+            onSleepTimerChange={audiobook.setSleepTimer}
+            onStop={() => handleAudiobookMode(false)}
+          />
+        )}
+      </AnimatePresence>
 
       {/* Bottom controls */}
       <AnimatePresence>
@@ -517,12 +1233,13 @@ export default function Reader() {
 
               <div className="flex items-center gap-4">
                 <button
-                  onClick={(e) => { e.stopPropagation(); toggleBookmark(); }}
+                  onClick={(e) => { e.stopPropagation(); openBookmarkPopover(); }}
+                  onMouseDown={(e) => e.stopPropagation()}
                   className={`p-2 rounded transition-colors focus:outline-none focus:ring-2 focus:ring-primary ${
                     isBookmarked ? 'text-primary' : 'text-muted-foreground hover:text-foreground'
                   }`}
-                  aria-label={isBookmarked ? 'Remove bookmark' : 'Add bookmark'}
-                  aria-pressed={isBookmarked}
+                  aria-label="Bookmark this spot"
+                  aria-expanded={bookmarkSpot !== null}
                 >
                   <Bookmark className="w-5 h-5" fill={isBookmarked ? 'currentColor' : 'none'} />
                 </button>
@@ -0,0 +1,155 @@
+import { useNavigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { format, parseISO } from 'date-fns';
+import { useReadingStats } from '@/hooks/useReadingStats';
+import { DEFAULT_WORDS_PER_MINUTE, formatDuration, recentDays } from '@/lib/readingStats';
+import { ArrowLeft, BarChart3, BookOpen, Clock, Flame, Gauge, Loader2 } from 'lucide-react';
+
+const CHART_DAYS = 14;
+
+export default function ReadingStats() {
+  const navigate = useNavigate();
+  const { data: stats, isLoading } = useReadingStats();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const chartDays = stats ? recentDays(stats.days, CHART_DAYS) : [];
+  const chartMax = Math.max(60, ...chartDays.map(d => d.seconds));
+  const chartSeconds = chartDays.reduce((sum, d) => sum + d.seconds, 0);
+
+  // Time per book, most read first
+  const bookTotals = new Map<string, { title: string; seconds: number }>();
+  for (const session of stats?.sessions ?? []) {
+    const book = bookTotals.get(session.book_id) ?? { title: session.book_title ?? 'Untitled', seconds: 0 };
+    book.seconds += session.seconds;
+    bookTotals.set(session.book_id, book);
+  }
+  const books = [...bookTotals.entries()].sort((a, b) => b[1].seconds - a[1].seconds);
+
+  const summary = [
+    {
+      icon: Flame,
+      label: 'Current streak',
+      value: `${stats?.currentStreak ?? 0} ${stats?.currentStreak === 1 ? 'day' : 'days'}`,
+      detail: `Longest: ${stats?.longestStreak ?? 0} ${stats?.longestStreak === 1 ? 'day' : 'days'}`,
+    },
+    {
+      icon: Clock,
+      label: 'Time reading',
+      value: formatDuration(stats?.totalSeconds ?? 0),
+      detail: `${formatDuration(chartSeconds / CHART_DAYS)} a day lately`,
+    },
+    {
+      icon: Gauge,
+      label: 'Reading speed',
+      value: `${stats?.wordsPerMinute ?? DEFAULT_WORDS_PER_MINUTE} wpm`,
+      detail: stats?.wordsPerMinute ? 'From your own reading' : 'Typical pace, until we learn yours',
+    },
+  ];
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <header className="border-b border-border px-6 py-4">
+        <div className="max-w-4xl mx-auto flex items-center gap-4">
+          <button
+            onClick={() => navigate('/dashboard')}
+            className="p-2 -ml-2 text-muted-foreground hover:text-foreground transition-colors"
+            aria-label="Back to dashboard"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <h1 className="display-text text-lg text-primary">The Crater Mythos</h1>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-6 py-12">
+        <motion.section
+          className="mb-12"
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+        >
+          <h2 className="text-2xl font-serif mb-6">Your Reading</h2>
+          <div className="grid gap-4 sm:grid-cols-3">
+            {summary.map(({ icon: Icon, label, value, detail }) => (
+              <div key={label} className="p-4 bg-card border border-border rounded-lg">
+                <p className="text-sm text-muted-foreground mb-2 flex items-center gap-2">
+                  <Icon className="w-4 h-4 text-primary" /> {label}
+                </p>
+                <p className="text-2xl font-serif">{value}</p>
+                <p className="text-xs text-muted-foreground mt-1">{detail}</p>
+              </div>
+            ))}
+          </div>
+        </motion.section>
+
+        <motion.section
+          className="mb-12"
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.1 }}
+        >
+          <h3 className="text-lg font-serif mb-4 flex items-center gap-2">
+            <BarChart3 className="w-5 h-5 text-primary" />
+            Minutes per Day
+          </h3>
+          <div className="p-4 bg-card border border-border rounded-lg">
+            <div className="h-40 flex items-end gap-1" role="img" aria-label={`Reading time over the last ${CHART_DAYS} days`}>
+              {chartDays.map((day) => (
+                <div
+                  key={day.date}
+                  className="flex-1 h-full flex flex-col justify-end"
+                  title={`${format(parseISO(day.date), 'EEE, MMM d')}: ${formatDuration(day.seconds)}`}
+                >
+                  <div
+                    className={`rounded-t ${day.seconds > 0 ? 'bg-primary' : 'bg-muted'}`}
+                    style={{ height: `${Math.max(2, (day.seconds / chartMax) * 100)}%` }}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-1 mt-2">
+              {chartDays.map((day) => (
+                <span key={day.date} className="flex-1 text-center text-xs text-muted-foreground">
+                  {format(parseISO(day.date), 'EEEEE')}
+                </span>
+              ))}
+            </div>
+          </div>
+        </motion.section>
+
+        <motion.section
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.2 }}
+        >
+          <h3 className="text-lg font-serif mb-4 flex items-center gap-2">
+            <BookOpen className="w-5 h-5 text-primary" />
+            By Book
+          </h3>
+          {books.length === 0 ? (
+            <p className="text-muted-foreground">Your reading time will show up here once you start a book.</p>
+          ) : (
+            <div className="grid gap-4">
+              {books.map(([bookId, book]) => (
+                <button
+                  key={bookId}
+                  onClick={() => navigate('/reader/' + bookId)}
+                  className="p-4 bg-card border border-border rounded-lg flex items-center justify-between gap-4 text-left hover:border-primary/50 transition-colors"
+                >
+                  <span className="font-serif truncate">{book.title}</span>
+                  <span className="text-sm text-muted-foreground shrink-0">{formatDuration(book.seconds)}</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </motion.section>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+import { useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { useBooks } from '@/hooks/useBooks';
+import { useSeriesList } from '@/hooks/useSeries';
+import { useSubscription } from '@/hooks/useSubscription';
+import { formatPrice } from '@/hooks/usePricing';
+import { ArrowLeft, BookOpen, Layers, Loader2, Lock } from 'lucide-react';
+
+export default function Series() {
+  const { seriesId } = useParams();
+  const navigate = useNavigate();
+  const { data: seriesList, isLoading: seriesLoading } = useSeriesList();
+  const { data: books, isLoading: booksLoading } = useBooks();
+  const { createSeriesCheckout } = useSubscription();
+  const [isCheckingOut, setIsCheckingOut] = useState(false);
+
+  const series = seriesList?.find(s => s.id === seriesId);
+  const volumes = series
+    ? series.bookIds
+      .map(id => books?.find(b => b.id === id))
+      .filter((book): book is NonNullable<typeof book> => !!book)
+    : [];
+  const ownedCount = volumes.filter(b => b.owned).length;
+  const seriesProgress = volumes.length > 0
+    ? Math.round(volumes.reduce((sum, b) => sum + b.progress, 0) / volumes.length)
+    : 0;
+
+  const handleBuyBundle = async () => {
+    if (!series) return;
+    setIsCheckingOut(true);
+    try {
+      await createSeriesCheckout(series.id);
+    } finally {
+      setIsCheckingOut(false);
+    }
+  };
+
+  if (seriesLoading || booksLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!series) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center max-w-md px-6">
+          <h1 className="text-2xl font-display mb-4">Series Not Found</h1>
+          <button
+            onClick={() => navigate('/dashboard')}
+            className="px-6 py-2 bg-primary text-primary-foreground rounded hover:bg-primary/90 transition-colors"
+          >
+            Return to Dashboard
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <header className="border-b border-border px-6 py-4">
+        <div className="max-w-4xl mx-auto flex items-center gap-4">
+          <button
+            onClick={() => navigate('/dashboard')}
+            className="p-2 -ml-2 text-muted-foreground hover:text-foreground transition-colors"
+            aria-label="Back to dashboard"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <h1 className="display-text text-lg text-primary">The Crater Mythos</h1>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-6 py-12">
+        <motion.section
+          className="mb-12 flex flex-col sm:flex-row gap-6"
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+        >
+          {series.cover_url && (
+            <img src={series.cover_url} alt={series.title} className="w-32 h-44 object-cover rounded" />
+          )}
+          <div className="flex-1">
+            <p className="text-sm text-muted-foreground mb-1 flex items-center gap-2">
+              <Layers className="w-4 h-4" /> Series · {volumes.length} {volumes.length === 1 ? 'book' : 'books'}
+            </p>
+            <h2 className="text-2xl font-serif mb-3">{series.title}</h2>
+            {series.description && (
+              <p className="text-muted-foreground mb-4">{series.description}</p>
+            )}
+            {ownedCount > 0 && (
+              <div className="flex items-center gap-2 mb-4">
+                <div className="w-32 h-1 bg-muted rounded-full overflow-hidden">
+                  <div className="h-full bg-primary transition-all" style={{ width: `${seriesProgress}%` }} />
+                </div>
+                <span className="text-sm text-muted-foreground">{seriesProgress}% of the series read</span>
+              </div>
+            )}
+            {series.bundlePrice && ownedCount < volumes.length && (
+              <button
+                onClick={handleBuyBundle}
+                disabled={isCheckingOut}
+                className="px-4 py-2 bg-primary text-primary-foreground rounded text-sm hover:bg-primary/90 transition-colors disabled:opacity-50 flex items-center gap-2"
+              >
+                {isCheckingOut && <Loader2 className="w-4 h-4 animate-spin" />}
+                Buy the complete series · {formatPrice(series.bundlePrice.amount_cents)}
+              </button>
+            )}
+          </div>
+        </motion.section>
+
+        <motion.section
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.1 }}
+        >
+          <h3 className="text-lg font-serif mb-4 flex items-center gap-2">
+            <BookOpen className="w-5 h-5 text-primary" />
+            Reading Order
+          </h3>
+          <div className="grid gap-4">
+            {volumes.map((book, index) => (
+              <button
+                key={book.id}
+                onClick={() => navigate('/reader/' + book.id)}
+                className="p-4 bg-card border border-border rounded-lg flex items-center gap-4 text-left hover:border-primary/50 transition-colors"
+              >
+                <span className="text-sm text-muted-foreground w-6 text-center">{index + 1}</span>
+                {book.cover_url && (
+                  <img src={book.cover_url} alt={book.title} className="w-12 h-16 object-cover rounded" />
+                )}
+                <div className="flex-1 min-w-0">
+                  <h4 className="font-serif truncate">{book.title}</h4>
+                  {book.owned ? (
+                    <p className="text-sm text-muted-foreground">
+                      {book.progress >= 100 ? 'Finished' : book.progress > 0 ? `${book.progress}% complete` : 'Not started'}
+                    </p>
+                  ) : (
+                    <p className="text-sm text-muted-foreground flex items-center gap-1">
+                      <Lock className="w-3 h-3" /> Preview available
+                    </p>
+                  )}
+                </div>
+              </button>
+            ))}
+          </div>
+        </motion.section>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+// Keeping readers' highlights and bookmarks on their passage when a chapter's
+// text changes, shared by manuscript re-imports and revision restores
+
+// Remove chapter markup tags, e.g. for heading detection and word counts
+export function stripMarkup(text: string): string {
+  return text.replace(/^[ \t]*\{(center|right)\}/gm, '').replace(/\{\/?(i|b|sc)\}/g, '');
+}
+
+export interface HighlightRow {
+  id: string;
+  chapter_id: string;
+  start_position: number;
+  end_position: number;
+  text_content: string | null;
+  is_orphaned: boolean;
+}
+
+export interface BookmarkRow {
+  id: string;
+  chapter_id: string;
+  position: number;
+}
+
+export interface BookmarkUpdate {
+  id: string;
+  position: number;
+}
+
+export interface HighlightUpdate {
+  id: string;
+  start_position: number;
+  end_position: number;
+  text_content: string | null;
+  // The passage is gone from the revised text; the reader stops drawing it
+  is_orphaned: boolean;
+}
+
+function nearestIndexOf(text: string, search: string, expected: number): number {
+  let best = -1;
+  for (let i = text.indexOf(search); i !== -1; i = text.indexOf(search, i + 1)) {
+    if (best === -1 || Math.abs(i - expected) < Math.abs(best - expected)) best = i;
+  }
+  return best;
+}
+
+// Find where a highlighted passage lives in the revised chapter text. Positions
+// are character offsets into the chapter's plain text (markup removed). Tries the
+// quoted text nearest its old relative position, then the surrounding context.
+// Returns null when the passage can no longer be located.
+export function reanchorRange(
+  oldText: string,
+  newText: string,
+  start: number,
+  end: number,
+  quote: string | null
+): { start: number; end: number } | null {
+  const target = quote || oldText.slice(start, end);
+  if (!target) return null;
+  if (newText.slice(start, end) === target) return { start, end };
+
+  const expected = oldText.length ? Math.round(start * newText.length / oldText.length) : 0;
+
+  const found = nearestIndexOf(newText, target, expected);
+  if (found !== -1) return { start: found, end: found + target.length };
+
+  // The passage itself was edited: anchor on the text just before and after it
+  const prefix = oldText.slice(Math.max(0, start - 32), start);
+  const suffix = oldText.slice(end, end + 32);
+  const prefixAt = prefix.length >= 8 ? nearestIndexOf(newText, prefix, expected - prefix.length) : -1;
+  if (prefixAt === -1) return null;
+
+  const newStart = prefixAt + prefix.length;
+  const suffixAt = suffix.length >= 8 ? newText.indexOf(suffix, newStart) : -1;
+  if (suffixAt > newStart && suffixAt - newStart <= target.length * 2) {
+    return { start: newStart, end: suffixAt };
+  }
+  const newEnd = Math.min(newText.length, newStart + target.length);
+  return newEnd > newStart ? { start: newStart, end: newEnd } : null;
+}
+
+// Re-anchor every highlight on matched chapters whose text changed. Ones that
+// can't be placed keep their offsets and are flagged as orphaned
+export function reanchorHighlights(
+  highlights: HighlightRow[],
+  oldTexts: Map<string, string>,
+  newTexts: Map<string, string>
+): HighlightUpdate[] {
+  const updates: HighlightUpdate[] = [];
+  for (const h of highlights) {
+    const oldText = oldTexts.get(h.chapter_id);
+    const newText = newTexts.get(h.chapter_id);
+    if (oldText === undefined || newText === undefined) continue;
+
+    const range = reanchorRange(oldText, newText, h.start_position, h.end_position, h.text_content);
+    if (!range) {
+      console.log('Could not re-anchor highlight', h.id);
+      updates.push({
+        id: h.id,
+        start_position: h.start_position,
+        end_position: h.end_position,
+        text_content: h.text_content,
+        is_orphaned: true,
+      });
+      continue;
+    }
+    if (range.start !== h.start_position || range.end !== h.end_position || h.is_orphaned) {
+      updates.push({
+        id: h.id,
+        start_position: range.start,
+        end_position: range.end,
+        text_content: newText.slice(range.start, range.end),
+        is_orphaned: false,
+      });
+    }
+  }
+  return updates;
+}
+
+// Move bookmarks along with the passage they were placed at. One whose passage
+// is gone keeps its offset, within the revised text
+export function reanchorBookmarks(
+  bookmarks: BookmarkRow[],
+  oldTexts: Map<string, string>,
+  newTexts: Map<string, string>
+): BookmarkUpdate[] {
+  const updates: BookmarkUpdate[] = [];
+  for (const b of bookmarks) {
+    const oldText = oldTexts.get(b.chapter_id);
+    const newText = newTexts.get(b.chapter_id);
+    if (oldText === undefined || newText === undefined) continue;
+
+    const end = Math.min(oldText.length, b.position + 64);
+    const range = end > b.position ? reanchorRange(oldText, newText, b.position, end, null) : null;
+    const position = range ? range.start : Math.min(b.position, newText.length);
+    if (position !== b.position) updates.push({ id: b.id, position });
+  }
+  return updates;
+}
@@ -25,8 +25,8 @@ serve(async (req) => {
   try {
     logStep("Function started");
 
-    const { priceType, bookId } = await req.json();
-    logStep("Request params", { priceType, bookId });
+    const { priceType, bookId, seriesId } = await req.json();
+    logStep("Request params", { priceType, bookId, seriesId });
 
     const authHeader = req.headers.get("Authorization")!;
     const token = authHeader.replace("Bearer ", "");
@@ -35,17 +35,17 @@ serve(async (req) => {
     if (!user?.email) throw new Error("User not authenticated or email not available");
     logStep("User authenticated", { userId: user.id, email: user.email });
 
-    // Fetch price from database by price_key
-    const { data: priceData, error: priceError } = await supabaseClient
+    // Fetch price from database: a series bundle by series, anything else by price_key
+    let priceQuery = supabaseClient
       .from('stripe_prices')
       .select('stripe_price_id, price_type')
-      .eq('price_key', priceType)
-      .eq('is_active', true)
-      .single();
+      .eq('is_active', true);
+    priceQuery = seriesId ? priceQuery.eq('series_id', seriesId) : priceQuery.eq('price_key', priceType);
+    const { data: priceData, error: priceError } = await priceQuery.single();
 
     if (priceError || !priceData) {
-      logStep("Price lookup failed", { priceType, error: priceError?.message });
-      throw new Error(`Invalid or inactive price type: ${priceType}`);
+      logStep("Price lookup failed", { priceType, seriesId, error: priceError?.message });
+      throw new Error(seriesId ? `No active bundle price for series: ${seriesId}` : `Invalid or inactive price type: ${priceType}`);
     }
 
     const priceId = priceData.stripe_price_id;
@@ -71,7 +71,8 @@ serve(async (req) => {
     // Build metadata for tracking
     const metadata: Record<string, string> = { user_id: user.id };
     if (bookId) metadata.book_id = bookId;
-    if (priceType.includes('extras')) metadata.has_extras = 'true';
+    if (seriesId) metadata.series_id = seriesId;
+    if (priceType?.includes('extras')) metadata.has_extras = 'true';
 
     const session = await stripe.checkout.sessions.create({
       customer: customerId,
@@ -122,6 +122,7 @@ serve(async (req) => {
           price_type,
           billing_interval,
           tier,
+          series_id,
           features
         } = params;
 
@@ -129,13 +130,17 @@ serve(async (req) => {
           throw new Error("price_key, display_name, amount_cents, and price_type are required");
         }
 
+        if (tier === "series" && (!series_id || price_type !== "one_time")) {
+          throw new Error("Series bundle prices need a series_id and must be one-time");
+        }
+
         logStep("Creating new price", { price_key, amount_cents, price_type });
 
         // Create Stripe product first
         const product = await stripe.products.create({
           name: display_name,
           description: description || undefined,
-          metadata: { price_key, tier: tier || "" },
+          metadata: { price_key, tier: tier || "", series_id: series_id || "" },
         });
         logStep("Stripe product created", { productId: product.id });
 
@@ -166,6 +171,7 @@ serve(async (req) => {
             price_type,
             billing_interval: billing_interval || null,
             tier: tier || null,
+            series_id: tier === "series" ? series_id : null,
             features: features || [],
             is_active: true,
           })
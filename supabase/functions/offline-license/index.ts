@@ -0,0 +1,138 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// How long a device may read a book offline before it has to check in again
+const LICENSE_DAYS = 14
+
+// A book's content key for one reader: the same on every device and every
+// renewal, so chapters already on a device stay readable, and never stored
+async function deriveContentKey(userId: string, bookId: string): Promise<string> {
+  const encoder = new TextEncoder()
+  const secret = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(Deno.env.get('OFFLINE_CONTENT_SECRET')!),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const key = await crypto.subtle.sign('HMAC', secret, encoder.encode(`${userId}:${bookId}`))
+  return btoa(String.fromCharCode(...new Uint8Array(key)))
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'No authorization header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    const userClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } }
+    })
+
+    const { data: { user }, error: userError } = await userClient.auth.getUser()
+
+    if (userError || !user) {
+      console.error('Error getting user:', userError)
+      return new Response(
+        JSON.stringify({ error: 'Invalid user' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { bookId, deviceId } = await req.json()
+    if (typeof bookId !== 'string' || typeof deviceId !== 'string' || !deviceId || deviceId.length > 64) {
+      return new Response(
+        JSON.stringify({ error: 'bookId and deviceId are required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Use service role to check access (bypasses RLS)
+    const adminClient = createClient(supabaseUrl, supabaseServiceKey)
+
+    const [roles, purchases, profile] = await Promise.all([
+      adminClient.from('user_roles').select('role').eq('user_id', user.id).eq('role', 'admin'),
+      adminClient.from('purchases').select('id').eq('user_id', user.id).eq('book_id', bookId).limit(1),
+      adminClient.from('profiles').select('subscription_tier, subscription_end').eq('user_id', user.id).maybeSingle(),
+    ])
+
+    if (roles.error || purchases.error || profile.error) {
+      console.error('Error checking access:', roles.error ?? purchases.error ?? profile.error)
+      return new Response(
+        JSON.stringify({ error: 'Failed to check access' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const owns = roles.data.length > 0 || purchases.data.length > 0
+    const subscriptionEnd = profile.data?.subscription_end ? new Date(profile.data.subscription_end) : null
+    const subscribed = !!profile.data
+      && profile.data.subscription_tier !== 'none'
+      && (!subscriptionEnd || subscriptionEnd > new Date())
+
+    if (!owns && !subscribed) {
+      console.log('No offline access for user:', user.id, 'book:', bookId)
+      return new Response(
+        JSON.stringify({ error: 'No access to this book' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Subscribers can read offline only until their subscription runs out
+    let expiresAt = new Date(Date.now() + LICENSE_DAYS * 24 * 60 * 60 * 1000)
+    if (!owns && subscriptionEnd && subscriptionEnd < expiresAt) {
+      expiresAt = subscriptionEnd
+    }
+
+    const { error: licenseError } = await adminClient
+      .from('offline_licenses')
+      .upsert({
+        user_id: user.id,
+        book_id: bookId,
+        device_id: deviceId,
+        issued_at: new Date().toISOString(),
+        expires_at: expiresAt.toISOString(),
+      }, { onConflict: 'user_id,book_id,device_id' })
+
+    if (licenseError) {
+      console.error('Error recording license:', licenseError)
+      return new Response(
+        JSON.stringify({ error: 'Failed to issue license' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    return new Response(
+      JSON.stringify({
+        contentKey: await deriveContentKey(user.id, bookId),
+        expiresAt: expiresAt.toISOString(),
+      }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
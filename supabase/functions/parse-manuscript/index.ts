@@ -1,46 +1,67 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.94.1";
 import JSZip from "https://esm.sh/jszip@3.10.1";
+import { getDocumentProxy } from "https://esm.sh/unpdf@0.12.1";
+import {
+  reanchorBookmarks,
+  reanchorHighlights,
+  stripMarkup,
+  type BookmarkRow,
+  type BookmarkUpdate,
+  type HighlightRow,
+  type HighlightUpdate,
+} from "../_shared/reanchor.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version',
 };
 
+type ParsedChapter = { title: string; content: string; chapterNumber: number; anchorId: string };
+
+// Chapter heading patterns, shared by the plain-text parser and PDF line reconstruction
+const chapterRegex = /^(?:Chapter|CHAPTER)\s+(\d+|[IVXLC]+)(?:[:.\s]+(.*))?$/i;
+const specialSectionRegex = /^(Prologue|PROLOGUE|Epilogue|EPILOGUE|Interlude|INTERLUDE|Introduction|INTRODUCTION|Preface|PREFACE)(?:[:.\s]+(.*))?$/i;
+const mdHeaderRegex = /^#{1,2}\s+(.+)$/;
+
 function generateAnchorId(title: string, index: number): string {
   const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').substring(0, 30);
   return `ch-${index + 1}-${slug || 'untitled'}`;
 }
 
-function parseContent(content: string) {
-  const chapters: { title: string; content: string; chapterNumber: number; anchorId: string }[] = [];
+// Only keep chapters with meaningful content (more than 50 chars); report the rest
+function addChapter(chapters: ParsedChapter[], title: string, content: string, warnings: string[]) {
+  if (content.length > 50) {
+    const idx = chapters.length;
+    chapters.push({
+      title,
+      content,
+      chapterNumber: idx + 1,
+      anchorId: generateAnchorId(title, idx),
+    });
+  } else {
+    const fragment = stripMarkup(content).replace(/\s+/g, ' ').trim();
+    warnings.push(fragment
+      ? `Dropped "${title}": only ${fragment.length} characters ("${fragment}")`
+      : `Dropped "${title}": no content`);
+  }
+}
+
+function parseContent(content: string, warnings: string[] = []): ParsedChapter[] {
+  const chapters: ParsedChapter[] = [];
   const lines = content.split('\n');
   let currentChapter: { title: string; lines: string[] } | null = null;
   
-  // Enhanced chapter detection patterns
-  const chapterRegex = /^(?:Chapter|CHAPTER)\s+(\d+|[IVXLC]+)(?:[:\.\s]+(.*))?$/i;
-  const specialSectionRegex = /^(Prologue|PROLOGUE|Epilogue|EPILOGUE|Interlude|INTERLUDE|Introduction|INTRODUCTION|Preface|PREFACE)(?:[:\.\s]+(.*))?$/i;
-  const mdHeaderRegex = /^#{1,2}\s+(.+)$/;
-  
   for (const line of lines) {
-    const trimmedLine = line.trim();
+    // Headings may carry formatting (e.g. a bold, centered "Chapter 1"), so match on plain text
+    const trimmedLine = stripMarkup(line).trim();
     const chapterMatch = trimmedLine.match(chapterRegex);
     const specialMatch = trimmedLine.match(specialSectionRegex);
     const mdMatch = trimmedLine.match(mdHeaderRegex);
     
     if (chapterMatch || specialMatch || mdMatch) {
-      // Save previous chapter if it has content
-      if (currentChapter && currentChapter.lines.length > 0) {
-        const chapterContent = currentChapter.lines.join('\n').trim();
-        // Only add if there's meaningful content (more than 50 chars)
-        if (chapterContent.length > 50) {
-          const idx = chapters.length;
-          chapters.push({
-            title: currentChapter.title,
-            content: chapterContent,
-            chapterNumber: idx + 1,
-            anchorId: generateAnchorId(currentChapter.title, idx),
-          });
-        }
+      // Save previous chapter
+      if (currentChapter) {
+        addChapter(chapters, currentChapter.title, currentChapter.lines.join('\n').trim(), warnings);
       }
       
       // Determine title for new chapter
@@ -66,17 +87,8 @@ function parseContent(content: string) {
   }
   
   // Add final chapter
-  if (currentChapter && currentChapter.lines.length > 0) {
-    const chapterContent = currentChapter.lines.join('\n').trim();
-    if (chapterContent.length > 50) {
-      const idx = chapters.length;
-      chapters.push({
-        title: currentChapter.title,
-        content: chapterContent,
-        chapterNumber: idx + 1,
-        anchorId: generateAnchorId(currentChapter.title, idx),
-      });
-    }
+  if (currentChapter) {
+    addChapter(chapters, currentChapter.title, currentChapter.lines.join('\n').trim(), warnings);
   }
   
   // Fallback: if no chapters detected, create one chapter with all content
@@ -92,6 +104,18 @@ function parseContent(content: string) {
   return chapters;
 }
 
+// Run-level toggles such as <w:i/> are on unless given an explicit false value
+function hasRunProperty(rPr: string, name: string): boolean {
+  const match = rPr.match(new RegExp(`<w:${name}(\\s[^>]*)?\\/?>`));
+  if (!match) return false;
+  const val = match[1] ? getAttr(match[1], 'w:val') : null;
+  return val === null || !['0', 'false', 'off', 'none'].includes(val.toLowerCase());
+}
+
+const sceneBreakRegex = /^[\s*#~\u2022\u00b7\u2042]+$/;
+
+// Convert document.xml into chapter markup (see src/lib/chapterMarkup.ts):
+// italic, bold and small-caps runs, paragraph alignment and scene breaks are kept
 async function extractDocxText(buffer: ArrayBuffer): Promise<string> {
   try {
     const zip = new JSZip();
@@ -104,27 +128,63 @@ async function extractDocxText(buffer: ArrayBuffer): Promise<string> {
       throw new Error('No document.xml found in DOCX');
     }
 
-    // Parse XML to extract text with proper paragraph breaks preserved
     const paragraphs: string[] = [];
 
-    // Split by paragraph tags and extract text
+    // Split by paragraph tags and extract formatted runs
     const paraElements = documentXml.split(/<\/w:p>/);
 
     for (const para of paraElements) {
-      // Extract all text runs within this paragraph
-      const textMatches = para.match(/<w:t[^>]*>([^<]*)<\/w:t>/g);
-
-      if (textMatches) {
-        const paragraphText = textMatches
-          .map(m => m.replace(/<w:t[^>]*>/, '').replace(/<\/w:t>/, ''))
+      const pPr = para.match(/<w:pPr>([\s\S]*?)<\/w:pPr>/)?.[1] ?? '';
+      const jc = pPr.match(/<w:jc\s[^>]*>/)?.[0];
+      const alignment = jc ? getAttr(jc, 'w:val') : null;
+
+      const runs: { text: string; italic: boolean; bold: boolean; smallCaps: boolean }[] = [];
+      for (const runMatch of para.matchAll(/<w:r(?:\s[^>]*)?>([\s\S]*?)<\/w:r>/g)) {
+        const run = runMatch[1];
+        const rPr = run.match(/<w:rPr>([\s\S]*?)<\/w:rPr>/)?.[1] ?? '';
+        const text = [...run.matchAll(/<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:(tab|br)(?:\s[^>]*)?\/>/g)]
+          .map(m => (m[2] === 'tab' ? ' ' : m[2] === 'br' ? '\n' : decodeEntities(m[1])))
           .join('');
+        if (!text) continue;
+
+        const format = {
+          italic: hasRunProperty(rPr, 'i'),
+          bold: hasRunProperty(rPr, 'b'),
+          smallCaps: hasRunProperty(rPr, 'smallCaps'),
+        };
+        const previous = runs[runs.length - 1];
+        if (previous && previous.italic === format.italic && previous.bold === format.bold && previous.smallCaps === format.smallCaps) {
+          previous.text += text;
+        } else {
+          runs.push({ text, ...format });
+        }
+      }
 
-        // Add paragraph even if empty to preserve spacing
-        paragraphs.push(paragraphText);
-      } else {
+      const plainText = runs.map(r => r.text).join('');
+      if (!plainText.trim()) {
         // Empty paragraph - preserve as blank line for spacing
         paragraphs.push('');
+        continue;
       }
+
+      // Centered asterisms, hashes and dinkuses all become the same scene break
+      if (sceneBreakRegex.test(plainText)) {
+        paragraphs.push('* * *');
+        continue;
+      }
+
+      const markup = runs
+        .map(r => {
+          let text = r.text;
+          if (r.smallCaps) text = `{sc}${text}{/sc}`;
+          if (r.italic) text = `{i}${text}{/i}`;
+          if (r.bold) text = `{b}${text}{/b}`;
+          return text;
+        })
+        .join('');
+
+      const alignPrefix = alignment === 'center' ? '{center}' : alignment === 'right' || alignment === 'end' ? '{right}' : '';
+      paragraphs.push(alignPrefix + markup);
     }
 
     // Join paragraphs with double newlines to create proper paragraph spacing
@@ -136,6 +196,541 @@ async function extractDocxText(buffer: ArrayBuffer): Promise<string> {
   }
 }
 
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+const xmlEntities: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00a0',
+  mdash: '\u2014', ndash: '\u2013', hellip: '\u2026',
+  lsquo: '\u2018', rsquo: '\u2019', ldquo: '\u201c', rdquo: '\u201d',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return xmlEntities[entity.toLowerCase()] ?? match;
+  });
+}
+
+function getAttr(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*("([^"]*)"|'([^']*)')`, 'i'));
+  return match ? (match[2] ?? match[3]) : null;
+}
+
+// Resolve an href from an EPUB document against the directory of that document
+function resolveEpubPath(baseDir: string, href: string): string {
+  const parts = (baseDir ? `${baseDir}/${decodeURIComponent(href)}` : decodeURIComponent(href)).split('/');
+  const resolved: string[] = [];
+  for (const part of parts) {
+    if (part === '..') resolved.pop();
+    else if (part && part !== '.') resolved.push(part);
+  }
+  return resolved.join('/');
+}
+
+function dirOf(path: string): string {
+  return path.includes('/') ? path.substring(0, path.lastIndexOf('/')) : '';
+}
+
+// Convert an XHTML fragment into plain text with blank lines between block elements
+function xhtmlToText(html: string): string {
+  const body = html.match(/<body[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? html;
+  const text = body
+    .replace(/<(script|style|head)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|h[1-6]|li|blockquote|section|article|tr)>/gi, '\n\n')
+    .replace(/<hr[^>]*>/gi, '\n\n* * *\n\n')
+    .replace(/<[^>]+>/g, '');
+
+  return decodeEntities(text)
+    .split(/\n{2,}/)
+    .map(p => p.replace(/[ \t\r\u00a0]+/g, ' ').replace(/ ?\n ?/g, '\n').trim())
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+// Remove the heading that opens a chapter, since the title is stored separately
+function stripLeadingHeading(html: string): string {
+  const body = html.match(/<body[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? html;
+  return body.replace(/^(\s*<(?!h[1-6])[a-z][^>]*>)*\s*<h([1-6])[^>]*>[\s\S]*?<\/h\2>/i, '$1');
+}
+
+interface EpubTocEntry {
+  title: string;
+  path: string;
+  fragment: string | null;
+}
+
+function parseNavToc(navXml: string, navDir: string): EpubTocEntry[] {
+  const tocNav = navXml.match(/<nav[^>]*epub:type\s*=\s*["'][^"']*\btoc\b[^"']*["'][^>]*>([\s\S]*?)<\/nav>/i)?.[1]
+    ?? navXml.match(/<nav[^>]*>([\s\S]*?)<\/nav>/i)?.[1];
+  if (!tocNav) return [];
+
+  const entries: EpubTocEntry[] = [];
+  for (const match of tocNav.matchAll(/<a\b([^>]*)>([\s\S]*?)<\/a>/gi)) {
+    const href = getAttr(match[1], 'href');
+    const title = decodeEntities(match[2].replace(/<[^>]+>/g, '')).replace(/\s+/g, ' ').trim();
+    if (!href || !title) continue;
+    const [file, fragment] = href.split('#');
+    entries.push({ title, path: resolveEpubPath(navDir, file), fragment: fragment || null });
+  }
+  return entries;
+}
+
+function parseNcxToc(ncxXml: string, ncxDir: string): EpubTocEntry[] {
+  const entries: EpubTocEntry[] = [];
+  // navPoints are nested, but document order is reading order so a flat scan is enough
+  for (const match of ncxXml.matchAll(/<navLabel>\s*<text>([\s\S]*?)<\/text>\s*<\/navLabel>\s*<content\b([^>]*)\/?>/gi)) {
+    const src = getAttr(match[2], 'src');
+    const title = decodeEntities(match[1]).replace(/\s+/g, ' ').trim();
+    if (!src || !title) continue;
+    const [file, fragment] = src.split('#');
+    entries.push({ title, path: resolveEpubPath(ncxDir, file), fragment: fragment || null });
+  }
+  return entries;
+}
+
+async function extractEpubChapters(buffer: ArrayBuffer, warnings: string[] = []): Promise<ParsedChapter[]> {
+  try {
+    const zip = new JSZip();
+    await zip.loadAsync(buffer);
+
+    const containerXml = await zip.file('META-INF/container.xml')?.async('string');
+    const rootTag = containerXml?.match(/<rootfile\b[^>]*>/i)?.[0];
+    const opfPath = rootTag ? getAttr(rootTag, 'full-path') : null;
+    if (!opfPath) {
+      throw new Error('No OPF package found in META-INF/container.xml');
+    }
+
+    const opfXml = await zip.file(opfPath)?.async('string');
+    if (!opfXml) {
+      throw new Error(`Package document ${opfPath} is missing`);
+    }
+    const opfDir = dirOf(opfPath);
+
+    // Manifest: id -> resolved path / media type / properties
+    const manifest = new Map<string, { path: string; mediaType: string; properties: string }>();
+    for (const match of opfXml.matchAll(/<item\b[^>]*>/gi)) {
+      const id = getAttr(match[0], 'id');
+      const href = getAttr(match[0], 'href');
+      if (!id || !href) continue;
+      manifest.set(id, {
+        path: resolveEpubPath(opfDir, href),
+        mediaType: getAttr(match[0], 'media-type') || '',
+        properties: getAttr(match[0], 'properties') || '',
+      });
+    }
+
+    // Spine: reading order of content documents, skipping non-linear items (notes, covers)
+    const spineTag = opfXml.match(/<spine\b[^>]*>/i)?.[0] ?? '';
+    const spine: string[] = [];
+    for (const match of opfXml.matchAll(/<itemref\b[^>]*>/gi)) {
+      if (getAttr(match[0], 'linear') === 'no') continue;
+      const item = manifest.get(getAttr(match[0], 'idref') || '');
+      if (item && /x?html/.test(item.mediaType)) spine.push(item.path);
+    }
+    if (spine.length === 0) {
+      throw new Error('EPUB spine has no readable documents');
+    }
+
+    // TOC: prefer the EPUB 3 nav document, fall back to the EPUB 2 NCX
+    let toc: EpubTocEntry[] = [];
+    const navItem = [...manifest.values()].find(item => item.properties.split(/\s+/).includes('nav'));
+    if (navItem) {
+      const navXml = await zip.file(navItem.path)?.async('string');
+      if (navXml) toc = parseNavToc(navXml, dirOf(navItem.path));
+    }
+    if (toc.length === 0) {
+      const ncxId = getAttr(spineTag, 'toc');
+      const ncxItem = (ncxId ? manifest.get(ncxId) : undefined)
+        ?? [...manifest.values()].find(item => item.mediaType === 'application/x-dtbncx+xml');
+      if (ncxItem) {
+        const ncxXml = await zip.file(ncxItem.path)?.async('string');
+        if (ncxXml) toc = parseNcxToc(ncxXml, dirOf(ncxItem.path));
+      }
+    }
+
+    const documents = new Map<string, string>();
+    for (const path of spine) {
+      documents.set(path, await zip.file(path)?.async('string') ?? '');
+    }
+
+    const spineSet = new Set(spine);
+    toc = toc.filter(entry => spineSet.has(entry.path));
+
+    // Without a usable TOC, hand the whole text to the heading heuristics
+    if (toc.length === 0) {
+      console.log('EPUB has no usable TOC, falling back to heading detection');
+      return parseContent(spine.map(path => xhtmlToText(documents.get(path)!)).join('\n\n'), warnings);
+    }
+
+    // Split each spine document at the TOC targets it contains
+    const sections: { title: string | null; html: string; opensChapter: boolean }[] = [];
+    for (const path of spine) {
+      const html = documents.get(path)!;
+      const targets = toc
+        .filter(entry => entry.path === path)
+        .map(entry => {
+          if (!entry.fragment) return { title: entry.title, offset: 0 };
+          const fragmentId = entry.fragment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+          return { title: entry.title, offset: html.search(new RegExp(`<[^>]*\\sid\\s*=\\s*["']${fragmentId}["']`, 'i')) };
+        })
+        .filter(target => target.offset >= 0)
+        .sort((a, b) => a.offset - b.offset);
+
+      if (targets.length === 0) {
+        sections.push({ title: null, html, opensChapter: false });
+        continue;
+      }
+      if (targets[0].offset > 0) {
+        sections.push({ title: null, html: html.substring(0, targets[0].offset), opensChapter: false });
+      }
+      targets.forEach((target, i) => {
+        const end = i + 1 < targets.length ? targets[i + 1].offset : html.length;
+        sections.push({ title: target.title, html: html.substring(target.offset, end), opensChapter: true });
+      });
+    }
+
+    // Documents between TOC entries belong to the preceding chapter; front matter before the first entry is dropped
+    const grouped: { title: string; parts: string[] }[] = [];
+    for (const section of sections) {
+      if (section.opensChapter) {
+        grouped.push({ title: section.title!, parts: [xhtmlToText(stripLeadingHeading(section.html))] });
+      } else if (grouped.length > 0) {
+        grouped[grouped.length - 1].parts.push(xhtmlToText(section.html));
+      }
+    }
+
+    // Same threshold as parseContent: TOC entries that only point at a heading are dropped
+    const chapters: ParsedChapter[] = [];
+    for (const group of grouped) {
+      addChapter(chapters, group.title, group.parts.filter(Boolean).join('\n\n').trim(), warnings);
+    }
+
+    return chapters;
+  } catch (error) {
+    console.error('EPUB extraction error:', error);
+    throw new Error(`Failed to extract EPUB content: ${error.message}`);
+  }
+}
+
+interface PdfTextItem {
+  str: string;
+  transform: number[];
+  width: number;
+  height: number;
+}
+
+interface PdfLine {
+  text: string;
+  x: number;
+  y: number;
+  size: number;
+}
+
+interface PdfParagraph {
+  text: string;
+  page: number;
+  y: number;
+}
+
+interface PdfDestinationResolver {
+  getDestination(id: string): Promise<unknown[] | null>;
+  getPageIndex(ref: unknown): Promise<number>;
+}
+
+interface PdfOutlineNode {
+  title: string;
+  dest: string | unknown[] | null;
+  items: PdfOutlineNode[];
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+// Group positioned text items into visual lines, top of the page first
+function buildPdfLines(items: PdfTextItem[]): PdfLine[] {
+  const lines: (PdfLine & { parts: { x: number; str: string }[] })[] = [];
+  for (const item of items) {
+    if (!item.str.trim()) continue;
+    const x = item.transform[4];
+    const y = item.transform[5];
+    const size = item.height || Math.abs(item.transform[3]) || 10;
+    const line = lines.find(l => Math.abs(l.y - y) < size * 0.4);
+    if (line) {
+      line.parts.push({ x, str: item.str });
+      line.x = Math.min(line.x, x);
+      line.size = Math.max(line.size, size);
+    } else {
+      lines.push({ text: '', x, y, size, parts: [{ x, str: item.str }] });
+    }
+  }
+
+  return lines
+    .map(line => ({
+      x: line.x,
+      y: line.y,
+      size: line.size,
+      text: line.parts
+        .sort((a, b) => a.x - b.x)
+        .map(p => p.str)
+        .join(' ')
+        .replace(/\s+/g, ' ')
+        .trim(),
+    }))
+    .sort((a, b) => b.y - a.y);
+}
+
+const pageNumberRegex = /^(?:page\s+)?\d+(?:\s+of\s+\d+)?$/i;
+// Front matter is often numbered i, ii, iii…, but so are chapter headings
+const romanPageNumberRegex = /^[ivxlc]+$/i;
+
+// Running headers and footers repeat across pages once digits are masked out
+function headerFooterKey(text: string): string {
+  return text.toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ').trim();
+}
+
+function stripRunningHeadersAndFooters(pages: PdfLine[][]): PdfLine[][] {
+  const edgeCounts = new Map<string, number>();
+  let romanEdgePages = 0;
+  for (const lines of pages) {
+    const edgeLines = [...lines.slice(0, 2), ...lines.slice(-2)];
+    const edges = new Set(edgeLines.map(l => headerFooterKey(l.text)));
+    for (const key of edges) edgeCounts.set(key, (edgeCounts.get(key) ?? 0) + 1);
+    if (edgeLines.some(l => romanPageNumberRegex.test(l.text))) romanEdgePages++;
+  }
+
+  const repeatThreshold = Math.max(3, Math.ceil(pages.length * 0.5));
+  // A bare Roman numeral is only a page number when most pages carry one; a
+  // lone "IV" at the top of a page is a chapter heading
+  const romanPageNumbers = romanEdgePages >= repeatThreshold;
+  // Headers are short; a full-width body line that happens to repeat is never stripped
+  const isRunning = (line: PdfLine) =>
+    pageNumberRegex.test(line.text)
+    || (romanPageNumbers && romanPageNumberRegex.test(line.text))
+    || (line.text.length <= 60 && (edgeCounts.get(headerFooterKey(line.text)) ?? 0) >= repeatThreshold);
+
+  return pages.map(lines => {
+    let start = 0;
+    let end = lines.length;
+    while (start < end && start < 2 && isRunning(lines[start])) start++;
+    while (end > start && lines.length - end < 2 && isRunning(lines[end - 1])) end--;
+    return lines.slice(start, end);
+  });
+}
+
+function isHeadingLine(text: string): boolean {
+  return chapterRegex.test(text) || specialSectionRegex.test(text);
+}
+
+// Rebuild paragraphs from lines, joining text that flows across page breaks
+function buildPdfParagraphs(pages: PdfLine[][]): PdfParagraph[] {
+  const allLines = pages.flat();
+  const bodySize = median(allLines.map(l => l.size));
+  const leftMargin = median(allLines.map(l => l.x));
+  const gaps: number[] = [];
+  for (const lines of pages) {
+    for (let i = 1; i < lines.length; i++) gaps.push(lines[i - 1].y - lines[i].y);
+  }
+  const lineGap = median(gaps.filter(g => g > 0)) || bodySize * 1.2;
+
+  const paragraphs: PdfParagraph[] = [];
+  let current: PdfParagraph | null = null;
+  let previous: PdfLine | null = null;
+
+  const flush = () => {
+    if (current && current.text.trim()) paragraphs.push(current);
+    current = null;
+  };
+
+  pages.forEach((lines, page) => {
+    lines.forEach((line, index) => {
+      const isHeading = isHeadingLine(line.text) || line.size > bodySize * 1.3;
+      let startsParagraph = !current || isHeading || (previous !== null && isHeadingLine(previous.text));
+
+      if (!startsParagraph && previous) {
+        const previousEndsSentence = /[.!?:"\u201d\u2019)]$/.test(previous.text);
+        if (index === 0) {
+          // New page: carry on unless the last page ended a sentence and this line is indented
+          startsParagraph = previousEndsSentence && line.x > leftMargin + bodySize;
+        } else {
+          const gap = previous.y - line.y;
+          startsParagraph = gap > lineGap * 1.5
+            || line.x > leftMargin + bodySize
+            || Math.abs(line.size - previous.size) > bodySize * 0.2;
+        }
+      }
+
+      if (startsParagraph) {
+        flush();
+        current = { text: line.text, page, y: line.y };
+      } else if (current) {
+        // Rejoin words hyphenated across a line or page break
+        current.text = /[a-z]-$/i.test(current.text) && /^[a-z]/.test(line.text)
+          ? current.text.slice(0, -1) + line.text
+          : `${current.text} ${line.text}`;
+      }
+
+      previous = line;
+      if (isHeading) flush();
+    });
+  });
+  flush();
+
+  return paragraphs;
+}
+
+async function resolveOutlinePage(pdf: PdfDestinationResolver, dest: string | unknown[] | null): Promise<{ page: number; top: number | null } | null> {
+  try {
+    const explicit = typeof dest === 'string' ? await pdf.getDestination(dest) : dest;
+    if (!Array.isArray(explicit) || !explicit[0]) return null;
+    const page = await pdf.getPageIndex(explicit[0]);
+    // XYZ destinations carry the vertical position of the target on the page
+    const kind = (explicit[1] as { name?: string } | undefined)?.name;
+    const top = kind === 'XYZ' && typeof explicit[3] === 'number' ? explicit[3] : null;
+    return { page, top };
+  } catch {
+    return null;
+  }
+}
+
+function normalizeTitle(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+async function extractPdfChapters(buffer: ArrayBuffer, warnings: string[] = []): Promise<ParsedChapter[]> {
+  try {
+    const pdf = await getDocumentProxy(new Uint8Array(buffer));
+
+    const pages: PdfLine[][] = [];
+    for (let i = 1; i <= pdf.numPages; i++) {
+      const page = await pdf.getPage(i);
+      const textContent = await page.getTextContent();
+      const items = (textContent.items as Partial<PdfTextItem>[]).filter(
+        (item): item is PdfTextItem => typeof item.str === 'string' && Array.isArray(item.transform),
+      );
+      pages.push(buildPdfLines(items));
+    }
+
+    const paragraphs = buildPdfParagraphs(stripRunningHeadersAndFooters(pages));
+
+    // Prefer the document outline (bookmarks) for chapter boundaries
+    const outline = ((await pdf.getOutline()) ?? []) as PdfOutlineNode[];
+    // A single top-level bookmark (usually the book title) wraps the real chapter list
+    const entries = outline.length === 1 && outline[0].items.length > 0 ? outline[0].items : outline;
+
+    const starts: { title: string; index: number }[] = [];
+    for (const entry of entries) {
+      const target = await resolveOutlinePage(pdf, entry.dest);
+      const title = entry.title.replace(/\s+/g, ' ').trim();
+      if (!target || !title) continue;
+      const index = paragraphs.findIndex(p =>
+        p.page > target.page || (p.page === target.page && (target.top === null || p.y <= target.top + 2)));
+      if (index >= 0) starts.push({ title, index });
+    }
+    starts.sort((a, b) => a.index - b.index);
+
+    if (starts.length === 0) {
+      console.log('PDF has no usable outline, falling back to heading detection');
+      return parseContent(paragraphs.map(p => p.text).join('\n\n'), warnings);
+    }
+
+    const chapters: ParsedChapter[] = [];
+    starts.forEach((start, i) => {
+      const end = i + 1 < starts.length ? starts[i + 1].index : paragraphs.length;
+      const body = paragraphs.slice(start.index, end).map(p => p.text);
+      // Drop the printed heading when it repeats the bookmark title, or its
+      // start ("Chapter One" for "Chapter One: The Beginning"); a first line
+      // that only mentions the words is body text
+      const heading = body.length > 0 ? normalizeTitle(body[0]) : '';
+      const title = normalizeTitle(start.title);
+      if (heading && (title === heading || title.startsWith(`${heading} `))) body.shift();
+
+      addChapter(chapters, start.title, body.join('\n\n').trim(), warnings);
+    });
+
+    return chapters;
+  } catch (error) {
+    console.error('PDF extraction error:', error);
+    throw new Error(`Failed to extract PDF content: ${error.message}`);
+  }
+}
+
+// ============================================
+// Re-import matching
+// ============================================
+
+interface ExistingChapter {
+  id: string;
+  title: string;
+  anchor_id: string | null;
+  content: string | null;
+}
+
+// Word trigrams, used for content similarity between chapter versions
+function shingles(text: string): Set<string> {
+  const words = text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  const set = new Set<string>();
+  for (let i = 0; i + 3 <= words.length; i++) {
+    set.add(`${words[i]} ${words[i + 1]} ${words[i + 2]}`);
+  }
+  return set;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  const [small, large] = a.size < b.size ? [a, b] : [b, a];
+  let shared = 0;
+  for (const s of small) if (large.has(s)) shared++;
+  const union = a.size + b.size - shared;
+  return union ? shared / union : 0;
+}
+
+// Pair incoming chapters with existing ones so re-imports keep chapter ids.
+// Every candidate pair is scored on content similarity, with bonuses for an equal
+// title or anchor id, then pairs are taken greedily from the best score down.
+// A pair qualifies on similar content alone, or on an equal title that is unique
+// on both sides (a chapter rewritten under the same name).
+// Returns incoming index -> existing chapter id.
+function matchChapters(incoming: ParsedChapter[], existing: ExistingChapter[]): Map<number, string> {
+  const incomingShingles = incoming.map(ch => shingles(stripMarkup(ch.content)));
+  const existingShingles = existing.map(ch => shingles(stripMarkup(ch.content ?? '')));
+
+  const incomingTitles = incoming.map(ch => normalizeTitle(ch.title));
+  const existingTitles = existing.map(ch => normalizeTitle(ch.title));
+  const isUnique = (titles: string[], title: string) => titles.indexOf(title) === titles.lastIndexOf(title);
+
+  const candidates: { i: number; e: number; score: number }[] = [];
+  incoming.forEach((ch, i) => {
+    existing.forEach((ex, e) => {
+      const similarity = jaccard(incomingShingles[i], existingShingles[e]);
+      const title = incomingTitles[i];
+      const sameTitle = title !== '' && title === existingTitles[e];
+      const sameAnchor = ch.anchorId === ex.anchor_id;
+      if (similarity >= 0.5 || (sameTitle && isUnique(incomingTitles, title) && isUnique(existingTitles, title))) {
+        candidates.push({ i, e, score: similarity + (sameTitle ? 0.5 : 0) + (sameAnchor ? 0.25 : 0) });
+      }
+    });
+  });
+
+  candidates.sort((a, b) => b.score - a.score);
+
+  const matches = new Map<number, string>();
+  const taken = new Set<number>();
+  for (const { i, e } of candidates) {
+    if (matches.has(i) || taken.has(e)) continue;
+    matches.set(i, existing[e].id);
+    taken.add(e);
+  }
+  return matches;
+}
+
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -197,89 +792,209 @@ Deno.serve(async (req) => {
 
     console.log('Admin verified:', userId);
 
-    const { bookId, filePath, mode } = await req.json();
+    const { bookId, filePath, mode, dryRun, chapters: reviewedChapters } = await req.json();
     
-    if (!bookId || !filePath) {
+    if (!bookId || (!filePath && !Array.isArray(reviewedChapters))) {
       return new Response(JSON.stringify({ error: 'Missing bookId or filePath' }), 
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
     }
 
-    console.log('Processing manuscript:', { bookId, filePath, mode });
+    let chapters: ParsedChapter[] | null = null;
+    const warnings: string[] = [];
 
-    const { data: fileData, error: dlErr } = await adminClient.storage.from('book-manuscripts').download(filePath);
-    
-    if (dlErr || !fileData) {
-      console.log('Download failed:', dlErr?.message);
-      return new Response(JSON.stringify({ error: `Failed to download manuscript: ${dlErr?.message}` }), 
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
-    }
+    if (Array.isArray(reviewedChapters)) {
+      // Chapters reviewed (merged, split, renamed, reordered) in the import preview are saved as given
+      const valid = reviewedChapters.length > 0 && reviewedChapters.every(ch =>
+        typeof ch?.title === 'string' && ch.title.trim() && typeof ch?.content === 'string' && ch.content.trim());
+      if (!valid) {
+        return new Response(JSON.stringify({ error: 'Every chapter needs a title and content' }), 
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+      }
 
-    const fileName = filePath.toLowerCase();
-    let textContent = '';
-    
-    if (fileName.endsWith('.txt') || fileName.endsWith('.md')) {
-      textContent = await fileData.text();
-      console.log('Parsed TXT/MD, length:', textContent.length);
-    } else if (fileName.endsWith('.docx')) {
-      const buffer = await fileData.arrayBuffer();
-      textContent = await extractDocxText(buffer);
-      console.log('Parsed DOCX, length:', textContent.length);
-    } else if (fileName.endsWith('.epub')) {
-      return new Response(JSON.stringify({ error: 'EPUB format not supported. Please convert to DOCX or TXT.' }), 
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
-    } else if (fileName.endsWith('.pdf')) {
-      return new Response(JSON.stringify({ error: 'PDF format not supported. Please convert to DOCX or TXT.' }), 
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+      chapters = reviewedChapters.map((ch: { title: string; content: string }, i: number) => ({
+        title: ch.title.trim(),
+        content: ch.content.trim(),
+        chapterNumber: i + 1,
+        anchorId: generateAnchorId(ch.title.trim(), i),
+      }));
+      console.log('Saving reviewed chapters:', { bookId, mode, count: chapters.length });
     } else {
-      return new Response(JSON.stringify({ error: 'Unsupported file format. Use DOCX, TXT, or MD.' }), 
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+      console.log('Processing manuscript:', { bookId, filePath, mode, dryRun: !!dryRun });
+
+      const { data: fileData, error: dlErr } = await adminClient.storage.from('book-manuscripts').download(filePath);
+      
+      if (dlErr || !fileData) {
+        console.log('Download failed:', dlErr?.message);
+        return new Response(JSON.stringify({ error: `Failed to download manuscript: ${dlErr?.message}` }), 
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+      }
+
+      const fileName = filePath.toLowerCase();
+      let textContent = '';
+      
+      if (fileName.endsWith('.txt') || fileName.endsWith('.md')) {
+        textContent = await fileData.text();
+        console.log('Parsed TXT/MD, length:', textContent.length);
+      } else if (fileName.endsWith('.docx')) {
+        const buffer = await fileData.arrayBuffer();
+        textContent = await extractDocxText(buffer);
+        console.log('Parsed DOCX, length:', textContent.length);
+      } else if (fileName.endsWith('.epub')) {
+        const buffer = await fileData.arrayBuffer();
+        chapters = await extractEpubChapters(buffer, warnings);
+        textContent = chapters.map(ch => ch.content).join('\n\n');
+        console.log('Parsed EPUB, length:', textContent.length);
+      } else if (fileName.endsWith('.pdf')) {
+        const buffer = await fileData.arrayBuffer();
+        chapters = await extractPdfChapters(buffer, warnings);
+        textContent = chapters.map(ch => ch.content).join('\n\n');
+        console.log('Parsed PDF, length:', textContent.length);
+      } else {
+        return new Response(JSON.stringify({ error: 'Unsupported file format. Use DOCX, EPUB, PDF, TXT, or MD.' }), 
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+      }
+
+      if (!textContent || textContent.trim().length < 100) {
+        return new Response(JSON.stringify({ error: 'Could not extract meaningful content from the file. Please check the file format.' }), 
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+      }
+
+      if (!chapters) {
+        chapters = parseContent(textContent, warnings);
+      }
+      console.log('Chapters detected:', chapters.length, 'warnings:', warnings.length);
     }
 
-    if (!textContent || textContent.trim().length < 100) {
-      return new Response(JSON.stringify({ error: 'Could not extract meaningful content from the file. Please check the file format.' }), 
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    // Match against the book's current chapters so a re-import keeps chapter ids
+    const { data: existingData, error: existingErr } = await adminClient.from('chapters')
+      .select('id, title, anchor_id, content').eq('book_id', bookId).order('chapter_order');
+    if (existingErr) {
+      console.log('Failed to load existing chapters:', existingErr.message);
+      return new Response(JSON.stringify({ error: `Failed to load existing chapters: ${existingErr.message}` }), 
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+    const existing = (existingData ?? []) as ExistingChapter[];
+    const matches = matchChapters(chapters, existing);
+    const existingById = new Map(existing.map(ex => [ex.id, ex]));
+    console.log('Matched', matches.size, 'of', chapters.length, 'chapters to', existing.length, 'existing');
+
+    // Dry run: report what would be imported without touching the book
+    if (dryRun) {
+      const preview = chapters.map((ch, i) => {
+        const plain = stripMarkup(ch.content);
+        const matched = matches.has(i) ? existingById.get(matches.get(i)!) : undefined;
+        return {
+          title: ch.title,
+          content: ch.content,
+          anchorId: ch.anchorId,
+          wordCount: countWords(plain),
+          firstLine: (plain.split(/\n/).find(line => line.trim()) ?? '').trim().substring(0, 160),
+          matchedChapterId: matched?.id ?? null,
+          matchedTitle: matched?.title ?? null,
+        };
+      });
+      return new Response(JSON.stringify({ success: true, dryRun: true, chapters: preview, warnings }), 
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
     }
 
-    const chapters = parseContent(textContent);
-    console.log('Chapters detected:', chapters.length);
+    const importMode = mode === 'replace' ? 'replace' : 'add';
+
+    // Re-anchor highlights and bookmarks on matched chapters whose text changed
+    let highlightUpdates: HighlightUpdate[] = [];
+    let bookmarkUpdates: BookmarkUpdate[] = [];
+    if (importMode === 'replace') {
+      const oldTexts = new Map<string, string>();
+      const newTexts = new Map<string, string>();
+      matches.forEach((existingId, i) => {
+        const oldText = stripMarkup(existingById.get(existingId)?.content ?? '');
+        const newText = stripMarkup(chapters![i].content);
+        if (oldText !== newText) {
+          oldTexts.set(existingId, oldText);
+          newTexts.set(existingId, newText);
+        }
+      });
 
-    if (mode === 'replace') {
-      const { error: deleteErr } = await adminClient.from('chapters').delete().eq('book_id', bookId);
-      if (deleteErr) {
-        console.log('Failed to delete existing chapters:', deleteErr.message);
+      const changedIds = [...oldTexts.keys()];
+      const highlights: HighlightRow[] = [];
+      const pageSize = 1000;
+      for (let from = 0; changedIds.length > 0; from += pageSize) {
+        const { data: page, error: hlErr } = await adminClient.from('highlights')
+          .select('id, chapter_id, start_position, end_position, text_content, is_orphaned')
+          .in('chapter_id', changedIds)
+          .order('id')
+          .range(from, from + pageSize - 1);
+        if (hlErr) {
+          console.log('Failed to load highlights:', hlErr.message);
+          return new Response(JSON.stringify({ error: `Failed to load highlights: ${hlErr.message}` }), 
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+        }
+        highlights.push(...(page as HighlightRow[]));
+        if (!page || page.length < pageSize) break;
       }
-    }
 
-    let startNum = 1;
-    if (mode === 'add') {
-      const { data: existing } = await adminClient.from('chapters')
-        .select('chapter_number').eq('book_id', bookId).order('chapter_number', { ascending: false }).limit(1);
-      if (existing?.[0]) startNum = existing[0].chapter_number + 1;
+      highlightUpdates = reanchorHighlights(highlights, oldTexts, newTexts);
+      console.log('Re-anchored', highlightUpdates.length, 'of', highlights.length, 'highlights');
+      const orphaned = highlightUpdates.filter(u => u.is_orphaned).length;
+      if (orphaned > 0) {
+        warnings.push(`${orphaned} reader ${orphaned === 1 ? 'highlight' : 'highlights'} could not be found in the revised text and will no longer be shown in the chapter`);
+      }
+
+      const bookmarks: BookmarkRow[] = [];
+      for (let from = 0; changedIds.length > 0; from += pageSize) {
+        const { data: page, error: bmErr } = await adminClient.from('bookmarks')
+          .select('id, chapter_id, position')
+          .in('chapter_id', changedIds)
+          .order('id')
+          .range(from, from + pageSize - 1);
+        if (bmErr) {
+          console.log('Failed to load bookmarks:', bmErr.message);
+          return new Response(JSON.stringify({ error: `Failed to load bookmarks: ${bmErr.message}` }), 
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+        }
+        bookmarks.push(...(page as BookmarkRow[]));
+        if (!page || page.length < pageSize) break;
+      }
+
+      bookmarkUpdates = reanchorBookmarks(bookmarks, oldTexts, newTexts);
+      console.log('Re-anchored', bookmarkUpdates.length, 'of', bookmarks.length, 'bookmarks');
     }
 
-    const toInsert = chapters.map((ch, i) => ({
-      book_id: bookId,
-      title: ch.title,
-      content: ch.content,
-      chapter_number: startNum + i,
-      anchor_id: ch.anchorId,
-      word_count: ch.content.split(/\s+/).filter(Boolean).length,
-      is_preview: i === 0,
-    }));
-
-    const { data: inserted, error: insErr } = await adminClient.from('chapters').insert(toInsert).select();
-
-    if (insErr) {
-      console.log('Insert failed:', insErr.message);
-      return new Response(JSON.stringify({ error: `Failed to save chapters: ${insErr.message}` }), 
+    // Snapshot, delete (in replace mode), update and insert happen in one transaction,
+    // so a failed import leaves the existing chapters untouched
+    const { data: importRunId, error: importErr } = await adminClient.rpc('import_book_chapters', {
+      _book_id: bookId,
+      _mode: importMode,
+      _chapters: chapters.map((ch, i) => ({
+        id: importMode === 'replace' ? matches.get(i) ?? null : null,
+        title: ch.title,
+        content: ch.content,
+        anchor_id: ch.anchorId,
+        word_count: countWords(stripMarkup(ch.content)),
+        is_preview: i === 0,
+      })),
+      _source_path: filePath ?? null,
+      _warnings: warnings,
+      _created_by: userId,
+      _highlight_updates: highlightUpdates,
+      _bookmark_updates: bookmarkUpdates,
+    });
+
+    if (importErr) {
+      console.log('Import failed:', importErr.message);
+      return new Response(JSON.stringify({ error: `Failed to save chapters: ${importErr.message}` }), 
         { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
     }
 
-    await adminClient.from('books').update({ updated_content_at: new Date().toISOString() }).eq('id', bookId);
-
-    console.log('Success:', inserted?.length, 'chapters created');
+    const chaptersUpdated = importMode === 'replace' ? matches.size : 0;
+    console.log('Success:', chapters.length - chaptersUpdated, 'chapters created,', chaptersUpdated, 'updated, import run', importRunId);
 
-    return new Response(JSON.stringify({ success: true, chaptersCreated: inserted?.length || 0 }), 
+    return new Response(JSON.stringify({
+      success: true,
+      chaptersCreated: chapters.length - chaptersUpdated,
+      chaptersUpdated,
+      importRunId,
+      warnings,
+    }), 
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
 
   } catch (error) {
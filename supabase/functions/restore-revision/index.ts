@@ -0,0 +1,136 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.94.1";
+import {
+  reanchorBookmarks,
+  reanchorHighlights,
+  stripMarkup,
+  type BookmarkRow,
+  type HighlightRow,
+} from "../_shared/reanchor.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version',
+};
+
+// Restores a chapter revision from the admin portal. Readers' highlights and
+// bookmarks are re-anchored against the restored text the same way a manuscript
+// re-import does, since only the service role can move other readers' annotations.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const anonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return new Response(JSON.stringify({ error: 'Missing authorization header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    const userClient = createClient(supabaseUrl, anonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const adminClient = createClient(supabaseUrl, serviceKey);
+
+    const { data: userData, error: userError } = await userClient.auth.getUser();
+    const userId = userData?.user?.id;
+    if (userError || !userId) {
+      console.log('Auth failed: Invalid or expired token', userError?.message);
+      return new Response(JSON.stringify({ error: 'Session expired. Please log out and log back in.' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    const { data: roleData } = await adminClient
+      .from('user_roles')
+      .select('role')
+      .eq('user_id', userId)
+      .eq('role', 'admin')
+      .maybeSingle();
+
+    if (!roleData) {
+      return new Response(JSON.stringify({ error: 'Admin access required' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    const { revisionId } = await req.json();
+    if (!revisionId) {
+      return new Response(JSON.stringify({ error: 'Missing revisionId' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    const { data: revision, error: revisionErr } = await adminClient
+      .from('chapter_revisions')
+      .select('chapter_id, title, content')
+      .eq('id', revisionId)
+      .maybeSingle();
+    if (revisionErr || !revision) {
+      return new Response(JSON.stringify({ error: 'Revision not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    const { data: chapter, error: chapterErr } = await adminClient
+      .from('chapters')
+      .select('content')
+      .eq('id', revision.chapter_id)
+      .single();
+    if (chapterErr) {
+      return new Response(JSON.stringify({ error: `Failed to load chapter: ${chapterErr.message}` }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    const oldText = stripMarkup(chapter.content ?? '');
+    const newText = stripMarkup(revision.content ?? '');
+    const oldTexts = new Map([[revision.chapter_id, oldText]]);
+    const newTexts = new Map([[revision.chapter_id, newText]]);
+
+    let highlightUpdates: ReturnType<typeof reanchorHighlights> = [];
+    let bookmarkUpdates: ReturnType<typeof reanchorBookmarks> = [];
+    if (oldText !== newText) {
+      const [highlights, bookmarks] = await Promise.all([
+        adminClient.from('highlights')
+          .select('id, chapter_id, start_position, end_position, text_content, is_orphaned')
+          .eq('chapter_id', revision.chapter_id),
+        adminClient.from('bookmarks')
+          .select('id, chapter_id, position')
+          .eq('chapter_id', revision.chapter_id),
+      ]);
+      if (highlights.error || bookmarks.error) {
+        const message = (highlights.error ?? bookmarks.error)!.message;
+        return new Response(JSON.stringify({ error: `Failed to load annotations: ${message}` }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+      }
+
+      highlightUpdates = reanchorHighlights(highlights.data as HighlightRow[], oldTexts, newTexts);
+      bookmarkUpdates = reanchorBookmarks(bookmarks.data as BookmarkRow[], oldTexts, newTexts);
+      console.log('Re-anchored', highlightUpdates.length, 'highlights and', bookmarkUpdates.length, 'bookmarks');
+    }
+
+    const { error: restoreErr } = await adminClient.rpc('restore_chapter_revision', {
+      _revision_id: revisionId,
+      _created_by: userId,
+      _highlight_updates: highlightUpdates,
+      _bookmark_updates: bookmarkUpdates,
+    });
+    if (restoreErr) {
+      console.log('Restore failed:', restoreErr.message);
+      return new Response(JSON.stringify({ error: `Failed to restore revision: ${restoreErr.message}` }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    return new Response(JSON.stringify({
+      success: true,
+      title: revision.title,
+      content: revision.content,
+      orphanedHighlights: highlightUpdates.filter(u => u.is_orphaned).length,
+    }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return new Response(JSON.stringify({ error: (error as Error).message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+  }
+});
@@ -93,8 +93,9 @@ serve(async (req) => {
             }
           }
         } else if (session.mode === 'payment') {
-          // Handle one-time book purchase
+          // Handle one-time book or series bundle purchase
           const bookId = session.metadata?.book_id;
+          const seriesId = session.metadata?.series_id;
           const lineItems = await stripe.checkout.sessions.listLineItems(session.id);
           const priceId = lineItems.data[0]?.price?.id;
           const priceInfo = priceId ? await getPriceInfo(supabaseAdmin, priceId) : null;
@@ -117,6 +118,36 @@ serve(async (req) => {
               logStep("Book purchase recorded", { bookId, hasExtras });
             }
           }
+
+          if (seriesId) {
+            // A bundle unlocks every book currently in the series
+            const { data: seriesBooks, error: seriesError } = await supabaseAdmin
+              .from('series_books')
+              .select('book_id')
+              .eq('series_id', seriesId);
+
+            if (seriesError || !seriesBooks?.length) {
+              logStep("Error loading series books", { seriesId, error: seriesError });
+              break;
+            }
+
+            const { error } = await supabaseAdmin
+              .from('purchases')
+              .upsert(
+                seriesBooks.map((sb: { book_id: string }) => ({
+                  user_id: userId,
+                  book_id: sb.book_id,
+                  stripe_payment_id: session.payment_intent as string,
+                })),
+                { onConflict: 'user_id,book_id', ignoreDuplicates: true }
+              );
+
+            if (error) {
+              logStep("Error recording series purchase", { error });
+            } else {
+              logStep("Series purchase recorded", { seriesId, books: seriesBooks.length });
+            }
+          }
         }
         break;
       }
@@ -11,6 +11,18 @@ CREATE TYPE public.app_role AS ENUM ('admin', 'user');
 CREATE TYPE public.audio_type AS ENUM ('audiobook', 'soundtrack');
 CREATE TYPE public.referral_status AS ENUM ('pending', 'credited', 'expired');
 CREATE TYPE public.inquiry_status AS ENUM ('unread', 'read', 'replied', 'resolved');
+CREATE TYPE public.import_mode AS ENUM ('add', 'replace');
+CREATE TYPE public.import_run_status AS ENUM ('completed', 'rolled_back');
+CREATE TYPE public.subscription_tier AS ENUM ('none', 'reader', 'inner_circle');
+CREATE TYPE public.price_type AS ENUM ('subscription', 'one_time');
+CREATE TYPE public.billing_interval AS ENUM ('month', 'year');
+CREATE TYPE public.price_tier AS ENUM ('reader', 'inner_circle', 'book', 'series');
+CREATE TYPE public.reader_theme AS ENUM ('dark', 'light', 'sepia');
+CREATE TYPE public.line_width AS ENUM ('narrow', 'medium', 'wide');
+CREATE TYPE public.reader_layout AS ENUM ('scroll', 'paginated');
+CREATE TYPE public.reader_font AS ENUM ('serif', 'sans', 'dyslexic');
+CREATE TYPE public.page_margin AS ENUM ('narrow', 'medium', 'wide');
+CREATE TYPE public.sync_operation_kind AS ENUM ('progress', 'bookmark', 'highlight', 'reading_time');
 
 -- ============================================
 -- 1. PROFILES
@@ -27,6 +39,9 @@ CREATE TABLE public.profiles (
   referral_code text UNIQUE,
   referral_credits integer NOT NULL DEFAULT 0 CHECK (referral_credits >= 0),
   referred_by uuid REFERENCES public.profiles(id),
+  subscription_tier subscription_tier NOT NULL DEFAULT 'none',
+  subscription_interval text,
+  subscription_end timestamptz,
   created_at timestamptz DEFAULT now(),
   updated_at timestamptz DEFAULT now()
 );
@@ -60,6 +75,7 @@ CREATE TABLE public.books (
   cover_url text,
   price_cents integer NOT NULL DEFAULT 0 CHECK (price_cents >= 0),
   preview_chapters integer NOT NULL DEFAULT 3 CHECK (preview_chapters >= 0),
+  early_access_days integer NOT NULL DEFAULT 0 CHECK (early_access_days >= 0),
   is_published boolean DEFAULT false,
   published_at timestamptz,
   metadata jsonb DEFAULT '{}',
@@ -80,14 +96,17 @@ CREATE TABLE public.chapters (
   title text NOT NULL,
   content text,
   chapter_order integer NOT NULL CHECK (chapter_order > 0),
+  anchor_id text,
   is_preview boolean DEFAULT false,
   word_count integer CHECK (word_count IS NULL OR word_count >= 0),
+  release_at timestamptz,
   created_at timestamptz DEFAULT now(),
   updated_at timestamptz DEFAULT now()
 );
 
 CREATE INDEX idx_chapters_book_order ON public.chapters(book_id, chapter_order);
 CREATE INDEX idx_chapters_book_id ON public.chapters(book_id);
+CREATE INDEX idx_chapters_release_at ON public.chapters(book_id, release_at) WHERE release_at IS NOT NULL;
 
 -- ============================================
 -- 5. BOOK AUDIO
@@ -103,11 +122,16 @@ CREATE TABLE public.book_audio (
   price_cents integer NOT NULL DEFAULT 0 CHECK (price_cents >= 0),
   is_enabled boolean DEFAULT true,
   sort_order integer NOT NULL DEFAULT 0 CHECK (sort_order >= 0),
+  -- The chapter an audiobook track narrates
+  chapter_id uuid REFERENCES public.chapters(id) ON DELETE SET NULL,
+  -- Read-along alignment: [{ "time": seconds, "offset": plain-text offset }], in time order
+  sync_map jsonb CHECK (sync_map IS NULL OR jsonb_typeof(sync_map) = 'array'),
   created_at timestamptz DEFAULT now(),
   updated_at timestamptz DEFAULT now()
 );
 
 CREATE INDEX idx_book_audio_book_id ON public.book_audio(book_id);
+CREATE INDEX idx_book_audio_chapter_id ON public.book_audio(chapter_id);
 
 -- ============================================
 -- 6. PURCHASES
@@ -152,6 +176,10 @@ CREATE TABLE public.reading_progress (
   user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
   book_id uuid REFERENCES public.books(id) ON DELETE CASCADE NOT NULL,
   chapter_id uuid REFERENCES public.chapters(id) ON DELETE SET NULL,
+  -- Character offset of the paragraph the reader was on, in the chapter's plain text
+  chapter_position integer NOT NULL DEFAULT 0 CHECK (chapter_position >= 0),
+  chapter_percent numeric NOT NULL DEFAULT 0 CHECK (chapter_percent >= 0 AND chapter_percent <= 100),
+  -- Whole-book progress, weighted by chapter word_count
   progress_percent numeric NOT NULL DEFAULT 0 CHECK (progress_percent >= 0 AND progress_percent <= 100),
   total_time_seconds integer NOT NULL DEFAULT 0 CHECK (total_time_seconds >= 0),
   last_read_at timestamptz DEFAULT now(),
@@ -171,7 +199,9 @@ CREATE TABLE public.bookmarks (
   chapter_id uuid REFERENCES public.chapters(id) ON DELETE CASCADE NOT NULL,
   position integer NOT NULL CHECK (position >= 0),
   note text,
-  created_at timestamptz DEFAULT now()
+  created_at timestamptz DEFAULT now(),
+  -- When the reader last changed it, on whichever device; later changes win
+  updated_at timestamptz DEFAULT now()
 );
 
 CREATE INDEX idx_bookmarks_user_chapter ON public.bookmarks(user_id, chapter_id);
@@ -189,7 +219,12 @@ CREATE TABLE public.highlights (
   text_content text,
   note text,
   color text DEFAULT 'yellow',
+  -- Set when a revision of the chapter lost the passage; kept for the reader's
+  -- notes but no longer drawn in the text
+  is_orphaned boolean NOT NULL DEFAULT false,
   created_at timestamptz DEFAULT now(),
+  -- When the reader last changed it, on whichever device; later changes win
+  updated_at timestamptz DEFAULT now(),
   CONSTRAINT chk_highlights_position_valid CHECK (end_position > start_position)
 );
 
@@ -229,6 +264,195 @@ CREATE TABLE public.inquiries (
 
 CREATE INDEX idx_inquiries_status ON public.inquiries(status, created_at DESC);
 
+-- ============================================
+-- 13. IMPORT RUNS
+-- ============================================
+
+-- One row per manuscript import. snapshot holds the book's chapters, bookmarks,
+-- highlights and progress pointers as they were before the import, for rollback.
+CREATE TABLE public.import_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  book_id uuid REFERENCES public.books(id) ON DELETE CASCADE NOT NULL,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  mode import_mode NOT NULL,
+  status import_run_status NOT NULL DEFAULT 'completed',
+  source_path text,
+  chapters_before integer NOT NULL DEFAULT 0 CHECK (chapters_before >= 0),
+  chapters_after integer NOT NULL DEFAULT 0 CHECK (chapters_after >= 0),
+  chapters_matched integer NOT NULL DEFAULT 0 CHECK (chapters_matched >= 0),
+  snapshot jsonb NOT NULL DEFAULT '{}',
+  warnings jsonb NOT NULL DEFAULT '[]',
+  created_at timestamptz DEFAULT now(),
+  rolled_back_at timestamptz
+);
+
+CREATE INDEX idx_import_runs_book_id ON public.import_runs(book_id, created_at DESC);
+
+-- ============================================
+-- 14. CHAPTER REVISIONS
+-- ============================================
+
+-- Written by trigger whenever a chapter is created or its title or content changes
+CREATE TABLE public.chapter_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  chapter_id uuid REFERENCES public.chapters(id) ON DELETE CASCADE NOT NULL,
+  title text NOT NULL,
+  content text,
+  word_count integer CHECK (word_count IS NULL OR word_count >= 0),
+  word_count_delta integer NOT NULL DEFAULT 0,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX idx_chapter_revisions_chapter_id ON public.chapter_revisions(chapter_id, created_at DESC);
+
+-- ============================================
+-- 15. SERIES
+-- ============================================
+
+CREATE TABLE public.series (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  title text NOT NULL,
+  description text,
+  cover_url text,
+  is_published boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX idx_series_title ON public.series(title);
+
+-- Ordered membership. A book can belong to more than one series or collection.
+CREATE TABLE public.series_books (
+  series_id uuid REFERENCES public.series(id) ON DELETE CASCADE NOT NULL,
+  book_id uuid REFERENCES public.books(id) ON DELETE CASCADE NOT NULL,
+  position integer NOT NULL CHECK (position >= 1),
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (series_id, book_id)
+);
+
+CREATE INDEX idx_series_books_order ON public.series_books(series_id, position);
+CREATE INDEX idx_series_books_book_id ON public.series_books(book_id);
+
+-- ============================================
+-- 16. STRIPE PRICES
+-- ============================================
+
+-- Managed by the manage-prices edge function. Series bundle prices set series_id.
+CREATE TABLE public.stripe_prices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  price_key text UNIQUE NOT NULL,
+  stripe_price_id text NOT NULL,
+  stripe_product_id text NOT NULL,
+  display_name text NOT NULL,
+  description text,
+  amount_cents integer NOT NULL CHECK (amount_cents >= 0),
+  currency text NOT NULL DEFAULT 'usd',
+  price_type price_type NOT NULL,
+  billing_interval billing_interval,
+  tier price_tier,
+  series_id uuid REFERENCES public.series(id) ON DELETE CASCADE,
+  features text[] NOT NULL DEFAULT '{}',
+  sort_order integer NOT NULL DEFAULT 0,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (price_type = 'subscription' OR billing_interval IS NULL),
+  CHECK (series_id IS NULL OR (tier = 'series' AND price_type = 'one_time'))
+);
+
+CREATE INDEX idx_stripe_prices_active ON public.stripe_prices(is_active, sort_order);
+CREATE UNIQUE INDEX idx_stripe_prices_series_active ON public.stripe_prices(series_id)
+  WHERE series_id IS NOT NULL AND is_active = true;
+
+-- ============================================
+-- 17. READER PREFERENCES
+-- ============================================
+
+-- One row per reader, shared by every device they sign in on
+CREATE TABLE public.reader_preferences (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  theme reader_theme NOT NULL DEFAULT 'dark',
+  font_size integer NOT NULL DEFAULT 18 CHECK (font_size BETWEEN 14 AND 28),
+  line_width line_width NOT NULL DEFAULT 'medium',
+  layout reader_layout NOT NULL DEFAULT 'scroll',
+  font_family reader_font NOT NULL DEFAULT 'serif',
+  line_height numeric NOT NULL DEFAULT 1.9 CHECK (line_height BETWEEN 1.4 AND 2.4),
+  -- Space after each paragraph, in em
+  paragraph_spacing numeric NOT NULL DEFAULT 1.5 CHECK (paragraph_spacing BETWEEN 0 AND 3),
+  justify boolean NOT NULL DEFAULT false,
+  hyphenate boolean NOT NULL DEFAULT false,
+  margins page_margin NOT NULL DEFAULT 'medium',
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- ============================================
+-- 18. READING SESSIONS
+-- ============================================
+
+-- Active reading time per reader, book and local calendar day. Written through
+-- record_reading_time; idle time is never counted.
+CREATE TABLE public.reading_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  book_id uuid REFERENCES public.books(id) ON DELETE CASCADE NOT NULL,
+  session_date date NOT NULL,
+  seconds integer NOT NULL DEFAULT 0 CHECK (seconds >= 0),
+  words_read integer NOT NULL DEFAULT 0 CHECK (words_read >= 0),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, book_id, session_date)
+);
+
+CREATE INDEX idx_reading_sessions_user_date ON public.reading_sessions(user_id, session_date);
+
+-- ============================================
+-- 19. AUDIO POSITIONS
+-- ============================================
+
+-- Where each listener stopped in each audiobook track, shared across devices
+CREATE TABLE public.audio_positions (
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  audio_id uuid REFERENCES public.book_audio(id) ON DELETE CASCADE NOT NULL,
+  position_seconds numeric NOT NULL DEFAULT 0 CHECK (position_seconds >= 0),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, audio_id)
+);
+
+CREATE INDEX idx_audio_positions_audio_id ON public.audio_positions(audio_id);
+
+-- ============================================
+-- 20. OFFLINE LICENSES
+-- ============================================
+
+-- Content keys issued to a reader's devices for reading a book offline, and
+-- when each runs out; written by the offline-license edge function
+CREATE TABLE public.offline_licenses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  book_id uuid REFERENCES public.books(id) ON DELETE CASCADE NOT NULL,
+  device_id text NOT NULL,
+  issued_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz NOT NULL,
+  UNIQUE (user_id, book_id, device_id)
+);
+
+CREATE INDEX idx_offline_licenses_book_id ON public.offline_licenses(book_id);
+
+-- ============================================
+-- 21. SYNC OPERATIONS
+-- ============================================
+
+-- Changes queued offline that have been applied, by the id the client gave each
+-- one, so a sync that is retried never applies a change twice. Changes made
+-- online aren't retried and aren't recorded here
+CREATE TABLE public.sync_operations (
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  id text NOT NULL,
+  kind public.sync_operation_kind NOT NULL,
+  applied_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, id)
+);
+
 -- ============================================
 -- ROW LEVEL SECURITY
 -- ============================================
@@ -245,6 +469,16 @@ ALTER TABLE public.bookmarks ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.highlights ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.referrals ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.inquiries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.import_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.chapter_revisions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.series ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.series_books ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stripe_prices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.reader_preferences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.reading_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.audio_positions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.offline_licenses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sync_operations ENABLE ROW LEVEL SECURITY;
 
 -- Profiles
 CREATE POLICY "Users can view own profile" ON public.profiles
@@ -262,12 +496,6 @@ CREATE POLICY "Users can view own roles" ON public.user_roles
 CREATE POLICY "Anyone can view published books" ON public.books
   FOR SELECT USING (is_published = true);
 
--- Chapters
-CREATE POLICY "Anyone can view chapters of published books" ON public.chapters
-  FOR SELECT USING (
-    EXISTS (SELECT 1 FROM public.books WHERE id = book_id AND is_published = true)
-  );
-
 -- Book audio
 CREATE POLICY "Anyone can view enabled audio" ON public.book_audio
   FOR SELECT USING (is_enabled = true);
@@ -300,6 +528,34 @@ CREATE POLICY "Users can manage own highlights" ON public.highlights
 CREATE POLICY "Users can view own referrals" ON public.referrals
   FOR SELECT USING (auth.uid() = (SELECT user_id FROM public.profiles WHERE id = referrer_id));
 
+-- Series
+CREATE POLICY "Anyone can view published series" ON public.series
+  FOR SELECT USING (is_published = true);
+CREATE POLICY "Anyone can view books of published series" ON public.series_books
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.series WHERE id = series_id AND is_published = true)
+  );
+
+-- Stripe prices
+CREATE POLICY "Anyone can view active prices" ON public.stripe_prices
+  FOR SELECT USING (is_active = true);
+
+-- Reader preferences
+CREATE POLICY "Users can manage own reader preferences" ON public.reader_preferences
+  FOR ALL USING (auth.uid() = user_id);
+
+-- Reading sessions
+CREATE POLICY "Users can view own reading sessions" ON public.reading_sessions
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Audio positions
+CREATE POLICY "Users can manage own audio positions" ON public.audio_positions
+  FOR ALL USING (auth.uid() = user_id);
+
+-- Offline licenses
+CREATE POLICY "Users can view own offline licenses" ON public.offline_licenses
+  FOR SELECT USING (auth.uid() = user_id);
+
 -- ============================================
 -- HELPER FUNCTIONS
 -- ============================================
@@ -319,6 +575,667 @@ $$;
 
 GRANT EXECUTE ON FUNCTION public.has_role TO authenticated;
 
+-- A chapter is readable once its release_at has passed (or it has none). Inner
+-- Circle subscribers see it early_access_days sooner; admins always see it.
+CREATE OR REPLACE FUNCTION public.is_chapter_released(_book_id uuid, _release_at timestamptz)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT _release_at IS NULL
+    OR _release_at <= now()
+    OR public.has_role(auth.uid(), 'admin')
+    OR EXISTS (
+      SELECT 1
+      FROM public.books b
+      JOIN public.profiles p ON p.user_id = auth.uid()
+      WHERE b.id = _book_id
+        AND b.early_access_days > 0
+        AND p.subscription_tier = 'inner_circle'
+        AND (p.subscription_end IS NULL OR p.subscription_end > now())
+        AND _release_at - make_interval(days => b.early_access_days) <= now()
+    )
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_chapter_released TO anon, authenticated;
+
+-- Chapters (policy needs is_chapter_released, so it is created after the helpers)
+CREATE POLICY "Anyone can view released chapters of published books" ON public.chapters
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.books WHERE id = book_id AND is_published = true)
+    AND public.is_chapter_released(book_id, release_at)
+  );
+
+-- Titles and dates of chapters the caller cannot read yet, for "coming soon" notices
+CREATE OR REPLACE FUNCTION public.get_upcoming_chapters(_book_id uuid)
+RETURNS TABLE (id uuid, title text, chapter_order integer, release_at timestamptz, early_access_at timestamptz)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT c.id, c.title, c.chapter_order, c.release_at,
+    CASE WHEN b.early_access_days > 0
+      THEN c.release_at - make_interval(days => b.early_access_days)
+    END
+  FROM public.chapters c
+  JOIN public.books b ON b.id = c.book_id
+  WHERE c.book_id = _book_id
+    AND b.is_published = true
+    AND NOT public.is_chapter_released(c.book_id, c.release_at)
+  ORDER BY c.release_at, c.chapter_order
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_upcoming_chapters TO anon, authenticated;
+
+-- Whether the caller may read a chapter's text: previews are open to everyone,
+-- the rest needs a purchase, an active subscription or the admin role. Release
+-- dates are checked separately by is_chapter_released.
+CREATE OR REPLACE FUNCTION public.can_read_chapter(_book_id uuid, _is_preview boolean)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(_is_preview, false)
+    OR public.has_role(auth.uid(), 'admin')
+    OR EXISTS (
+      SELECT 1 FROM public.purchases
+      WHERE user_id = auth.uid() AND book_id = _book_id
+    )
+    OR EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE user_id = auth.uid()
+        AND subscription_tier <> 'none'
+        AND (subscription_end IS NULL OR subscription_end > now())
+    )
+$$;
+
+GRANT EXECUTE ON FUNCTION public.can_read_chapter TO anon, authenticated;
+
+-- Searchable text of a chapter, with the title weighted above the body and
+-- chapter markup tags left out
+CREATE OR REPLACE FUNCTION public.chapter_search_vector(_title text, _content text)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT setweight(to_tsvector('english', coalesce(_title, '')), 'A')
+    || setweight(to_tsvector('english', regexp_replace(coalesce(_content, ''), '\{/?(i|b|sc|center|right)\}', '', 'g')), 'B')
+$$;
+
+-- Chapters full-text index (expression needs chapter_search_vector)
+CREATE INDEX idx_chapters_search ON public.chapters
+  USING GIN (public.chapter_search_vector(title, content));
+
+-- Full-text search over the chapters the caller can read, in one book or across
+-- the library. Matches are wrapped in <mark></mark> and up to three fragments
+-- per chapter are joined with <frag>; the text between is the chapter's plain
+-- text with markup removed, as the reader renders it.
+CREATE OR REPLACE FUNCTION public.search_chapters(_query text, _book_id uuid DEFAULT NULL, _limit integer DEFAULT 50)
+RETURNS TABLE (chapter_id uuid, book_id uuid, book_title text, chapter_title text, chapter_order integer, rank real, headline text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', _query) AS q
+  ),
+  hits AS (
+    SELECT c.id, c.book_id, b.title AS book_title, c.title, c.chapter_order, c.content,
+      ts_rank(public.chapter_search_vector(c.title, c.content), query.q) AS rank
+    FROM public.chapters c
+    JOIN public.books b ON b.id = c.book_id
+    CROSS JOIN query
+    WHERE public.chapter_search_vector(c.title, c.content) @@ query.q
+      AND (_book_id IS NULL OR c.book_id = _book_id)
+      AND b.is_published = true
+      AND public.is_chapter_released(c.book_id, c.release_at)
+      AND public.can_read_chapter(c.book_id, c.is_preview)
+    ORDER BY CASE WHEN _book_id IS NULL THEN ts_rank(public.chapter_search_vector(c.title, c.content), query.q) END DESC,
+      c.chapter_order
+    LIMIT least(greatest(_limit, 1), 100)
+  )
+  SELECT hits.id, hits.book_id, hits.book_title, hits.title, hits.chapter_order, hits.rank,
+    ts_headline(
+      'english',
+      regexp_replace(regexp_replace(coalesce(hits.content, ''), '^[ \t]*\{(center|right)\}', '', 'gn'), '\{/?(i|b|sc)\}', '', 'g'),
+      query.q,
+      'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=12, MaxFragments=3, FragmentDelimiter=<frag>'
+    )
+  FROM hits CROSS JOIN query
+  ORDER BY CASE WHEN _book_id IS NULL THEN hits.rank END DESC, hits.chapter_order
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_chapters TO anon, authenticated;
+
+-- Adds active reading time (and words read) to the caller's session for the day,
+-- and to the book's running total in reading_progress. Clients flush every 30
+-- seconds, so a call is capped at an hour, and words at 15 a second (the
+-- client's own skimming limit) of the time recorded.
+CREATE OR REPLACE FUNCTION public.record_reading_time(
+  _book_id uuid,
+  _session_date date,
+  _seconds integer,
+  _words integer DEFAULT 0
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF _seconds <= 0 THEN
+    RETURN;
+  END IF;
+  _seconds := LEAST(_seconds, 3600);
+  _words := LEAST(GREATEST(coalesce(_words, 0), 0), _seconds * 15);
+
+  INSERT INTO public.reading_sessions (user_id, book_id, session_date, seconds, words_read)
+  VALUES (auth.uid(), _book_id, _session_date, _seconds, _words)
+  ON CONFLICT (user_id, book_id, session_date) DO UPDATE
+  SET seconds = reading_sessions.seconds + EXCLUDED.seconds,
+    words_read = reading_sessions.words_read + EXCLUDED.words_read,
+    updated_at = now();
+
+  INSERT INTO public.reading_progress (user_id, book_id, total_time_seconds)
+  VALUES (auth.uid(), _book_id, _seconds)
+  ON CONFLICT (user_id, book_id) DO UPDATE
+  SET total_time_seconds = reading_progress.total_time_seconds + EXCLUDED.total_time_seconds,
+    updated_at = now();
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_reading_time TO authenticated;
+
+-- Applies one change the caller made, online or queued while offline. _at is
+-- when it was made. Queued changes pass _id, the client's id for the change, and
+-- one already applied is skipped; changes made online pass none.
+-- - progress: the latest position wins, so moving back to reread is kept. When
+--   the server's is newer it is returned as "progress", so the reader can offer
+--   to jump to it
+-- - bookmark, highlight: _data->>'op' is create, update or delete. Updates and
+--   deletes lose to a later change from another device, and updates to one
+--   deleted elsewhere are dropped
+-- - reading_time: added to the day's session, as record_reading_time does
+CREATE OR REPLACE FUNCTION public.apply_sync_operation(
+  _kind public.sync_operation_kind,
+  _data jsonb,
+  _at timestamptz,
+  _id text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _op text := coalesce(_data->>'op', 'create');
+  _applied integer;
+  _progress jsonb;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF _id IS NOT NULL THEN
+    INSERT INTO public.sync_operations (user_id, id, kind)
+    VALUES (auth.uid(), _id, _kind)
+    ON CONFLICT (user_id, id) DO NOTHING;
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('applied', false, 'duplicate', true);
+    END IF;
+  END IF;
+
+  CASE _kind
+  WHEN 'progress' THEN
+    INSERT INTO public.reading_progress AS rp
+      (user_id, book_id, chapter_id, chapter_position, chapter_percent, progress_percent, last_read_at)
+    VALUES (
+      auth.uid(),
+      (_data->>'book_id')::uuid,
+      (_data->>'chapter_id')::uuid,
+      coalesce((_data->>'chapter_position')::integer, 0),
+      coalesce((_data->>'chapter_percent')::numeric, 0),
+      coalesce((_data->>'progress_percent')::numeric, 0),
+      _at
+    )
+    ON CONFLICT (user_id, book_id) DO UPDATE
+    SET chapter_id = EXCLUDED.chapter_id,
+      chapter_position = EXCLUDED.chapter_position,
+      chapter_percent = EXCLUDED.chapter_percent,
+      progress_percent = EXCLUDED.progress_percent,
+      last_read_at = EXCLUDED.last_read_at,
+      updated_at = now()
+    WHERE rp.last_read_at IS NULL OR EXCLUDED.last_read_at >= rp.last_read_at;
+    GET DIAGNOSTICS _applied = ROW_COUNT;
+
+    IF _applied = 0 THEN
+      SELECT jsonb_build_object(
+        'chapter_id', chapter_id,
+        'chapter_position', chapter_position,
+        'progress_percent', progress_percent
+      ) INTO _progress
+      FROM public.reading_progress
+      WHERE user_id = auth.uid() AND book_id = (_data->>'book_id')::uuid;
+      RETURN jsonb_build_object('applied', false, 'progress', _progress);
+    END IF;
+
+  WHEN 'bookmark' THEN
+    IF _op = 'delete' THEN
+      DELETE FROM public.bookmarks
+      WHERE id = (_data->>'id')::uuid AND user_id = auth.uid()
+        AND (updated_at IS NULL OR updated_at <= _at);
+    ELSIF _op = 'update' THEN
+      UPDATE public.bookmarks
+      SET position = (_data->>'position')::integer, note = _data->>'note', updated_at = _at
+      WHERE id = (_data->>'id')::uuid AND user_id = auth.uid()
+        AND (updated_at IS NULL OR updated_at <= _at);
+    ELSE
+      INSERT INTO public.bookmarks (id, user_id, chapter_id, position, note, updated_at)
+      VALUES (
+        (_data->>'id')::uuid,
+        auth.uid(),
+        (_data->>'chapter_id')::uuid,
+        (_data->>'position')::integer,
+        _data->>'note',
+        _at
+      )
+      ON CONFLICT (id) DO NOTHING;
+    END IF;
+    GET DIAGNOSTICS _applied = ROW_COUNT;
+
+  WHEN 'highlight' THEN
+    IF _op = 'delete' THEN
+      DELETE FROM public.highlights
+      WHERE id = (_data->>'id')::uuid AND user_id = auth.uid()
+        AND (updated_at IS NULL OR updated_at <= _at);
+    ELSIF _op = 'update' THEN
+      UPDATE public.highlights
+      SET color = coalesce(_data->>'color', color), note = _data->>'note', updated_at = _at
+      WHERE id = (_data->>'id')::uuid AND user_id = auth.uid()
+        AND (updated_at IS NULL OR updated_at <= _at);
+    ELSE
+      INSERT INTO public.highlights (id, user_id, chapter_id, start_position, end_position, text_content, note, color, updated_at)
+      VALUES (
+        (_data->>'id')::uuid,
+        auth.uid(),
+        (_data->>'chapter_id')::uuid,
+        (_data->>'start_position')::integer,
+        (_data->>'end_position')::integer,
+        _data->>'text_content',
+        _data->>'note',
+        coalesce(_data->>'color', 'yellow'),
+        _at
+      )
+      ON CONFLICT (id) DO NOTHING;
+    END IF;
+    GET DIAGNOSTICS _applied = ROW_COUNT;
+
+  WHEN 'reading_time' THEN
+    PERFORM public.record_reading_time(
+      (_data->>'book_id')::uuid,
+      (_data->>'session_date')::date,
+      (_data->>'seconds')::integer,
+      coalesce((_data->>'words')::integer, 0)
+    );
+    _applied := 1;
+  END CASE;
+
+  RETURN jsonb_build_object('applied', _applied > 0);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.apply_sync_operation TO authenticated;
+
+-- Writes an import in one transaction: snapshots the current chapter set, then
+-- adds or replaces chapters. In replace mode, incoming chapters carrying the id of
+-- an existing chapter (matched by parse-manuscript) update it in place, so reader
+-- data stays attached; progress on removed chapters moves to the chapter now at
+-- the same position. Called by parse-manuscript with the service role.
+CREATE OR REPLACE FUNCTION public.import_book_chapters(
+  _book_id uuid,
+  _mode import_mode,
+  _chapters jsonb,
+  _source_path text DEFAULT NULL,
+  _warnings jsonb DEFAULT '[]',
+  _created_by uuid DEFAULT NULL,
+  _highlight_updates jsonb DEFAULT '[]',
+  _bookmark_updates jsonb DEFAULT '[]'
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  run_id uuid;
+  start_order integer := 0;
+  before_count integer;
+  after_count integer;
+  matched_count integer := 0;
+  previous jsonb;
+BEGIN
+  PERFORM 1 FROM public.books WHERE id = _book_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Book % not found', _book_id;
+  END IF;
+
+  IF jsonb_typeof(_chapters) <> 'array' OR jsonb_array_length(_chapters) = 0 THEN
+    RAISE EXCEPTION 'No chapters to import';
+  END IF;
+
+  SELECT count(*) INTO before_count FROM public.chapters WHERE book_id = _book_id;
+
+  SELECT jsonb_build_object(
+    'chapters', coalesce((
+      SELECT jsonb_agg(to_jsonb(c) ORDER BY c.chapter_order)
+      FROM public.chapters c WHERE c.book_id = _book_id
+    ), '[]'),
+    'bookmarks', coalesce((
+      SELECT jsonb_agg(to_jsonb(b))
+      FROM public.bookmarks b JOIN public.chapters c ON c.id = b.chapter_id
+      WHERE c.book_id = _book_id
+    ), '[]'),
+    'highlights', coalesce((
+      SELECT jsonb_agg(to_jsonb(h))
+      FROM public.highlights h JOIN public.chapters c ON c.id = h.chapter_id
+      WHERE c.book_id = _book_id
+    ), '[]'),
+    'reading_progress', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', rp.id, 'chapter_id', rp.chapter_id, 'chapter_order', c.chapter_order,
+        'chapter_position', rp.chapter_position, 'chapter_percent', rp.chapter_percent
+      ))
+      FROM public.reading_progress rp JOIN public.chapters c ON c.id = rp.chapter_id
+      WHERE rp.book_id = _book_id
+    ), '[]')
+  ) INTO previous;
+
+  IF _mode = 'replace' THEN
+    DELETE FROM public.chapters c
+    WHERE c.book_id = _book_id
+      AND NOT EXISTS (
+        SELECT 1 FROM jsonb_to_recordset(_chapters) AS ch(id uuid) WHERE ch.id = c.id
+      );
+
+    -- is_preview is left alone so the admin's free-preview choices survive
+    UPDATE public.chapters c
+    SET title = ch.title,
+      content = ch.content,
+      chapter_order = ch.ord::integer,
+      anchor_id = ch.anchor_id,
+      word_count = ch.word_count,
+      updated_at = now()
+    FROM jsonb_to_recordset(_chapters) WITH ORDINALITY
+      AS ch(id uuid, title text, content text, anchor_id text, word_count integer, ord bigint)
+    WHERE c.id = ch.id AND c.book_id = _book_id;
+    GET DIAGNOSTICS matched_count = ROW_COUNT;
+  ELSE
+    SELECT coalesce(max(chapter_order), 0) INTO start_order FROM public.chapters WHERE book_id = _book_id;
+  END IF;
+
+  INSERT INTO public.chapters (book_id, title, content, chapter_order, anchor_id, word_count, is_preview)
+  SELECT _book_id, ch.title, ch.content, start_order + ch.ord::integer, ch.anchor_id, ch.word_count, coalesce(ch.is_preview, false)
+  FROM jsonb_to_recordset(_chapters) WITH ORDINALITY
+    AS ch(id uuid, title text, content text, anchor_id text, word_count integer, is_preview boolean, ord bigint)
+  WHERE _mode = 'add'
+    OR ch.id IS NULL
+    OR NOT EXISTS (SELECT 1 FROM public.chapters c WHERE c.id = ch.id AND c.book_id = _book_id);
+
+  SELECT count(*) INTO after_count FROM public.chapters WHERE book_id = _book_id;
+
+  IF _mode = 'replace' THEN
+    UPDATE public.reading_progress rp
+    SET chapter_id = nc.id,
+      chapter_position = 0,
+      chapter_percent = 0
+    FROM jsonb_to_recordset(previous->'reading_progress') AS old(id uuid, chapter_order integer),
+      public.chapters nc
+    WHERE rp.id = old.id
+      AND rp.chapter_id IS NULL
+      AND nc.book_id = _book_id
+      AND nc.chapter_order = LEAST(old.chapter_order, after_count);
+
+    -- Highlight positions re-anchored against the revised text by parse-manuscript,
+    -- and highlights whose passage it could not find
+    UPDATE public.highlights h
+    SET start_position = u.start_position,
+      end_position = u.end_position,
+      text_content = coalesce(u.text_content, h.text_content),
+      is_orphaned = coalesce(u.is_orphaned, false)
+    FROM jsonb_to_recordset(coalesce(_highlight_updates, '[]'))
+      AS u(id uuid, start_position integer, end_position integer, text_content text, is_orphaned boolean),
+      public.chapters c
+    WHERE h.id = u.id
+      AND c.id = h.chapter_id
+      AND c.book_id = _book_id;
+
+    -- Bookmark positions re-anchored the same way
+    UPDATE public.bookmarks b
+    SET position = u.position
+    FROM jsonb_to_recordset(coalesce(_bookmark_updates, '[]')) AS u(id uuid, position integer),
+      public.chapters c
+    WHERE b.id = u.id
+      AND c.id = b.chapter_id
+      AND c.book_id = _book_id;
+  END IF;
+
+  -- Revisions written by the chapter trigger carry no user under the service role
+  UPDATE public.chapter_revisions r
+  SET created_by = _created_by
+  FROM public.chapters c
+  WHERE r.chapter_id = c.id
+    AND c.book_id = _book_id
+    AND r.created_by IS NULL
+    AND r.created_at = now();
+
+  UPDATE public.books SET updated_at = now() WHERE id = _book_id;
+
+  INSERT INTO public.import_runs (book_id, created_by, mode, source_path, chapters_before, chapters_after, chapters_matched, snapshot, warnings)
+  VALUES (_book_id, _created_by, _mode, _source_path, before_count, after_count, matched_count, previous, coalesce(_warnings, '[]'))
+  RETURNING id INTO run_id;
+
+  RETURN run_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.import_book_chapters FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.import_book_chapters TO service_role;
+
+-- Restores the chapter set an import replaced. Chapters that still exist are
+-- restored in place (keeping their revision history), removed ones come back with
+-- their original ids, and chapters the import added are deleted, so bookmarks,
+-- highlights and progress pointers from the snapshot line up again.
+-- Only the most recent completed import of a book can be rolled back.
+CREATE OR REPLACE FUNCTION public.rollback_import_run(_run_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  run public.import_runs;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can roll back imports';
+  END IF;
+
+  SELECT * INTO run FROM public.import_runs WHERE id = _run_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Import run % not found', _run_id;
+  END IF;
+  IF run.status <> 'completed' THEN
+    RAISE EXCEPTION 'Import run has already been rolled back';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM public.import_runs
+    WHERE book_id = run.book_id AND status = 'completed' AND created_at > run.created_at
+  ) THEN
+    RAISE EXCEPTION 'Only the most recent import can be rolled back';
+  END IF;
+
+  PERFORM 1 FROM public.books WHERE id = run.book_id FOR UPDATE;
+
+  DELETE FROM public.chapters c
+  WHERE c.book_id = run.book_id
+    AND NOT EXISTS (
+      SELECT 1 FROM jsonb_to_recordset(run.snapshot->'chapters') AS s(id uuid) WHERE s.id = c.id
+    );
+
+  UPDATE public.chapters c
+  SET title = s.title,
+    content = s.content,
+    chapter_order = s.chapter_order,
+    anchor_id = s.anchor_id,
+    is_preview = s.is_preview,
+    word_count = s.word_count,
+    release_at = s.release_at,
+    updated_at = now()
+  FROM jsonb_populate_recordset(NULL::public.chapters, run.snapshot->'chapters') s
+  WHERE c.id = s.id;
+
+  INSERT INTO public.chapters
+  SELECT s.* FROM jsonb_populate_recordset(NULL::public.chapters, run.snapshot->'chapters') s
+  WHERE NOT EXISTS (SELECT 1 FROM public.chapters c WHERE c.id = s.id);
+
+  INSERT INTO public.bookmarks
+  SELECT b.* FROM jsonb_populate_recordset(NULL::public.bookmarks, run.snapshot->'bookmarks') b
+  WHERE EXISTS (SELECT 1 FROM auth.users u WHERE u.id = b.user_id)
+  ON CONFLICT (id) DO NOTHING;
+
+  -- Highlights re-anchored by the import get their old positions back
+  INSERT INTO public.highlights
+  SELECT h.* FROM jsonb_populate_recordset(NULL::public.highlights, run.snapshot->'highlights') h
+  WHERE EXISTS (SELECT 1 FROM auth.users u WHERE u.id = h.user_id)
+  ON CONFLICT (id) DO UPDATE
+  SET start_position = EXCLUDED.start_position,
+    end_position = EXCLUDED.end_position,
+    text_content = EXCLUDED.text_content;
+
+  UPDATE public.reading_progress rp
+  SET chapter_id = old.chapter_id,
+    chapter_position = coalesce(old.chapter_position, 0),
+    chapter_percent = coalesce(old.chapter_percent, 0)
+  FROM jsonb_to_recordset(run.snapshot->'reading_progress')
+    AS old(id uuid, chapter_id uuid, chapter_position integer, chapter_percent numeric)
+  WHERE rp.id = old.id;
+
+  UPDATE public.import_runs SET status = 'rolled_back', rolled_back_at = now() WHERE id = _run_id;
+  UPDATE public.books SET updated_at = now() WHERE id = run.book_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.rollback_import_run TO authenticated;
+
+-- Puts a chapter back to an earlier revision, moving readers' highlights and
+-- bookmarks to where restore-revision found their passages in the restored text.
+-- Called by restore-revision with the service role.
+CREATE OR REPLACE FUNCTION public.restore_chapter_revision(
+  _revision_id uuid,
+  _created_by uuid DEFAULT NULL,
+  _highlight_updates jsonb DEFAULT '[]',
+  _bookmark_updates jsonb DEFAULT '[]'
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  revision public.chapter_revisions;
+BEGIN
+  SELECT * INTO revision FROM public.chapter_revisions WHERE id = _revision_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Revision % not found', _revision_id;
+  END IF;
+
+  -- Recorded as a new revision by the chapter trigger
+  UPDATE public.chapters
+  SET title = revision.title,
+    content = revision.content,
+    word_count = revision.word_count,
+    updated_at = now()
+  WHERE id = revision.chapter_id;
+
+  UPDATE public.highlights h
+  SET start_position = u.start_position,
+    end_position = u.end_position,
+    text_content = coalesce(u.text_content, h.text_content),
+    is_orphaned = coalesce(u.is_orphaned, false)
+  FROM jsonb_to_recordset(coalesce(_highlight_updates, '[]'))
+    AS u(id uuid, start_position integer, end_position integer, text_content text, is_orphaned boolean)
+  WHERE h.id = u.id
+    AND h.chapter_id = revision.chapter_id;
+
+  UPDATE public.bookmarks b
+  SET position = u.position
+  FROM jsonb_to_recordset(coalesce(_bookmark_updates, '[]')) AS u(id uuid, position integer)
+  WHERE b.id = u.id
+    AND b.chapter_id = revision.chapter_id;
+
+  -- The trigger's revision carries no user under the service role
+  UPDATE public.chapter_revisions
+  SET created_by = _created_by
+  WHERE chapter_id = revision.chapter_id
+    AND created_by IS NULL
+    AND created_at = now();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.restore_chapter_revision FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.restore_chapter_revision TO service_role;
+
+-- Import runs and chapter revisions (policies need has_role, so they are created after the helpers)
+CREATE POLICY "Admins can view import runs" ON public.import_runs
+  FOR SELECT USING (public.has_role(auth.uid(), 'admin'));
+CREATE POLICY "Admins can view chapter revisions" ON public.chapter_revisions
+  FOR SELECT USING (public.has_role(auth.uid(), 'admin'));
+
+-- Series are edited from the admin portal directly
+CREATE POLICY "Admins can manage series" ON public.series
+  FOR ALL USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+CREATE POLICY "Admins can manage series books" ON public.series_books
+  FOR ALL USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.record_chapter_revision()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  previous_count integer := 0;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    previous_count := coalesce(OLD.word_count, 0);
+  END IF;
+
+  INSERT INTO public.chapter_revisions (chapter_id, title, content, word_count, word_count_delta, created_by)
+  VALUES (NEW.id, NEW.title, NEW.content, NEW.word_count, coalesce(NEW.word_count, 0) - previous_count, auth.uid());
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_chapter_created
+  AFTER INSERT ON public.chapters
+  FOR EACH ROW EXECUTE FUNCTION public.record_chapter_revision();
+
+CREATE TRIGGER on_chapter_text_changed
+  AFTER UPDATE OF title, content ON public.chapters
+  FOR EACH ROW
+  WHEN (OLD.title IS DISTINCT FROM NEW.title OR OLD.content IS DISTINCT FROM NEW.content)
+  EXECUTE FUNCTION public.record_chapter_revision();
+
 CREATE OR REPLACE FUNCTION public.handle_new_user()
 RETURNS trigger
 LANGUAGE plpgsql
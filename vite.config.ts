@@ -1,7 +1,38 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
+import { createHash } from "crypto";
+import fs from "fs";
 import path from "path";
 
+// Stamps the copy of public/sw.js in the build with an id derived from the
+// build's hashed file names, and the list of those files. A changed sw.js is
+// what makes browsers install the new worker and drop the old shell cache.
+function serviceWorkerBuild(): Plugin {
+  let outDir = "dist";
+  let files: string[] = [];
+  return {
+    name: "service-worker-build",
+    apply: "build",
+    configResolved(config) {
+      outDir = path.resolve(config.root, config.build.outDir);
+    },
+    generateBundle(_options, bundle) {
+      files = Object.keys(bundle)
+        .filter((fileName) => fileName.startsWith("assets/"))
+        .map((fileName) => `/${fileName}`)
+        .sort();
+    },
+    writeBundle() {
+      const swPath = path.join(outDir, "sw.js");
+      const buildId = createHash("sha256").update(files.join("\n")).digest("hex").slice(0, 12);
+      const source = fs.readFileSync(swPath, "utf8")
+        .replace("const BUILD_ID = 'dev';", `const BUILD_ID = '${buildId}';`)
+        .replace("const BUILD_FILES = [];", `const BUILD_FILES = ${JSON.stringify(files)};`);
+      fs.writeFileSync(swPath, source);
+    },
+  };
+}
+
 // https://vitejs.dev/config/
 export default defineConfig({
   server: {
@@ -11,7 +42,7 @@ export default defineConfig({
       overlay: false,
     },
   },
-  plugins: [react()],
+  plugins: [react(), serviceWorkerBuild()],
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),